@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+import { listen } from "../dist/lsp.js";
+
+listen(process.stdin, process.stdout);
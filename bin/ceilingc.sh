@@ -1,2 +0,0 @@
-echo "borrow checker failed"
-exit 1
\ No newline at end of file
@@ -0,0 +1,860 @@
+import { Code, Diagnostic, DiagnosticDetails, Diagnostics, Severity, Span } from "./diagnostics.js";
+import { Definition, DefinitionKind, Resolution } from "./resolve.js";
+import {
+  ASTKind,
+  Binding,
+  Expr,
+  FieldDecl,
+  FunctionDecl,
+  Identifier,
+  isError,
+  MessageDecl,
+  Module,
+  Place,
+  Stmt,
+  TypeExpr,
+} from "./syntax.js";
+import { concreteType, SimpleType, TypeKind, Typing } from "./typecheck.js";
+
+// Borrows follow "borrow checking without lifetimes": instead of a region, a borrowed
+// handle remembers the places (variables, parameters, fields) it was borrowed from,
+// and stays usable while all of them are alive. `handle<a, b> T` spells such a set out.
+
+// an annotated place set, or null when the type doesn't borrow
+type Places = Definition[] | null;
+
+interface VarState {
+  owned: boolean;
+  deps: Set<Definition>; // places this variable borrows from
+  dead?: "moved" | "dropped" | "out of scope";
+  deadAt?: Span; // where it was moved or dropped
+}
+
+type State = Map<Definition, VarState>;
+
+// the result of evaluating an expression that holds a handle
+interface Value {
+  owned: boolean;
+  place?: Definition; // the variable it was read from
+  source?: Identifier; // and where
+  deps: Set<Definition>;
+}
+
+enum Use {
+  Copy,
+  Send, // crossing into another actor
+  Receiver, // messaging, resetting or accessing, which doesn't copy the handle
+}
+
+interface FunctionInfo {
+  name: string;
+  returnType?: TypeExpr;
+  returnPlaces: Places;
+}
+
+export interface BorrowCheck {
+  // every place each variable may borrow from, over the whole function
+  dependencies: Map<Definition, Set<Definition>>;
+  // parameters, bindings and assignments that store an owned handle
+  owningStores: Set<Binding | Expr>;
+  // reads that move the variable out
+  moves: Set<Identifier>;
+  allDiags: Diagnostic[];
+}
+
+export function listNames(names: string[]): string {
+  const quoted = names.map(n => `\`${n}\``);
+  return quoted.length === 1 ? quoted[0] : `${quoted.slice(0, -1).join(", ")} and ${quoted[quoted.length - 1]}`;
+}
+
+function fieldBinding(field: Definition): Binding | undefined {
+  const decl = field.node as FieldDecl;
+  return isError(decl) ? undefined : decl.binding;
+}
+
+function isOwnedAnnotation(type: TypeExpr | undefined, resolution: Resolution): boolean {
+  if (!type) return false;
+  if (type.kind === ASTKind.OwnedType) return true;
+  // bare actor names can only be held by owning the actor
+  return type.kind === ASTKind.Identifier && resolution.references.get(type)?.kind === DefinitionKind.Actor;
+}
+
+function isUniqueAnnotation(type: TypeExpr | undefined): boolean {
+  if (type?.kind === ASTKind.OwnedType) return isUniqueAnnotation(type.inner);
+  return type?.kind === ASTKind.HandleType && type.unique;
+}
+
+export class BorrowChecker {
+  public allDiags: Diagnostic[] = [];
+  public dependencies = new Map<Definition, Set<Definition>>();
+  public owningStores = new Set<Binding | Expr>();
+  public moves = new Set<Identifier>();
+
+  protected state: State = new Map();
+  protected scopes: Definition[][] = [];
+  protected fn: FunctionInfo = { name: "", returnPlaces: null };
+  protected reported = new Set<string>();
+
+  constructor(
+    protected diag: Diagnostics,
+    protected module: Module,
+    protected resolution: Resolution,
+    protected typing: Typing,
+  ) {}
+
+  protected report(span: Span, message: string, details: DiagnosticDetails) {
+    // loop bodies are checked twice
+    const key = `${span.start}:${span.end}:${message}`;
+    if (this.reported.has(key)) return;
+    this.reported.add(key);
+    this.allDiags.push(this.diag.createDiagnostic(span, message, Severity.Error, details));
+  }
+
+  public check(): BorrowCheck {
+    for (const decl of this.module.decls) {
+      switch (decl.kind) {
+        case ASTKind.FunctionDecl:
+        case ASTKind.QueryDecl:
+        case ASTKind.CommandDecl:
+          this.checkFunction(decl);
+      }
+    }
+    return {
+      dependencies: this.dependencies,
+      owningStores: this.owningStores,
+      moves: this.moves,
+      allDiags: this.allDiags,
+    };
+  }
+
+  // --- places and types ---
+
+  protected isResource(type: SimpleType | undefined, seen = new Set<SimpleType>()): boolean {
+    if (!type || seen.has(type)) return false;
+    seen.add(type);
+
+    switch (type.kind) {
+      case TypeKind.Handle:
+        return true;
+      case TypeKind.Variable:
+        return [...type.lowerBounds, ...type.upperBounds].some(t => this.isResource(t, seen));
+      case TypeKind.Struct: {
+        const fields = this.resolution.types.get(type.name)?.fields ?? new Map<string, Definition>();
+        return [...fields.values()].some(field => {
+          const binding = fieldBinding(field);
+          return binding !== undefined && this.isResource(this.typing.types.get(binding), seen);
+        });
+      }
+      case TypeKind.Generic:
+        return type.args.some(arg => this.isResource(arg, seen));
+      case TypeKind.Union:
+      case TypeKind.Intersection:
+        return type.types.some(t => this.isResource(t, seen));
+      case TypeKind.Record:
+        return [...type.fields.values()].some(t => this.isResource(t, seen));
+    }
+    return false;
+  }
+
+  protected resolvePlace(place: Place): Definition | undefined {
+    if (place.kind === ASTKind.Identifier) return this.resolution.references.get(place);
+    // `this.a` names the field, anything else borrows from the root
+    return (place.fields.length > 0 && this.resolution.references.get(place.fields[0])) || this.resolution.references.get(place.root);
+  }
+
+  protected places(type: TypeExpr | undefined): Places {
+    if (!type) return null;
+    switch (type.kind) {
+      case ASTKind.OwnedType:
+        return this.places(type.inner);
+      case ASTKind.HandleType:
+        if (type.lifetimes.length === 0) return null;
+        return type.lifetimes.flatMap(place => this.resolvePlace(place) ?? []);
+      case ASTKind.GenericType: {
+        const tuples = type.args.filter(arg => arg.kind === ASTKind.PlaceTuple);
+        if (tuples.length === 0) return null;
+        return tuples.flatMap(tuple => tuple.places.flatMap(place => this.resolvePlace(place) ?? []));
+      }
+    }
+    return null;
+  }
+
+  // the owners and outside places a set of places ultimately borrows from
+  protected roots(deps: Iterable<Definition>, seen = new Set<Definition>()): Set<Definition> {
+    const roots = new Set<Definition>();
+    for (const dep of deps) {
+      if (seen.has(dep)) continue;
+      seen.add(dep);
+
+      const state = this.state.get(dep);
+      if (!state || state.deps.size === 0) {
+        roots.add(dep);
+      } else {
+        for (const root of this.roots(state.deps, seen)) roots.add(root);
+      }
+    }
+    return roots;
+  }
+
+  protected isOwner(def: Definition): boolean {
+    return this.state.get(def)?.owned === true;
+  }
+
+  protected setState(def: Definition, state: VarState) {
+    this.state.set(def, state);
+    if (state.deps.size === 0) return;
+
+    const all = this.dependencies.get(def) ?? new Set();
+    for (const dep of state.deps) all.add(dep);
+    this.dependencies.set(def, all);
+  }
+
+  protected cloneState(): State {
+    return new Map(this.state);
+  }
+
+  // a variable is moved, dropped or borrowed if it is on either path
+  protected mergeState(other: State) {
+    for (const [def, theirs] of other) {
+      const ours = this.state.get(def);
+      if (!ours) {
+        this.state.set(def, theirs);
+        continue;
+      }
+      if (ours === theirs) continue;
+      this.state.set(def, {
+        owned: ours.owned && theirs.owned,
+        deps: new Set([...ours.deps, ...theirs.deps]),
+        dead: ours.dead ?? theirs.dead,
+        deadAt: ours.dead ? ours.deadAt : theirs.deadAt,
+      });
+    }
+  }
+
+  protected withBlock(f: () => void) {
+    this.scopes.push([]);
+    f();
+    for (const def of this.scopes.pop()!) {
+      const state = this.state.get(def);
+      if (state && !state.dead) this.state.set(def, { ...state, dead: "out of scope" });
+    }
+  }
+
+  // --- functions and statements ---
+
+  protected checkFunction(decl: FunctionDecl | MessageDecl) {
+    if (isError(decl.body)) return;
+
+    this.state = new Map();
+    this.scopes = [];
+    this.fn = {
+      name: isError(decl.name) ? "" : decl.name.name,
+      ...(decl.returnType ? { returnType: decl.returnType } : {}),
+      returnPlaces: this.places(decl.returnType),
+    };
+
+    for (const param of decl.params) {
+      const def = this.bindingDefinition(param);
+      if (!def || isError(param) || !this.isResource(this.typing.types.get(param))) continue;
+      // plain handle parameters are borrowed from the caller
+      const owned = isOwnedAnnotation(param.type, this.resolution);
+      if (owned) this.owningStores.add(param);
+      this.setState(def, { owned, deps: new Set() });
+    }
+
+    const body = decl.body;
+    this.withBlock(() => this.checkStmts(body));
+  }
+
+  protected bindingDefinition(binding: Binding): Definition | undefined {
+    if (isError(binding) || isError(binding.name)) return undefined;
+    return this.resolution.references.get(binding.name);
+  }
+
+  protected checkStmts(stmts: Stmt[]) {
+    for (const stmt of stmts) {
+      this.checkStmt(stmt);
+    }
+  }
+
+  protected checkNestedStmt(stmt: Stmt) {
+    this.withBlock(() => this.checkStmt(stmt));
+  }
+
+  protected checkStmt(stmt: Stmt) {
+    switch (stmt.kind) {
+      case ASTKind.Let:
+      case ASTKind.Const:
+        this.bind(stmt.binding, this.evalExpr(stmt.init), stmt.init.span);
+        break;
+
+      case ASTKind.Return:
+        if (stmt.value) this.checkReturn(stmt.value);
+        break;
+
+      case ASTKind.Throw: {
+        // the thrown value leaves for a handler that may outlive every local
+        const value = this.evalExpr(stmt.value, Use.Send);
+        if (value) this.take(value);
+        break;
+      }
+
+      case ASTKind.ExprStmt:
+        this.evalExpr(stmt.expr);
+        break;
+
+      case ASTKind.Block:
+        this.withBlock(() => this.checkStmts(stmt.stmts));
+        break;
+
+      case ASTKind.If: {
+        this.evalExpr(stmt.cond);
+        const before = this.cloneState();
+        this.checkNestedStmt(stmt.then);
+        const afterThen = this.state;
+        this.state = before;
+        if (stmt.else) this.checkNestedStmt(stmt.else);
+        this.mergeState(afterThen);
+        break;
+      }
+
+      case ASTKind.While:
+        // the second pass sees what the previous iteration moved
+        for (let i = 0; i < 2; i++) {
+          this.evalExpr(stmt.cond);
+          const before = this.cloneState();
+          this.checkNestedStmt(stmt.body);
+          this.mergeState(before);
+        }
+        break;
+
+      case ASTKind.ForOf: {
+        const iterable = this.evalExpr(stmt.iterable, Use.Receiver);
+        for (let i = 0; i < 2; i++) {
+          const before = this.cloneState();
+          this.withBlock(() => {
+            const element = iterable && { owned: false, deps: this.borrowDeps(iterable) };
+            this.bind(stmt.binding, element, stmt.iterable.span);
+            this.checkStmt(stmt.body);
+          });
+          this.mergeState(before);
+        }
+        break;
+      }
+
+      case ASTKind.Try: {
+        const before = this.cloneState();
+        if (!isError(stmt.body)) this.checkNestedStmt(stmt.body);
+        // the handler may run after any part of the body
+        this.mergeState(before);
+        this.withBlock(() => {
+          this.checkStmts(stmt.handler.stmts);
+        });
+        break;
+      }
+
+      case ASTKind.CtxBlock:
+        // ctx fields are passed by value, like message arguments
+        for (const init of stmt.fields) {
+          if (isError(init)) continue;
+          const value = this.evalExpr(init.value, Use.Send);
+          if (value) this.take(value);
+        }
+        this.checkNestedStmt(stmt.body);
+        break;
+    }
+  }
+
+  protected bind(binding: Binding, value: Value | null, span: Span) {
+    const def = this.bindingDefinition(binding);
+    if (!def || isError(binding) || !value || !this.isResource(this.typing.types.get(binding))) return;
+
+    const taken = this.take(value);
+    let deps = taken.deps;
+
+    const declared = this.places(binding.type);
+    if (declared) {
+      const allowed = new Set([...declared, ...this.roots(declared)]);
+      const extra = [...this.roots(taken.deps)].filter(root => !allowed.has(root));
+      if (extra.length > 0) {
+        const declaredNames = listNames(declared.map(d => d.name));
+        this.report(span, `\`${def.name}\` is declared to borrow from ${declaredNames}, but it also borrows from ${listNames(extra.map(d => d.name))}`, {
+          code: Code.UndeclaredBorrow,
+          labels: binding.type ? [{ span: binding.type.span, message: `declared here` }] : [],
+        });
+      }
+      deps = new Set(declared);
+    }
+
+    if (taken.owned) this.owningStores.add(binding);
+    this.setState(def, { owned: taken.owned, deps });
+    this.scopes[this.scopes.length - 1].push(def);
+  }
+
+  protected checkReturn(expr: Expr) {
+    const value = this.evalExpr(expr, Use.Copy);
+    if (!value) return;
+
+    const taken = this.take(value);
+    const roots = [...this.roots(taken.deps)];
+    const what = value.place ? `\`${value.place.name}\`` : "this value";
+
+    const leaked = roots.filter(root => this.isOwner(root));
+    if (leaked.length > 0) {
+      const names = listNames(leaked.map(d => d.name));
+      this.report(
+        expr.span,
+        `returning ${what} would leak ${names}: it borrows from ${leaked.length === 1 ? "an actor" : "actors"} ` +
+          `owned by \`${this.fn.name}\`, which could then never be dropped`,
+        {
+          code: Code.LeakedBorrow,
+          labels: leaked.flatMap(d => (d.span ? [{ span: d.span, message: `\`${d.name}\` is owned here` }] : [])),
+        },
+      );
+      return;
+    }
+
+    // only parameters need to be spelled out, fields of `this` live as long as the actor
+    const borrowed = roots.filter(root => root.kind === DefinitionKind.Param);
+    const allowed = new Set(this.fn.returnPlaces ?? []);
+    const undeclared = borrowed.filter(root => !allowed.has(root));
+    if (undeclared.length === 0) return;
+
+    const names = listNames(undeclared.map(d => d.name));
+    if (this.fn.returnPlaces) {
+      this.report(expr.span, `the returned value borrows from ${names}, which \`${this.fn.name}\`'s return type does not list`, {
+        code: Code.UndeclaredReturnBorrow,
+        fixes: this.returnTypeFix(undeclared),
+      });
+    } else {
+      const places = undeclared.map(d => d.name).join(", ");
+      this.report(
+        expr.span,
+        `\`${this.fn.name}\` returns an owned handle, but the returned value borrows from ${names}; declare it as \`handle<${places}>\``,
+        { code: Code.UndeclaredReturnBorrow, fixes: this.returnTypeFix(undeclared) },
+      );
+    }
+  }
+
+  // adds `places` to the return type's lifetime list, when it is written as a plain handle
+  protected returnTypeFix(places: Definition[]): DiagnosticDetails["fixes"] {
+    const type = this.fn.returnType;
+    const names = places.map(d => d.name).join(", ");
+    const title = `add ${listNames(places.map(d => d.name))} to the return type`;
+    const src = this.diag.getSource();
+
+    if (type?.kind === ASTKind.Identifier) {
+      return [{ title, edits: [{ span: { start: type.span.start, end: type.span.start }, text: `handle<${names}> ` }] }];
+    }
+    if (type?.kind !== ASTKind.HandleType) return [];
+    if (type.lifetimes.length > 0) {
+      const end = type.lifetimes[type.lifetimes.length - 1].span.end;
+      return [{ title, edits: [{ span: { start: end, end }, text: `, ${names}` }] }];
+    }
+    const keyword = src.indexOf("handle", type.span.start) + "handle".length;
+    return [{ title, edits: [{ span: { start: keyword, end: keyword }, text: `<${names}>` }] }];
+  }
+
+  // --- expressions ---
+
+  protected exprName(expr: Expr): string {
+    if (expr.kind === ASTKind.Identifier) return expr.name;
+    if (expr.kind === ASTKind.MemberAccess) return `${this.exprName(expr.object)}.${expr.member.name}`;
+    return "this value";
+  }
+
+  protected isUnique(expr: Expr): boolean {
+    const ident = expr.kind === ASTKind.Identifier ? expr : expr.kind === ASTKind.MemberAccess ? expr.member : null;
+    const def = ident && this.resolution.references.get(ident);
+    if (!def?.node) return false;
+
+    switch (def.kind) {
+      case DefinitionKind.Field: {
+        const binding = fieldBinding(def);
+        return binding !== undefined && !isError(binding) && isUniqueAnnotation(binding.type);
+      }
+      case DefinitionKind.Local:
+      case DefinitionKind.Param: {
+        const binding = def.node as Binding;
+        return !isError(binding) && isUniqueAnnotation(binding.type);
+      }
+    }
+    return false;
+  }
+
+  protected checkUnique(expr: Expr, use: Use) {
+    if (use === Use.Receiver || !this.isUnique(expr)) return;
+    if (use === Use.Send) {
+      this.report(expr.span, `cannot send unique handle \`${this.exprName(expr)}\` to another actor`, {
+        code: Code.CopiedUniqueHandle,
+        notes: ["unique handles stay with the actor that holds them"],
+      });
+    } else {
+      this.report(expr.span, `cannot copy unique handle \`${this.exprName(expr)}\``, {
+        code: Code.CopiedUniqueHandle,
+        help: ["message it or reset it in place instead"],
+      });
+    }
+  }
+
+  protected borrowDeps(value: Value): Set<Definition> {
+    return value.place ? new Set([value.place]) : value.deps;
+  }
+
+  // moves an owned value out of the variable it was read from
+  protected take(value: Value): { owned: boolean; deps: Set<Definition> } {
+    if (value.owned && value.place) {
+      if (value.source) this.moves.add(value.source);
+      const state = this.state.get(value.place);
+      if (state) this.state.set(value.place, { ...state, dead: "moved", ...(value.source ? { deadAt: value.source.span } : {}) });
+    }
+    return { owned: value.owned, deps: value.owned ? value.deps : this.borrowDeps(value) };
+  }
+
+  protected checkAlive(def: Definition, span: Span) {
+    const state = this.state.get(def);
+    if (state?.dead === "moved" || state?.dead === "dropped") {
+      this.report(span, `use of ${state.dead} value \`${def.name}\``, {
+        code: Code.UseAfterMove,
+        labels: state.deadAt ? [{ span: state.deadAt, message: `value ${state.dead} here` }] : [],
+      });
+      return;
+    }
+
+    const seen = new Set<Definition>();
+    const visit = (deps: Set<Definition>) => {
+      for (const dep of deps) {
+        if (seen.has(dep)) continue;
+        seen.add(dep);
+
+        const depState = this.state.get(dep);
+        if (!depState) continue;
+        switch (depState.dead) {
+          case "moved":
+          case "dropped":
+            this.report(span, `\`${def.name}\` borrows from \`${dep.name}\`, which has been ${depState.dead}`, {
+              code: Code.BorrowOutlivesPlace,
+              labels: depState.deadAt
+                ? [{ span: depState.deadAt, message: `\`${dep.name}\` ${depState.dead} here while \`${def.name}\` still borrows it` }]
+                : [],
+            });
+            return;
+          case "out of scope":
+            this.report(span, `\`${def.name}\` borrows from \`${dep.name}\`, which does not live long enough`, {
+              code: Code.BorrowOutlivesPlace,
+              labels: dep.span ? [{ span: dep.span, message: `\`${dep.name}\` is declared here, in a block that has ended` }] : [],
+            });
+            return;
+        }
+        visit(depState.deps);
+      }
+    };
+    if (state) visit(state.deps);
+  }
+
+  protected read(def: Definition, source: Identifier): Value {
+    this.checkAlive(def, source.span);
+    const state = this.state.get(def);
+    if (state?.owned) return { owned: true, place: def, source, deps: state.deps };
+    return { owned: false, place: def, source, deps: new Set([def]) };
+  }
+
+  protected isResourceExpr(expr: Expr): boolean {
+    return this.isResource(this.typing.types.get(expr));
+  }
+
+  protected evalExpr(expr: Expr, use = Use.Copy): Value | null {
+    switch (expr.kind) {
+      case ASTKind.Identifier: {
+        const def = this.resolution.references.get(expr);
+        if (!def || !this.isResourceExpr(expr)) return null;
+        this.checkUnique(expr, use);
+        return this.read(def, expr);
+      }
+
+      case ASTKind.Unary:
+        this.evalExpr(expr.right);
+        return null;
+
+      case ASTKind.Binary:
+        this.evalExpr(expr.left);
+        this.evalExpr(expr.right);
+        return null;
+
+      case ASTKind.Call:
+        return this.evalCall(expr);
+
+      case ASTKind.MemberAccess: {
+        const object = this.evalExpr(expr.object, Use.Receiver);
+        if (!this.isResourceExpr(expr)) return null;
+        this.checkUnique(expr, use);
+        return { owned: false, deps: object ? this.borrowDeps(object) : new Set() };
+      }
+
+      case ASTKind.Index: {
+        const object = this.evalExpr(expr.object, Use.Receiver);
+        this.evalExpr(expr.index);
+        if (!this.isResourceExpr(expr)) return null;
+        return { owned: false, deps: object ? this.borrowDeps(object) : new Set() };
+      }
+
+      case ASTKind.Assign:
+        this.evalAssign(expr);
+        return null;
+
+      case ASTKind.CompoundAssign:
+        this.evalExpr(expr.target);
+        this.evalExpr(expr.value);
+        return null;
+
+      case ASTKind.ArrayLiteral: {
+        const deps = new Set<Definition>();
+        for (const element of expr.elements) {
+          const value = this.evalExpr(element);
+          if (value) this.take(value).deps.forEach(dep => deps.add(dep));
+        }
+        return this.isResourceExpr(expr) ? { owned: true, deps } : null;
+      }
+
+      case ASTKind.StructLiteral:
+        return this.evalStruct(expr);
+
+      case ASTKind.ResetLiteral: {
+        // `x = x.reset { ... }` is handled with the assignment
+        const name = this.exprName(expr.target);
+        this.report(expr.span, `a reset has to be assigned back to what it resets, like \`${name} = ${name}.reset { ... }\``, {
+          code: Code.MisplacedReset,
+          notes: ["a reset respawns the actor behind the same handle, rather than making a new one"],
+        });
+        this.evalReset(expr);
+        return null;
+      }
+
+      case ASTKind.Await:
+        return this.evalExpr(expr.value, use);
+
+      case ASTKind.New: {
+        const deps = new Set<Definition>();
+        for (const arg of expr.args) {
+          const value = this.evalExpr(arg);
+          if (value) this.take(value).deps.forEach(dep => deps.add(dep));
+        }
+        return this.isResourceExpr(expr) ? { owned: true, deps } : null;
+      }
+    }
+
+    return null;
+  }
+
+  // the actor behind the handle is respawned, so whatever the handle was, it still is
+  protected evalReset(expr: Expr & { kind: ASTKind.ResetLiteral }) {
+    this.evalExpr(expr.target, Use.Receiver);
+    for (const init of expr.fields) {
+      if (isError(init)) continue;
+      const value = this.evalExpr(init.value, Use.Send);
+      if (value) this.take(value);
+    }
+  }
+
+  protected samePlace(a: Expr, b: Expr): boolean {
+    if (a.kind === ASTKind.Identifier && b.kind === ASTKind.Identifier) {
+      const def = this.resolution.references.get(a);
+      return def !== undefined && def === this.resolution.references.get(b);
+    }
+    if (a.kind === ASTKind.MemberAccess && b.kind === ASTKind.MemberAccess) {
+      return a.member.name === b.member.name && this.samePlace(a.object, b.object);
+    }
+    return false;
+  }
+
+  protected evalAssign(expr: Expr & { kind: ASTKind.Assign }) {
+    const { target, value: valueExpr } = expr;
+    if (valueExpr.kind === ASTKind.ResetLiteral && this.samePlace(target, valueExpr.target)) {
+      this.evalReset(valueExpr);
+      return;
+    }
+    const value = this.evalExpr(valueExpr);
+
+    switch (target.kind) {
+      case ASTKind.Identifier: {
+        const def = this.resolution.references.get(target);
+        if (!def || !value) return;
+        // the old value is overwritten, so the variable comes back to life
+        const taken = this.take(value);
+        if (taken.owned) this.owningStores.add(expr);
+        this.setState(def, { owned: taken.owned, deps: taken.deps });
+        return;
+      }
+
+      case ASTKind.MemberAccess: {
+        this.evalExpr(target.object, Use.Receiver);
+        if (!value) return;
+        const taken = this.take(value);
+
+        // fields of `this` outlive the handler, so they can't hold borrows of its locals
+        const thisDef = target.object.kind === ASTKind.Identifier ? this.resolution.references.get(target.object) : undefined;
+        if (thisDef?.kind !== DefinitionKind.This) return;
+        const locals = [...this.roots(taken.deps)].filter(root => root.kind === DefinitionKind.Local || this.isOwner(root));
+        if (locals.length > 0) {
+          this.report(
+            valueExpr.span,
+            `cannot store a borrow of ${listNames(locals.map(d => d.name))} in \`${this.exprName(target)}\`, which outlives it`,
+            { code: Code.EscapingBorrow, notes: ["fields of `this` live as long as the actor, past the end of this handler"] },
+          );
+        }
+        return;
+      }
+
+      default:
+        this.evalExpr(target, Use.Receiver);
+        if (value) this.take(value);
+    }
+  }
+
+  protected evalStruct(expr: Expr & { kind: ASTKind.StructLiteral }): Value | null {
+    const values = new Map<Definition, { value: Value; expr: Expr }>();
+    for (const init of expr.fields) {
+      if (isError(init)) continue;
+      const value = this.evalExpr(init.value);
+      const field = isError(init.name) ? undefined : this.resolution.references.get(init.name);
+      if (value && field) values.set(field, { value, expr: init.value });
+    }
+
+    // moves happen once every field has been read, so `Return { a, z }` can hold `z`'s borrow of `a`
+    const deps = new Set<Definition>();
+    for (const [field, { value, expr: init }] of values) {
+      const binding = fieldBinding(field);
+      const type = binding && !isError(binding) ? binding.type : undefined;
+
+      if (isOwnedAnnotation(type, this.resolution)) {
+        if (!value.owned) {
+          this.report(init.span, `cannot move borrowed \`${this.exprName(init)}\` into owned field \`${field.name}\``, {
+            code: Code.MovedBorrow,
+            labels: type ? [{ span: type.span, message: "owned here" }] : [],
+          });
+          continue;
+        }
+        this.take(value).deps.forEach(dep => deps.add(dep));
+        continue;
+      }
+
+      const places = this.places(type);
+      if (places) {
+        // borrows of sibling fields are owned by the struct itself
+        const allowed = new Set<Definition>();
+        for (const sibling of places) {
+          const siblingValue = values.get(sibling)?.value;
+          if (!siblingValue) continue;
+          const siblingDeps = siblingValue.place ? [siblingValue.place] : siblingValue.deps;
+          for (const root of this.roots(siblingDeps)) allowed.add(root);
+          if (siblingValue.place) allowed.add(siblingValue.place);
+        }
+
+        for (const root of this.roots(this.borrowDeps(value))) {
+          if (!allowed.has(root)) deps.add(root);
+        }
+        continue;
+      }
+
+      // `handle T` fields either own the actor or cap the struct's own lifetime
+      this.take(value).deps.forEach(dep => deps.add(dep));
+    }
+
+    return this.isResourceExpr(expr) ? { owned: true, deps } : null;
+  }
+
+  protected callee(call: Expr & { kind: ASTKind.Call }): Definition | undefined {
+    const candidates = this.resolution.callees.get(call) ?? [];
+    if (candidates.length <= 1) return candidates[0];
+
+    // pick the same handler the type checker did
+    const receiver = call.args.length > 0 ? this.typing.types.get(call.args[0]) : undefined;
+    const handle = receiver && concreteType(receiver);
+    const actor = handle?.kind === TypeKind.Handle ? handle.actor : undefined;
+    return candidates.find(c => c.owner?.name === actor) ?? candidates.find(c => c.kind === DefinitionKind.Function);
+  }
+
+  protected evalCall(call: Expr & { kind: ASTKind.Call }): Value | null {
+    if (call.callee.kind !== ASTKind.Identifier) {
+      this.evalExpr(call.callee, Use.Receiver);
+      call.args.forEach(arg => this.evalExpr(arg));
+      return this.isResourceExpr(call) ? { owned: true, deps: new Set() } : null;
+    }
+
+    const callee = this.callee(call);
+    switch (callee?.kind) {
+      case DefinitionKind.Function:
+      case DefinitionKind.Query:
+      case DefinitionKind.Command:
+        return this.evalKnownCall(call, callee);
+    }
+
+    if (callee?.kind === DefinitionKind.Builtin && callee.name === "drop") {
+      for (const arg of call.args) {
+        const value = this.evalExpr(arg);
+        if (value?.place) {
+          const state = this.state.get(value.place);
+          if (state) this.state.set(value.place, { ...state, dead: "dropped", deadAt: call.span });
+        }
+      }
+      return null;
+    }
+
+    // native methods and function values borrow their arguments
+    const args = call.args.map((arg, i) => this.evalExpr(arg, call.ufcs && i === 0 ? Use.Receiver : Use.Copy));
+    if (!this.isResourceExpr(call)) return null;
+
+    const receiver = call.ufcs ? args[0] : null;
+    if (call.ufcs && call.callee.name === "start") {
+      // spawning moves the struct into the new actor
+      return { owned: true, deps: receiver ? this.take(receiver).deps : new Set() };
+    }
+    return { owned: false, deps: receiver ? this.borrowDeps(receiver) : new Set() };
+  }
+
+  protected evalKnownCall(call: Expr & { kind: ASTKind.Call }, callee: Definition): Value | null {
+    const decl = callee.node as FunctionDecl | MessageDecl;
+    const isMessage = callee.kind !== DefinitionKind.Function;
+
+    // messages take their receiver as the first argument
+    const args = isMessage ? call.args.slice(1) : call.args;
+    if (isMessage && call.args.length > 0) this.evalExpr(call.args[0], Use.Receiver);
+
+    const argDeps = new Map<Definition, Set<Definition>>();
+    args.forEach((arg, i) => {
+      const param = decl.params[i];
+      const value = this.evalExpr(arg, isMessage ? Use.Send : Use.Copy);
+      if (!value || !param || isError(param)) return;
+
+      if (isOwnedAnnotation(param.type, this.resolution)) {
+        if (!value.owned) {
+          this.report(arg.span, `cannot move borrowed \`${this.exprName(arg)}\` into owned parameter \`${this.bindingDefinition(param)?.name}\``, {
+            code: Code.MovedBorrow,
+            labels: param.type ? [{ span: param.type.span, message: "owned here" }] : [],
+          });
+        }
+        this.take(value);
+        return;
+      }
+
+      const def = this.bindingDefinition(param);
+      if (def) argDeps.set(def, this.borrowDeps(value));
+    });
+
+    if (!this.isResourceExpr(call) || callee.kind === DefinitionKind.Command) return null;
+
+    // `handle<x, y>` results borrow from whatever was passed as `x` and `y`
+    const places = this.places(decl.returnType);
+    if (!places) return { owned: true, deps: new Set() };
+
+    const deps = new Set<Definition>();
+    for (const place of places) {
+      argDeps.get(place)?.forEach(dep => deps.add(dep));
+    }
+    return { owned: false, deps };
+  }
+}
+
+export function borrowck(diag: Diagnostics, module: Module, resolution: Resolution, typing: Typing): BorrowCheck {
+  return new BorrowChecker(diag, module, resolution, typing).check();
+}
@@ -0,0 +1,278 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from "node:fs";
+import { basename, dirname, join, relative } from "node:path";
+import { parseArgs } from "node:util";
+import { compile } from "./compile.js";
+import { Diagnostic, Diagnostics, Severity, Span } from "./diagnostics.js";
+import { applyFlags, createOptions, LoadedOptions, Options, parseOptions, schema } from "./options.js";
+import { createSarifLog, formatJSONLine, Reported } from "./report.js";
+import { ASTKind, parseModule } from "./syntax.js";
+
+// every option in `ceiling.json` can also be given as a flag, which wins
+const optionFlags = Object.entries(schema).map(([key, spec]) => {
+  const flag = spec.kind === "boolean" ? `--${key}, --no-${key}` : `--${key} <${spec.kind === "enum" ? spec.values.join("|") : spec.kind}>`;
+  return `  ${flag.padEnd(32)} ${spec.description}`;
+});
+
+const usage = `usage: ceilingc [build|check|ast] <files or directories...> [options]
+
+commands:
+  build   check, then write a .ts file for each source (the default)
+  check   only report errors
+  ast     print the parsed syntax tree as JSON
+
+options:
+  --outDir <dir>                   where build writes, mirroring the input directories; next to each source otherwise
+  --project <file>                 the project file, ./ceiling.json if there is one otherwise
+  --fix                            apply the fixes diagnostics suggest, rewriting the sources
+${optionFlags.join("\n")}
+  -h, --help                       show this message
+`;
+
+type FlagConfig = Record<string, { type: "string" | "boolean"; short?: string }>;
+
+const flagConfig: FlagConfig = {
+  outDir: { type: "string" },
+  project: { type: "string" },
+  fix: { type: "boolean" },
+  help: { type: "boolean", short: "h" },
+};
+for (const [key, spec] of Object.entries(schema)) {
+  flagConfig[key] = { type: spec.kind === "boolean" ? "boolean" : "string" };
+  if (spec.kind === "boolean") flagConfig[`no-${key}`] = { type: "boolean" };
+}
+
+type Command = "build" | "check" | "ast";
+
+// fixes can uncover more, like a missing `)` behind a missing `;`, but not forever
+const maxFixRounds = 10;
+
+const commands = new Set<string>(["build", "check", "ast"]);
+
+export interface CLIOutput {
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+const processOutput: CLIOutput = {
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+};
+
+interface Source {
+  path: string;
+  // where the output goes under `--outDir`
+  relativePath: string;
+}
+
+// every `.ceiling` file named or found under a named directory
+function collectSources(paths: string[]): Source[] {
+  const sources: Source[] = [];
+  for (const path of paths) {
+    if (!statSync(path).isDirectory()) {
+      sources.push({ path, relativePath: basename(path) });
+      continue;
+    }
+
+    const walk = (dir: string) => {
+      for (const entry of readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+        const full = join(dir, entry.name);
+        if (entry.isDirectory()) {
+          walk(full);
+        } else if (entry.name.endsWith(".ceiling")) {
+          sources.push({ path: full, relativePath: relative(path, full) });
+        }
+      }
+    };
+    walk(path);
+  }
+  return sources;
+}
+
+function outputPath(source: Source, outDir?: string): string {
+  const name = source.relativePath.replace(/\.ceiling$/, "") + ".ts";
+  return outDir ? join(outDir, name) : join(dirname(source.path), basename(name));
+}
+
+// numeric kinds are unreadable in a dump, and some spans are whole tokens
+function astReplacer(key: string, value: unknown) {
+  if (key === "span" && value) {
+    const { start, end } = value as Span;
+    return { start, end };
+  }
+  return key === "kind" && typeof value === "number" ? ASTKind[value] : value;
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+interface LoadedProject {
+  options: Options;
+  // the project file, if there was one
+  project: LoadedOptions | null;
+  // what was wrong with the flags
+  problems: string[];
+}
+
+// the project file, then the flags; null if the project file couldn't be read, after saying why
+function loadOptions(values: Record<string, string | boolean | undefined>, out: CLIOutput): LoadedProject | null {
+  let options = createOptions();
+  let loaded: LoadedOptions | null = null;
+
+  const project = typeof values.project === "string" ? values.project : existsSync("ceiling.json") ? "ceiling.json" : null;
+  if (project !== null) {
+    let src;
+    try {
+      src = readFileSync(project, "utf8");
+    } catch (e) {
+      out.stderr(`ceilingc: ${(e as Error).message}\n`);
+      return null;
+    }
+    loaded = parseOptions(project, src);
+    options = loaded.options;
+  }
+
+  return { options, project: loaded, problems: applyFlags(options, flagValues(values)) };
+}
+
+// folds `--no-x` into `x`
+function flagValues(values: Record<string, string | boolean | undefined>) {
+  const flags = { ...values };
+  for (const key of Object.keys(schema)) {
+    if (flags[`no-${key}`]) flags[key] = false;
+    delete flags[`no-${key}`];
+  }
+  return flags;
+}
+
+// returns the exit code: 1 for errors in the sources, 2 for bad usage or options
+export function main(argv: string[], out: CLIOutput = processOutput): number {
+  let parsed;
+  try {
+    parsed = parseArgs({ args: argv, allowPositionals: true, options: flagConfig });
+  } catch (e) {
+    out.stderr(`${(e as Error).message}\n\n${usage}`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    out.stdout(usage);
+    return 0;
+  }
+
+  const loaded = loadOptions(values, out);
+  if (!loaded) return 2;
+  const { options, project, problems } = loaded;
+
+  // machine formats go to stdout so that nothing else is mixed into them, and a SARIF log is
+  // one document, written once everything has been checked
+  const sarif: Reported[] = [];
+  const write = (diag: Diagnostic, diagnostics: Diagnostics) => {
+    switch (options.format) {
+      case "json":
+        out.stdout(formatJSONLine({ diag, diagnostics }));
+        break;
+      case "sarif":
+        sarif.push({ diag, diagnostics });
+        break;
+      default:
+        out.stderr(diagnostics.formatDiagnostic(diag, options.color));
+    }
+  };
+  const finish = () => {
+    if (options.format === "sarif") out.stdout(JSON.stringify(createSarifLog(sarif), null, 2) + "\n");
+  };
+
+  // colors and formats are themselves options, so the project file's diagnostics wait for the flags
+  project?.allDiags.forEach(diag => write(diag, project.diagnostics));
+  problems.forEach(problem => out.stderr(`ceilingc: ${problem}\n`));
+  if (problems.length > 0 || project?.allDiags.some(d => d.severity === Severity.Error)) {
+    finish();
+    return 2;
+  }
+  const outDir = typeof values.outDir === "string" ? values.outDir : undefined;
+
+  const command: Command = commands.has(positionals[0]) ? (positionals.shift() as Command) : "build";
+  if (positionals.length === 0) {
+    out.stderr(usage);
+    return 2;
+  }
+
+  let sources;
+  try {
+    sources = collectSources(positionals);
+  } catch (e) {
+    out.stderr(`ceilingc: ${(e as Error).message}\n`);
+    return 2;
+  }
+
+  let errors = 0;
+  let warnings = 0;
+  // past `maxErrors`, errors are only counted
+  const report = (diag: Diagnostic, diagnostics: Diagnostics) => {
+    if (diag.severity === Severity.Error) {
+      errors++;
+      if (options.maxErrors > 0 && errors > options.maxErrors) return;
+    } else {
+      warnings++;
+    }
+    write(diag, diagnostics);
+  };
+
+  for (const source of sources) {
+    let src = readFileSync(source.path, "utf8");
+
+    // a dump is for looking at the parser, so the later passes don't get a say
+    if (command === "ast") {
+      const { module, diagnostics, allDiags } = parseModule(source.path, src);
+      allDiags.forEach(diag => report(diag, diagnostics));
+      out.stdout(JSON.stringify(module, astReplacer, 2) + "\n");
+      continue;
+    }
+
+    const target = outputPath(source, outDir);
+    const compileOptions = {
+      emit: command === "build",
+      sourceMap: options.sourceMap ? { file: basename(target), source: relative(dirname(target), source.path) } : undefined,
+      strictness: options.strictness,
+      target: options.target,
+    };
+    let result = compile(source.path, src, compileOptions);
+
+    if (values.fix) {
+      let fixed = 0;
+      for (let round = 0; round < maxFixRounds; round++) {
+        const { text, applied } = result.diagnostics.applyFixes(result.allDiags);
+        if (applied === 0) break;
+        fixed += applied;
+        src = text;
+        result = compile(source.path, src, compileOptions);
+      }
+      if (fixed > 0) {
+        writeFileSync(source.path, src);
+        if (options.format === "text") out.stderr(`fixed ${plural(fixed, "problem")} in ${source.path}\n`);
+      }
+    }
+
+    result.allDiags.forEach(diag => report(diag, result.diagnostics));
+
+    if (result.code !== undefined) {
+      mkdirSync(dirname(target), { recursive: true });
+      let code = result.code;
+      if (result.map) {
+        writeFileSync(`${target}.map`, JSON.stringify(result.map));
+        code += `//# sourceMappingURL=${basename(target)}.map\n`;
+      }
+      writeFileSync(target, code);
+    }
+  }
+
+  finish();
+  if (options.format === "text" && (errors > 0 || warnings > 0)) {
+    const counts = [errors > 0 ? plural(errors, "error") : "", warnings > 0 ? plural(warnings, "warning") : ""];
+    const shown = options.maxErrors > 0 && errors > options.maxErrors ? ` (showing the first ${options.maxErrors})` : "";
+    out.stderr(`${counts.filter(c => c).join(" and ")}${shown} in ${plural(sources.length, "file")}\n`);
+  }
+  return errors > 0 ? 1 : 0;
+}
@@ -0,0 +1,967 @@
+import { BorrowCheck } from "./borrowck.js";
+import { Span } from "./diagnostics.js";
+import { Definition, DefinitionKind, Resolution, Scope } from "./resolve.js";
+import {
+  ASTKind,
+  BinaryOp,
+  Binding,
+  containsAwait,
+  Expr,
+  FieldInit,
+  FieldModifier,
+  FunctionDecl,
+  Identifier,
+  isError,
+  MessageDecl,
+  Module,
+  Stmt,
+  StructDecl,
+  TypeArg,
+  TypeExpr,
+  UnaryOp,
+} from "./syntax.js";
+import { SourceMapWriter } from "./sourcemap.js";
+import { concreteType, SimpleType, TypeKind, Typing } from "./typecheck.js";
+import { Target } from "./options.js";
+
+// Lowers a checked module to TypeScript against the runtime in `the-ceiling/runtime`:
+// structs become classes built from a fields object, actor structs extend `Actor` and
+// carry their queries and commands as methods, and handles are messaged through
+// `query` and `command`. `ctx` becomes an object parameter on every function that takes
+// fields from its callers, and a local everywhere else it is used.
+
+type Body = FunctionDecl | MessageDecl;
+
+export const runtimeModule = "the-ceiling/runtime";
+export const nodeRuntimeModule = "the-ceiling/runtime/node";
+
+const binaryOps: Record<BinaryOp, string> = {
+  [BinaryOp.Plus]: "+",
+  [BinaryOp.Minus]: "-",
+  [BinaryOp.Multiply]: "*",
+  [BinaryOp.Divide]: "/",
+  [BinaryOp.Equals]: "===",
+  [BinaryOp.NotEquals]: "!==",
+  [BinaryOp.And]: "&&",
+  [BinaryOp.Or]: "||",
+  [BinaryOp.Less]: "<",
+  [BinaryOp.Greater]: ">",
+  [BinaryOp.LessEquals]: "<=",
+  [BinaryOp.GreaterEquals]: ">=",
+  [BinaryOp.Modulo]: "%",
+};
+
+// TypeScript precedence, loosely
+enum Precedence {
+  Assign = 1,
+  Or,
+  And,
+  Equality,
+  Relational,
+  Additive,
+  Multiplicative,
+  Prefix,
+  Postfix,
+  Primary,
+}
+
+function binaryPrecedence(op: BinaryOp): Precedence {
+  switch (op) {
+    case BinaryOp.Or:
+      return Precedence.Or;
+    case BinaryOp.And:
+      return Precedence.And;
+    case BinaryOp.Equals:
+    case BinaryOp.NotEquals:
+      return Precedence.Equality;
+    case BinaryOp.Less:
+    case BinaryOp.Greater:
+    case BinaryOp.LessEquals:
+    case BinaryOp.GreaterEquals:
+      return Precedence.Relational;
+    case BinaryOp.Plus:
+    case BinaryOp.Minus:
+      return Precedence.Additive;
+    case BinaryOp.Multiply:
+    case BinaryOp.Divide:
+    case BinaryOp.Modulo:
+      return Precedence.Multiplicative;
+  }
+}
+
+function precedence(expr: Expr): Precedence {
+  switch (expr.kind) {
+    case ASTKind.Assign:
+    case ASTKind.CompoundAssign:
+      return Precedence.Assign;
+    case ASTKind.Binary:
+      return binaryPrecedence(expr.op);
+    case ASTKind.Unary:
+    case ASTKind.Await:
+      return Precedence.Prefix;
+    case ASTKind.Call:
+    case ASTKind.MemberAccess:
+    case ASTKind.Index:
+    case ASTKind.StructLiteral:
+    case ASTKind.ResetLiteral:
+    case ASTKind.New:
+      return Precedence.Postfix;
+  }
+  return Precedence.Primary;
+}
+
+// whether a `return ?` in an if's branches returns its condition, rather than a nested if's
+function returnsCondition(stmt: Stmt): boolean {
+  switch (stmt.kind) {
+    case ASTKind.Return:
+      return stmt.condition === true;
+    case ASTKind.Block:
+      return stmt.stmts.some(returnsCondition);
+    case ASTKind.While:
+    case ASTKind.ForOf:
+      return returnsCondition(stmt.body);
+    case ASTKind.Try:
+      return (!isError(stmt.body) && returnsCondition(stmt.body)) || returnsCondition(stmt.handler);
+    case ASTKind.CtxBlock:
+      return returnsCondition(stmt.body);
+  }
+  return false;
+}
+
+// accumulates indented output, and maps positions in it back to the source
+export class Emitter {
+  protected output = "";
+  protected indentLevel = 0;
+  protected atLineStart = true;
+  protected generatedLine = 0;
+  protected generatedColumn = 0;
+
+  constructor(protected map?: SourceMapWriter) {}
+
+  public write(text: string) {
+    if (this.atLineStart) {
+      this.output += "  ".repeat(this.indentLevel);
+      this.generatedColumn = 2 * this.indentLevel;
+      this.atLineStart = false;
+    }
+    this.output += text;
+    this.generatedColumn += text.length;
+  }
+
+  public newline() {
+    this.output += "\n";
+    this.generatedLine++;
+    this.generatedColumn = 0;
+    this.atLineStart = true;
+  }
+
+  // the next write came from `span`
+  public mark(span: Span, name?: string) {
+    if (!this.map) return;
+    const column = this.atLineStart ? 2 * this.indentLevel : this.generatedColumn;
+    this.map.addMapping(this.generatedLine, column, span, name);
+  }
+
+  public line(text: string) {
+    this.write(text);
+    this.newline();
+  }
+
+  public indent() {
+    this.indentLevel++;
+  }
+
+  public dedent() {
+    this.indentLevel--;
+  }
+
+  public toString(): string {
+    return this.output;
+  }
+}
+
+export class CodeGenerator {
+  protected out: Emitter;
+  protected runtimeImports = new Set<string>();
+  // names the program declares anywhere, which runtime imports are renamed around
+  protected declared = new Set<string>();
+  // what `ctx` is called in the code being emitted, which changes inside ctx blocks
+  protected ctxNames = ["ctx"];
+  // what the conditions of the enclosing ifs are stored in, for `return ?`
+  protected conditions: string[] = [];
+  protected conditionCount = 0;
+  // locals that shadow another local of the same body, under names of their own, since a
+  // drop inserted inside the inner one's scope can still need to name the outer one
+  protected localNames = new Map<Definition, string>();
+  // the struct literal being spawned, whose fields are sent to the new actor
+  protected spawning?: Expr;
+
+  constructor(
+    protected module: Module,
+    protected resolution: Resolution,
+    protected typing: Typing,
+    protected borrowCheck: BorrowCheck,
+    protected bodies: Map<Body, Stmt[]>,
+    protected map?: SourceMapWriter,
+    protected target: Target = "browser",
+  ) {
+    this.out = new Emitter(map);
+    const collect = (scope: Scope) => {
+      for (const def of scope.definitions.values()) {
+        if (def.span) this.declared.add(def.name);
+      }
+      scope.children.forEach(collect);
+    };
+    collect(resolution.module);
+    for (const def of resolution.types.values()) {
+      if (def.span) this.declared.add(def.name);
+    }
+  }
+
+  protected runtime(name: string): string {
+    this.runtimeImports.add(name);
+    return this.runtimeName(name);
+  }
+
+  // what a runtime import is called in the output, so `actor struct Actor` doesn't extend itself
+  protected runtimeName(name: string): string {
+    let alias = name;
+    while (this.declared.has(alias)) alias = `$${alias}`;
+    return alias;
+  }
+
+  protected importList(names: Iterable<string>): string {
+    return [...names]
+      .sort((a, b) => a.localeCompare(b))
+      .map(name => (this.runtimeName(name) === name ? name : `${name} as ${this.runtimeName(name)}`))
+      .join(", ");
+  }
+
+  public generate(): string {
+    const messages = new Map<string, MessageDecl[]>();
+    for (const decl of this.module.decls) {
+      if (decl.kind !== ASTKind.QueryDecl && decl.kind !== ASTKind.CommandDecl) continue;
+      if (isError(decl.receiver)) continue;
+      const list = messages.get(decl.receiver.name) ?? [];
+      list.push(decl);
+      messages.set(decl.receiver.name, list);
+    }
+
+    let first = true;
+    for (const decl of this.module.decls) {
+      if (decl.kind !== ASTKind.StructDecl && decl.kind !== ASTKind.FunctionDecl) continue;
+      if (!first) this.out.newline();
+      first = false;
+
+      if (decl.kind === ASTKind.StructDecl) {
+        this.emitStruct(decl, isError(decl.name) ? [] : (messages.get(decl.name.name) ?? []));
+      } else {
+        this.emitFunction(decl);
+      }
+    }
+
+    const body = this.out.toString();
+    if (this.runtimeImports.size === 0) return body;
+
+    // on node, whichever module is loaded first has to install `worker_threads`
+    let setup = "";
+    if (this.target === "node") {
+      const setPlatform = this.runtime("setPlatform");
+      const nodePlatform = this.runtimeName("nodePlatform");
+      setup = `import { ${this.importList(["nodePlatform"])} } from "${nodeRuntimeModule}";\n\n${setPlatform}(${nodePlatform});\n`;
+    }
+    this.map?.shiftLines(setup === "" ? 2 : 5);
+    return `import { ${this.importList(this.runtimeImports)} } from "${runtimeModule}";\n${setup}\n${body}`;
+  }
+
+  // --- declarations ---
+
+  protected emitStruct(decl: StructDecl, messages: MessageDecl[]) {
+    if (isError(decl.name)) return;
+    const name = decl.name.name;
+
+    this.out.mark(decl.span, name);
+    this.out.line(`export class ${name}${decl.actor ? ` extends ${this.runtime("Actor")}` : ""} {`);
+    this.out.indent();
+
+    if (decl.actor) {
+      // the runtime loads this module in the actor's worker, then dispatches by name
+      this.out.line("static readonly module = import.meta.url;");
+      const kinds = messages.flatMap(m =>
+        isError(m.name) ? [] : [`${m.name.name}: "${m.kind === ASTKind.QueryDecl ? "query" : "command"}"`],
+      );
+      this.out.line(`static readonly messages = ${kinds.length === 0 ? "{}" : `{ ${kinds.join(", ")} }`} as const;`);
+      this.out.newline();
+    }
+
+    const fieldTypes: string[] = [];
+    for (const field of decl.fields) {
+      if (isError(field) || isError(field.binding) || isError(field.binding.name)) continue;
+      const fieldName = field.binding.name.name;
+      const type = this.bindingType(field.binding);
+      const modifier = field.modifier === FieldModifier.Private ? "private " : "";
+
+      this.out.mark(field.span, fieldName);
+
+      this.out.write(`${modifier}${fieldName}${field.init ? "" : "!"}: ${type}`);
+      if (field.init) {
+        this.out.write(" = ");
+        this.emitExpr(field.init);
+      }
+      this.out.line(";");
+      fieldTypes.push(`${fieldName}${field.init ? "?" : ""}: ${type}`);
+    }
+    if (fieldTypes.length > 0) this.out.newline();
+
+    const fieldsType = fieldTypes.length > 0 ? `{ ${fieldTypes.join("; ")} }` : "{}";
+    this.out.line(`constructor(fields: ${fieldsType}) {`);
+    this.out.indent();
+    if (decl.actor) this.out.line("super();");
+    this.out.line("Object.assign(this, fields);");
+    this.out.dedent();
+    this.out.line("}");
+
+    for (const message of messages) {
+      this.out.newline();
+      this.emitMessage(message);
+    }
+
+    this.out.dedent();
+    this.out.line("}");
+  }
+
+  protected emitFunction(decl: FunctionDecl) {
+    if (isError(decl.name)) return;
+    const body = this.bodies.get(decl) ?? [];
+    const async = containsAwait(body);
+
+    this.renameShadowing(decl.params, body);
+    this.out.mark(decl.span, decl.name.name);
+    this.out.write(`export ${async ? "async " : ""}function ${decl.name.name}`);
+    this.emitSignature(decl, async);
+    this.emitBlock(body, () => this.emitCtxPrologue(decl));
+  }
+
+  protected emitMessage(decl: MessageDecl) {
+    if (isError(decl.name)) return;
+    const body = this.bodies.get(decl) ?? [];
+    const async = containsAwait(body);
+
+    this.renameShadowing(decl.params, body);
+    this.out.mark(decl.span, decl.name.name);
+    this.out.write(`${async ? "async " : ""}${decl.name.name}`);
+    this.emitSignature(decl, async);
+    this.emitBlock(body, () => this.emitCtxPrologue(decl));
+  }
+
+  protected renameShadowing(params: Binding[], body: Stmt[]) {
+    this.localNames = new Map();
+    let count = 0;
+
+    const declare = (binding: Binding | undefined, scopes: Set<string>[]) => {
+      if (!binding || isError(binding) || isError(binding.name)) return;
+      const { name } = binding.name;
+      const def = this.resolution.references.get(binding.name);
+      if (def && scopes.some(scope => scope.has(name))) this.localNames.set(def, `${name}$${++count}`);
+      scopes[scopes.length - 1].add(name);
+    };
+
+    const visit = (stmts: Stmt[], scopes: Set<string>[], bindings: (Binding | undefined)[] = []) => {
+      scopes = [...scopes, new Set()];
+      bindings.forEach(binding => declare(binding, scopes));
+      for (const stmt of stmts) {
+        switch (stmt.kind) {
+          case ASTKind.Let:
+          case ASTKind.Const:
+            declare(stmt.binding, scopes);
+            break;
+          case ASTKind.Block:
+            visit(stmt.stmts, scopes);
+            break;
+          case ASTKind.CtxBlock:
+            visit(stmt.body.stmts, scopes);
+            break;
+          case ASTKind.If:
+            visit([stmt.then], scopes);
+            if (stmt.else) visit([stmt.else], scopes);
+            break;
+          case ASTKind.While:
+            visit([stmt.body], scopes);
+            break;
+          case ASTKind.ForOf:
+            visit([stmt.body], scopes, [stmt.binding]);
+            break;
+          case ASTKind.Try:
+            if (!isError(stmt.body)) visit([stmt.body], scopes);
+            visit(stmt.handler.stmts, scopes, [stmt.binding]);
+            break;
+        }
+      }
+    };
+    visit(body, [], params);
+  }
+
+  // what a local is called in the generated code
+  protected local(ident: Identifier): string {
+    const def = this.resolution.references.get(ident);
+    return (def && this.localNames.get(def)) ?? ident.name;
+  }
+
+  protected emitSignature(decl: Body, async: boolean) {
+    const params = decl.params.map((param, i) => {
+      if (isError(param) || isError(param.name)) return `_${i}: any`;
+      return `${param.name.name}: ${this.bindingType(param)}`;
+    });
+    if (this.accepts(decl).size > 0) params.push(`ctx: ${this.ctxType(decl)}`);
+    this.out.write(`(${params.join(", ")})`);
+
+    let returnType = decl.returnType ? this.typeExpr(decl.returnType) : decl.kind === ASTKind.CommandDecl ? "void" : null;
+    if (returnType && async) returnType = `Promise<${returnType}>`;
+    if (returnType) this.out.write(`: ${returnType}`);
+    this.out.write(" ");
+  }
+
+  // --- ctx ---
+
+  protected accepts(decl: Body) {
+    return this.typing.ctx.accepts.get(decl) ?? new Map();
+  }
+
+  // fields the caller must pass are required, the rest are filled in here
+  protected ctxType(decl: Body): string {
+    const accepts = this.accepts(decl);
+    const names = new Set([...accepts.keys(), ...(this.typing.ctxTypes.get(decl)?.keys() ?? [])]);
+    if (names.size === 0) return "{}";
+
+    const fields = [...names].map(name => {
+      const field = accepts.get(name);
+      const declared = field?.decl && !isError(field.decl.binding) ? field.decl.binding.type : undefined;
+      const inferred = this.typing.ctxTypes.get(decl)?.get(name);
+      const type = declared ? this.typeExpr(declared) : inferred ? this.simpleType(inferred) : "any";
+      return `${name}${field?.required ? "" : "?"}: ${type}`;
+    });
+    return `{ ${fields.join("; ")} }`;
+  }
+
+  protected emitCtxPrologue(decl: Body) {
+    if (this.accepts(decl).size === 0) {
+      if (this.typing.ctx.uses.has(decl)) this.out.line(`const ctx: ${this.ctxType(decl)} = {};`);
+      return;
+    }
+
+    for (const field of this.accepts(decl).values()) {
+      if (!field.decl?.init) continue;
+      this.out.mark(field.decl.span, field.name);
+      this.out.write(`ctx.${field.name} ??= `);
+      this.emitExpr(field.decl.init);
+      this.out.line(";");
+    }
+  }
+
+  // the fields passed along to a function that takes some, by value
+  protected ctxArg(call: Expr & { kind: ASTKind.Call }, callee: Definition): string | null {
+    if (callee.kind !== DefinitionKind.Function || !callee.node) return null;
+    if (this.accepts(callee.node as FunctionDecl).size === 0) return null;
+
+    const ctx = this.ctxNames[this.ctxNames.length - 1];
+    const fields = (this.typing.ctx.passes.get(call) ?? []).map(name => `${name}: ${ctx}.${name}`);
+    return fields.length > 0 ? `{ ${fields.join(", ")} }` : "{}";
+  }
+
+  // --- types ---
+
+  protected bindingType(binding: Binding): string {
+    if (isError(binding)) return "any";
+    if (binding.type) return this.typeExpr(binding.type);
+    const inferred = this.typing.types.get(binding);
+    return inferred ? this.simpleType(inferred) : "any";
+  }
+
+  protected typeExpr(type: TypeExpr | TypeArg): string {
+    switch (type.kind) {
+      case ASTKind.Identifier:
+        // a bare actor type is an owned handle
+        if (this.resolution.references.get(type)?.kind === DefinitionKind.Actor) {
+          return `${this.runtime("Handle")}<${type.name}>`;
+        }
+        return type.name;
+      case ASTKind.HandleType: {
+        const inner = type.inner.kind === ASTKind.Identifier ? type.inner.name : this.typeExpr(type.inner);
+        return `${this.runtime("Handle")}<${inner}>`;
+      }
+      case ASTKind.OwnedType:
+        return this.typeExpr(type.inner);
+      case ASTKind.GenericType: {
+        // place tuples have no runtime meaning
+        const args = type.args.filter(arg => arg.kind !== ASTKind.PlaceTuple).map(arg => this.typeExpr(arg));
+        const base = this.typeExpr(type.base);
+        return args.length > 0 ? `${base}<${args.join(", ")}>` : base;
+      }
+      case ASTKind.ArrayType: {
+        const element = this.typeExpr(type.element);
+        const needsParens = type.element.kind === ASTKind.UnionType || type.element.kind === ASTKind.IntersectionType || type.element.kind === ASTKind.FunctionType;
+        return needsParens ? `(${element})[]` : `${element}[]`;
+      }
+      case ASTKind.UnionType:
+        return type.types.map(t => this.typeExpr(t)).join(" | ");
+      case ASTKind.IntersectionType:
+        return type.types.map(t => this.typeExpr(t)).join(" & ");
+      case ASTKind.FunctionType: {
+        const params = type.params.map((param, i) =>
+          isError(param) || isError(param.name) ? `_${i}: any` : `${param.name.name}: ${param.type ? this.typeExpr(param.type) : "any"}`,
+        );
+        return `(${params.join(", ")}) => ${this.typeExpr(type.returnType)}`;
+      }
+    }
+    return "any";
+  }
+
+  // spells out an inferred type, or `any` when inference didn't pin it down
+  protected simpleType(type: SimpleType, depth = 0): string {
+    if (depth > 8) return "any";
+    switch (type.kind) {
+      case TypeKind.Primitive:
+        return type.name;
+      case TypeKind.Handle:
+        return `${this.runtime("Handle")}<${type.actor}>`;
+      case TypeKind.Struct:
+        return type.name;
+      case TypeKind.Generic:
+        return `${type.name}<${type.args.map(arg => this.simpleType(arg, depth + 1)).join(", ")}>`;
+      case TypeKind.Function: {
+        const params = type.params.map((param, i) => `_${i}: ${this.simpleType(param, depth + 1)}`);
+        return `(${params.join(", ")}) => ${this.simpleType(type.result, depth + 1)}`;
+      }
+      case TypeKind.Union:
+      case TypeKind.Intersection:
+        return type.types.map(t => this.simpleType(t, depth + 1)).join(type.kind === TypeKind.Union ? " | " : " & ");
+      case TypeKind.Variable: {
+        // parameters are mostly constrained from above
+        const bound = concreteType(type) ?? type.upperBounds.find(t => t.kind !== TypeKind.Variable);
+        return bound ? this.simpleType(bound, depth + 1) : "any";
+      }
+    }
+    return "any";
+  }
+
+  // --- statements ---
+
+  protected emitBlock(stmts: Stmt[], prologue?: () => void) {
+    this.conditionCount = 0;
+    this.out.line("{");
+    this.out.indent();
+    prologue?.();
+    stmts.forEach(stmt => this.emitStmt(stmt));
+    this.out.dedent();
+    this.out.write("}");
+    this.out.newline();
+  }
+
+  // branch and loop bodies always get braces
+  protected emitBody(stmt: Stmt) {
+    this.out.write("{");
+    this.out.newline();
+    this.out.indent();
+    if (stmt.kind === ASTKind.Block) {
+      stmt.stmts.forEach(s => this.emitStmt(s));
+    } else {
+      this.emitStmt(stmt);
+    }
+    this.out.dedent();
+    this.out.write("}");
+  }
+
+  protected emitStmt(stmt: Stmt) {
+    this.out.mark(stmt.span);
+    switch (stmt.kind) {
+      case ASTKind.Let:
+      case ASTKind.Const: {
+        if (isError(stmt.binding) || isError(stmt.binding.name)) return;
+        const type = stmt.binding.type ? `: ${this.typeExpr(stmt.binding.type)}` : "";
+        this.out.write(`${stmt.kind === ASTKind.Let ? "let" : "const"} ${this.local(stmt.binding.name)}${type} = `);
+        this.emitExpr(stmt.init);
+        this.out.line(";");
+        break;
+      }
+
+      case ASTKind.Return:
+        this.out.write("return");
+        if (stmt.condition) {
+          this.out.write(` ${this.conditions[this.conditions.length - 1] ?? "undefined"}`);
+        } else if (stmt.value) {
+          this.out.write(" ");
+          this.emitExpr(stmt.value);
+        }
+        this.out.line(";");
+        break;
+
+      case ASTKind.Throw:
+        this.out.write("throw ");
+        this.emitExpr(stmt.value);
+        this.out.line(";");
+        break;
+
+      case ASTKind.ExprStmt:
+        this.emitExpr(stmt.expr);
+        this.out.line(";");
+        break;
+
+      case ASTKind.Drop:
+        this.out.line(`${this.runtime("drop")}(${this.local(stmt.target)});`);
+        break;
+
+      case ASTKind.Block:
+        this.out.write("");
+        this.emitBody(stmt);
+        this.out.newline();
+        break;
+
+      case ASTKind.If: {
+        this.emitCondition(stmt);
+        this.emitBody(stmt.then);
+
+        // an else if whose condition is returned needs a statement of its own first
+        let otherwise = stmt.else;
+        while (otherwise?.kind === ASTKind.If && !this.returnsCondition(otherwise)) {
+          this.out.write(" else ");
+          this.emitCondition(otherwise);
+          this.emitBody(otherwise.then);
+          this.conditions.pop();
+          otherwise = otherwise.else;
+        }
+        if (otherwise) {
+          this.out.write(" else ");
+          this.emitBody(otherwise);
+        }
+        this.conditions.pop();
+        this.out.newline();
+        break;
+      }
+
+      case ASTKind.While:
+        this.out.write("while (");
+        this.emitExpr(stmt.cond);
+        this.out.write(") ");
+        this.emitBody(stmt.body);
+        this.out.newline();
+        break;
+
+      case ASTKind.ForOf: {
+        if (isError(stmt.binding) || isError(stmt.binding.name)) return;
+        this.out.write(`for (${stmt.isConst ? "const" : "let"} ${this.local(stmt.binding.name)} of `);
+        this.emitExpr(stmt.iterable);
+        this.out.write(") ");
+        this.emitBody(stmt.body);
+        this.out.newline();
+        break;
+      }
+
+      case ASTKind.Try: {
+        if (isError(stmt.body)) return;
+        this.out.write("try ");
+        this.emitBody(stmt.body);
+        const binding = stmt.binding && !isError(stmt.binding) && !isError(stmt.binding.name) ? ` (${this.local(stmt.binding.name)})` : "";
+        this.out.write(` catch${binding} `);
+        this.emitBody(stmt.handler);
+        this.out.newline();
+        break;
+      }
+
+      case ASTKind.CtxBlock: {
+        // a copy of the outer ctx with some fields replaced, under a name of its own
+        const outer = this.ctxNames[this.ctxNames.length - 1];
+        const inner = `ctx$${this.ctxNames.length}`;
+        this.out.line("{");
+        this.out.indent();
+        this.out.write(`const ${inner} = { ...${outer}`);
+        for (const init of stmt.fields) {
+          if (isError(init) || isError(init.name)) continue;
+          this.out.write(`, ${init.name.name}: `);
+          this.emitExpr(init.value);
+        }
+        this.out.line(" };");
+
+        this.ctxNames.push(inner);
+        stmt.body.stmts.forEach(s => this.emitStmt(s));
+        this.ctxNames.pop();
+        this.out.dedent();
+        this.out.line("}");
+        break;
+      }
+    }
+  }
+
+  protected returnsCondition(stmt: Stmt & { kind: ASTKind.If }): boolean {
+    return returnsCondition(stmt.then) || (stmt.else !== undefined && returnsCondition(stmt.else));
+  }
+
+  // writes `if (cond) `, storing the condition first if a `return ?` needs it
+  protected emitCondition(stmt: Stmt & { kind: ASTKind.If }) {
+    if (!this.returnsCondition(stmt)) {
+      this.conditions.push("undefined");
+      this.out.write("if (");
+      this.emitExpr(stmt.cond);
+      this.out.write(") ");
+      return;
+    }
+
+    const name = `$cond${++this.conditionCount}`;
+    this.conditions.push(name);
+    this.out.write(`const ${name} = `);
+    this.emitExpr(stmt.cond);
+    this.out.line(";");
+    this.out.write(`if (${name}) `);
+  }
+
+  // --- expressions ---
+
+  protected emitExpr(expr: Expr, min = Precedence.Assign) {
+    const parens = precedence(expr) < min;
+    if (parens) this.out.write("(");
+    this.out.mark(expr.span, expr.kind === ASTKind.Identifier ? expr.name : undefined);
+    this.emitExprInner(expr);
+    if (parens) this.out.write(")");
+  }
+
+  // member access on a number literal needs parentheses, `2.x` would be a decimal
+  protected emitObject(expr: Expr) {
+    if (expr.kind === ASTKind.NumberLiteral) {
+      this.out.write("(");
+      this.emitExpr(expr);
+      this.out.write(")");
+    } else {
+      this.emitExpr(expr, Precedence.Postfix);
+    }
+  }
+
+  // `sent` arguments are a message's, which the receiving actor takes over when moved
+  protected emitArgs(args: Expr[], prefix = "", suffix = "", sent = false) {
+    this.out.write(`(${prefix}`);
+    args.forEach((arg, i) => {
+      if (i > 0 || prefix) this.out.write(", ");
+      this.emitSent(arg, sent && this.isMoved(arg));
+    });
+    if (suffix) this.out.write(args.length > 0 || prefix ? `, ${suffix}` : suffix);
+    this.out.write(")");
+  }
+
+  // `sent` fields go to a new actor, which takes over the handles moved into them
+  protected emitFieldInits(inits: FieldInit[], sent = false) {
+    const fields = inits.flatMap(init => (isError(init) || isError(init.name) ? [] : [{ ...init, name: init.name }]));
+    if (fields.length === 0) {
+      this.out.write("({})");
+      return;
+    }
+
+    this.out.write("({ ");
+    fields.forEach((field, i) => {
+      if (i > 0) this.out.write(", ");
+      const moved = sent && this.isMoved(field.value);
+      if (field.shorthand && !moved && field.value.kind === ASTKind.Identifier && this.local(field.value) === field.name.name) {
+        this.out.write(field.name.name);
+      } else {
+        this.out.write(`${field.name.name}: `);
+        this.emitSent(field.value, moved);
+      }
+    });
+    this.out.write(" })");
+  }
+
+  protected isMapIndex(expr: Expr): expr is Expr & { kind: ASTKind.Index } {
+    if (expr.kind !== ASTKind.Index) return false;
+    const object = this.typing.types.get(expr.object);
+    const type = object && concreteType(object);
+    return type?.kind === TypeKind.Generic && type.name === "Map";
+  }
+
+  // `m[k] = v` is `m.set(k, v)`, and `m[k] += v` reads the entry first
+  protected emitMapSet(target: Expr & { kind: ASTKind.Index }, assign: Expr & { kind: ASTKind.Assign | ASTKind.CompoundAssign }) {
+    this.emitObject(target.object);
+    this.out.write(".set(");
+    this.emitExpr(target.index);
+    this.out.write(", ");
+    if (assign.kind === ASTKind.CompoundAssign) {
+      const prec = binaryPrecedence(assign.op);
+      this.emitExpr(target, prec);
+      this.out.write(` ${binaryOps[assign.op]} `);
+      this.emitExpr(assign.value, prec + 1);
+    } else {
+      this.emitExpr(assign.value, Precedence.Assign);
+    }
+    this.out.write(")");
+  }
+
+  protected isMoved(expr: Expr): boolean {
+    return expr.kind === ASTKind.Identifier && this.borrowCheck.moves.has(expr);
+  }
+
+  protected emitSent(expr: Expr, moved: boolean) {
+    if (!moved) {
+      this.emitExpr(expr);
+      return;
+    }
+    this.out.write(`${this.runtime("move")}(`);
+    this.emitExpr(expr);
+    this.out.write(")");
+  }
+
+  protected emitExprInner(expr: Expr) {
+    switch (expr.kind) {
+      case ASTKind.Identifier:
+        if (this.resolution.references.get(expr)?.kind === DefinitionKind.Ctx) {
+          this.out.write(this.ctxNames[this.ctxNames.length - 1]);
+          break;
+        }
+        this.out.write(this.local(expr));
+        break;
+
+      case ASTKind.NumberLiteral:
+        this.out.write(String(expr.value));
+        break;
+
+      case ASTKind.StringLiteral:
+        this.out.write(JSON.stringify(expr.value));
+        break;
+
+      case ASTKind.Unary:
+        this.out.write(expr.op === UnaryOp.Minus ? "-" : "");
+        this.emitExpr(expr.right, Precedence.Postfix);
+        break;
+
+      case ASTKind.Binary: {
+        const prec = binaryPrecedence(expr.op);
+        this.emitExpr(expr.left, prec);
+        this.out.write(` ${binaryOps[expr.op]} `);
+        this.emitExpr(expr.right, prec + 1);
+        break;
+      }
+
+      case ASTKind.Assign:
+      case ASTKind.CompoundAssign:
+        if (this.isMapIndex(expr.target)) {
+          this.emitMapSet(expr.target, expr);
+          break;
+        }
+        this.emitExpr(expr.target, Precedence.Postfix);
+        this.out.write(expr.kind === ASTKind.Assign ? " = " : ` ${binaryOps[expr.op]}= `);
+        this.emitExpr(expr.value, Precedence.Assign);
+        break;
+
+      case ASTKind.Call:
+        this.emitCall(expr);
+        break;
+
+      case ASTKind.MemberAccess:
+        this.emitObject(expr.object);
+        this.out.write(`.${expr.member.name}`);
+        break;
+
+      case ASTKind.Index:
+        this.emitObject(expr.object);
+        this.out.write(this.isMapIndex(expr) ? ".get(" : "[");
+        this.emitExpr(expr.index);
+        this.out.write(this.isMapIndex(expr) ? ")" : "]");
+        break;
+
+      case ASTKind.ArrayLiteral:
+        this.out.write("[");
+        expr.elements.forEach((element, i) => {
+          if (i > 0) this.out.write(", ");
+          this.emitExpr(element);
+        });
+        this.out.write("]");
+        break;
+
+      case ASTKind.StructLiteral:
+        this.out.write(`new ${expr.type.name}`);
+        this.emitFieldInits(expr.fields, this.spawning === expr);
+        break;
+
+      case ASTKind.ResetLiteral:
+        this.emitObject(expr.target);
+        this.out.write(".reset");
+        this.emitFieldInits(expr.fields, true);
+        break;
+
+      case ASTKind.Await:
+        this.out.write("await ");
+        this.emitExpr(expr.value, Precedence.Prefix);
+        break;
+
+      case ASTKind.New:
+        this.out.write(`new ${expr.type.name}`);
+        this.emitArgs(expr.args);
+        break;
+    }
+  }
+
+  protected callee(call: Expr & { kind: ASTKind.Call }): Definition | undefined {
+    const candidates = this.resolution.callees.get(call) ?? [];
+    if (candidates.length <= 1) return candidates[0];
+
+    const receiver = call.args.length > 0 ? this.typing.types.get(call.args[0]) : undefined;
+    const handle = receiver && concreteType(receiver);
+    const actor = handle?.kind === TypeKind.Handle ? handle.actor : undefined;
+    return candidates.find(c => c.owner?.name === actor) ?? candidates.find(c => c.kind === DefinitionKind.Function);
+  }
+
+  protected emitCall(call: Expr & { kind: ASTKind.Call }) {
+    if (call.callee.kind !== ASTKind.Identifier) {
+      this.emitExpr(call.callee, Precedence.Postfix);
+      this.emitArgs(call.args);
+      return;
+    }
+
+    const name = call.callee.name;
+    const callee = this.callee(call);
+    const [receiver, ...rest] = call.args;
+
+    switch (callee?.kind) {
+      case DefinitionKind.Query:
+      case DefinitionKind.Command:
+        // messages go through the handle
+        this.emitObject(receiver);
+        this.out.write(`.${callee.kind === DefinitionKind.Query ? "query" : "command"}`);
+        this.emitArgs(rest, JSON.stringify(name), "", true);
+        return;
+
+      case DefinitionKind.Builtin:
+        if (name !== "drop") break;
+        this.out.write(this.runtime("drop"));
+        this.emitArgs(call.args);
+        return;
+    }
+
+    if (!call.ufcs || callee) {
+      this.out.write(name);
+      this.emitArgs(call.args, "", (callee && this.ctxArg(call, callee)) ?? "");
+      return;
+    }
+
+    if (name === "start") {
+      this.out.write(this.runtime("spawn"));
+      this.spawning = receiver;
+      this.emitArgs([receiver]);
+      this.spawning = undefined;
+      return;
+    }
+
+    // anything else is a native method
+    this.emitObject(receiver);
+    this.out.write(`.${name}`);
+    this.emitArgs(rest);
+  }
+}
+
+// pass a `SourceMapWriter` to have it filled with mappings for the returned code
+export function generate(
+  module: Module,
+  resolution: Resolution,
+  typing: Typing,
+  borrowCheck: BorrowCheck,
+  bodies: Map<Body, Stmt[]>,
+  map?: SourceMapWriter,
+  target?: Target,
+): string {
+  return new CodeGenerator(module, resolution, typing, borrowCheck, bodies, map, target).generate();
+}
@@ -0,0 +1,63 @@
+import { Diagnostic, Diagnostics, Severity } from "./diagnostics.js";
+import { BorrowCheck, borrowck } from "./borrowck.js";
+import { generate } from "./codegen.js";
+import { insertDrops } from "./liveness.js";
+import { Strictness, Target } from "./options.js";
+import { resolve, Resolution } from "./resolve.js";
+import { SourceMap, SourceMapWriter } from "./sourcemap.js";
+import { Module, ParsedModule, parseModule } from "./syntax.js";
+import { typecheck, Typing } from "./typecheck.js";
+
+// The whole pipeline for one source file, as the command line runs it. Every pass runs
+// even after errors so they are all reported at once, but nothing is generated then;
+// warnings don't stop generation.
+
+export interface CompileOptions {
+  emit?: boolean;
+  // names of the generated file and of the source as seen from it, to map one to the other
+  sourceMap?: { file: string; source: string };
+  strictness?: Strictness;
+  target?: Target;
+}
+
+export interface Compilation {
+  module: Module;
+  diagnostics: Diagnostics;
+  resolution: Resolution;
+  typing: Typing;
+  borrowCheck: BorrowCheck;
+  allDiags: Diagnostic[];
+  code?: string;
+  map?: SourceMap;
+}
+
+function borrowDiags(diags: Diagnostic[], { strictness = "error" }: CompileOptions): Diagnostic[] {
+  switch (strictness) {
+    case "error":
+      return diags;
+    case "warning":
+      return diags.map(d => ({ ...d, severity: Severity.Warning }));
+    case "off":
+      return [];
+  }
+}
+
+export function compile(uri: string, src: string, options: CompileOptions = {}): Compilation {
+  return compileModule(parseModule(uri, src), options);
+}
+
+// the rest of the pipeline, for modules parsed some other way
+export function compileModule({ module, diagnostics, allDiags }: ParsedModule, options: CompileOptions = {}): Compilation {
+  const resolution = resolve(diagnostics, module);
+  const typing = typecheck(diagnostics, module, resolution);
+  const borrowCheck = borrowck(diagnostics, module, resolution, typing);
+
+  const all = [...allDiags, ...resolution.allDiags, ...typing.allDiags, ...borrowDiags(borrowCheck.allDiags, options)];
+  const checked = { module, diagnostics, resolution, typing, borrowCheck, allDiags: all };
+  if (all.some(d => d.severity === Severity.Error) || !options.emit) return checked;
+
+  const { sourceMap } = options;
+  const writer = sourceMap ? new SourceMapWriter(sourceMap.file, sourceMap.source, diagnostics) : undefined;
+  const code = generate(module, resolution, typing, borrowCheck, insertDrops(module, resolution, borrowCheck), writer, options.target);
+  return { ...checked, code, map: writer?.toJSON() };
+}
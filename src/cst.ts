@@ -0,0 +1,117 @@
+import { ASTKind, Lexer, ParsedModule, TokenKind, TriviaKind } from "./syntax.js";
+
+// A lossless concrete syntax tree, for formatters and refactoring tools. The tree follows
+// the AST, but its leaves are every token of the source with the whitespace and comments
+// around them, so printing it gives back the text exactly, and printing it after editing
+// token or trivia text keeps everything that wasn't touched, comments included.
+
+export interface CSTTrivia {
+  kind: TriviaKind;
+  text: string;
+}
+
+export interface CSTToken {
+  kind: TokenKind;
+  text: string;
+  // offsets into the source it was built from, which edits don't update
+  start: number;
+  end: number;
+  leading: CSTTrivia[];
+  trailing: CSTTrivia[];
+}
+
+export interface CSTNode {
+  kind: ASTKind;
+  // the AST node this covers; the module for the root
+  node: object;
+  start: number;
+  end: number;
+  // in source order
+  children: (CSTNode | CSTToken)[];
+}
+
+export function isToken(child: CSTNode | CSTToken): child is CSTToken {
+  return "text" in child;
+}
+
+type ASTNode = { kind: ASTKind; span: { start: number; end: number } };
+
+// every AST node under `node` that covers some text, parents before their children
+function collectNodes(node: unknown, out: ASTNode[], seen = new Set<object>()) {
+  if (typeof node !== "object" || node === null || seen.has(node)) return;
+  seen.add(node);
+
+  const ast = node as Partial<ASTNode>;
+  if (typeof ast.kind === "number" && ast.span && ast.span.end > ast.span.start) out.push(ast as ASTNode);
+  for (const value of Object.values(node)) collectNodes(value, out, seen);
+}
+
+// builds the tree from a parse of the whole source, ending with an `EndOfFile` token
+export function buildCST({ module, diagnostics }: ParsedModule): CSTNode {
+  const src = diagnostics.getSource();
+  const text = (t: { start: number; end: number }) => src.slice(t.start, t.end);
+
+  const nodes: ASTNode[] = [];
+  module.decls.forEach(decl => collectNodes(decl, nodes));
+  // outer nodes first, and the sort is stable, so a node comes before a child with the same span
+  nodes.sort((a, b) => a.span.start - b.span.start || b.span.end - a.span.end);
+
+  const root: CSTNode = { kind: ASTKind.Module, node: module, start: 0, end: src.length, children: [] };
+  const stack = [root];
+  const enter = (start: number, end: number) => {
+    // a node that only partly covers the one before it goes beside it instead, and the
+    // empty `EndOfFile` token goes in the root even when the last node ends with the source
+    const covers = (node: CSTNode) => node.start <= start && start < node.end && end <= node.end;
+    while (stack.length > 1 && !covers(stack[stack.length - 1])) stack.pop();
+    return stack[stack.length - 1];
+  };
+
+  let n = 0;
+  for (const token of new Lexer(src).runWithTrivia()) {
+    for (; n < nodes.length && nodes[n].span.start <= token.start; n++) {
+      const { kind, span } = nodes[n];
+      const child: CSTNode = { kind, node: nodes[n], start: span.start, end: span.end, children: [] };
+      enter(span.start, span.end).children.push(child);
+      stack.push(child);
+    }
+
+    enter(token.start, token.end).children.push({
+      kind: token.kind,
+      text: text(token),
+      start: token.start,
+      end: token.end,
+      leading: token.leading.map(t => ({ kind: t.kind, text: text(t) })),
+      trailing: token.trailing.map(t => ({ kind: t.kind, text: text(t) })),
+    });
+  }
+  return root;
+}
+
+export function* tokensOf(node: CSTNode | CSTToken): Generator<CSTToken, void, unknown> {
+  if (isToken(node)) {
+    yield node;
+    return;
+  }
+  for (const child of node.children) yield* tokensOf(child);
+}
+
+export function printCST(node: CSTNode | CSTToken): string {
+  let output = "";
+  for (const token of tokensOf(node)) {
+    for (const trivia of token.leading) output += trivia.text;
+    output += token.text;
+    for (const trivia of token.trailing) output += trivia.text;
+  }
+  return output;
+}
+
+// the comments in order, e.g. to carry them over when a node is replaced
+export function commentsOf(node: CSTNode | CSTToken): CSTTrivia[] {
+  const comments: CSTTrivia[] = [];
+  for (const token of tokensOf(node)) {
+    for (const trivia of [...token.leading, ...token.trailing]) {
+      if (trivia.kind === TokenKind.LineComment || trivia.kind === TokenKind.BlockComment) comments.push(trivia);
+    }
+  }
+  return comments;
+}
@@ -0,0 +1,248 @@
+import { Code, Diagnostic, DiagnosticDetails, Diagnostics, Severity, Span } from "./diagnostics.js";
+import { DefinitionKind, Resolution } from "./resolve.js";
+import { ASTKind, Expr, FieldDecl, FunctionDecl, isError, MessageDecl, Module, Stmt, visitExpr } from "./syntax.js";
+
+// `ctx` is an implicit record passed by value into every call. A function needs a field
+// from its caller when it reads it (or calls something that needs it) before setting it
+// itself; that is worked out to a fixpoint over the call graph, since calls can recurse.
+
+type Body = FunctionDecl | MessageDecl;
+
+export interface CtxField {
+  name: string;
+  // callers have to pass it, otherwise the signature's default is used
+  required: boolean;
+  // where the field is declared, for fields in a `ctx { ... }` signature
+  decl?: FieldDecl & { kind: ASTKind.FieldDecl };
+}
+
+export interface CtxInference {
+  // the fields each function takes from its callers, in a stable order
+  accepts: Map<Body, Map<string, CtxField>>;
+  // the fields passed along at each call to a function that accepts any
+  passes: Map<Expr, string[]>;
+  // bodies that touch `ctx` at all, and so need one of their own
+  uses: Set<Body>;
+  allDiags: Diagnostic[];
+}
+
+export function isCtx(expr: Expr, resolution: Resolution): boolean {
+  return expr.kind === ASTKind.Identifier && resolution.references.get(expr)?.kind === DefinitionKind.Ctx;
+}
+
+export class CtxInferrer {
+  public allDiags: Diagnostic[] = [];
+  protected accepts = new Map<Body, Map<string, CtxField>>();
+  protected passes = new Map<Expr, string[]>();
+  protected uses = new Set<Body>();
+
+  // per analysis of one body
+  protected decl!: Body;
+  protected bound = new Set<string>();
+  protected needed = new Map<string, Span>();
+  protected final = false;
+
+  constructor(
+    protected diag: Diagnostics,
+    protected module: Module,
+    protected resolution: Resolution,
+  ) {}
+
+  protected report(span: Span, message: string, details: DiagnosticDetails) {
+    this.allDiags.push(this.diag.createDiagnostic(span, message, Severity.Error, details));
+  }
+
+  public infer(): CtxInference {
+    const bodies = this.module.decls.filter(
+      (decl): decl is Body =>
+        decl.kind === ASTKind.FunctionDecl || decl.kind === ASTKind.QueryDecl || decl.kind === ASTKind.CommandDecl,
+    );
+
+    for (const decl of bodies) {
+      const fields = new Map<string, CtxField>();
+      if (decl.kind === ASTKind.FunctionDecl) {
+        for (const field of decl.ctx?.fields ?? []) {
+          if (isError(field) || isError(field.binding) || isError(field.binding.name)) continue;
+          const name = field.binding.name.name;
+          fields.set(name, { name, required: !field.init, decl: field });
+        }
+      }
+      this.accepts.set(decl, fields);
+    }
+
+    // requirements only grow, so this settles
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const decl of bodies) {
+        if (this.analyze(decl)) changed = true;
+      }
+    }
+
+    this.final = true;
+    for (const decl of bodies) {
+      this.analyze(decl);
+    }
+
+    return { accepts: this.accepts, passes: this.passes, uses: this.uses, allDiags: this.allDiags };
+  }
+
+  // returns whether the body needs more from its callers than was known
+  protected analyze(decl: Body): boolean {
+    if (isError(decl.body)) return false;
+    const accepts = this.accepts.get(decl)!;
+
+    this.decl = decl;
+    this.bound = new Set([...accepts.values()].filter(field => field.decl).map(field => field.name));
+    this.needed = new Map();
+    this.stmts(decl.body);
+
+    let changed = false;
+    for (const [name, span] of this.needed) {
+      if (decl.kind !== ASTKind.FunctionDecl) {
+        if (this.final) {
+          this.report(span, `\`ctx.${name}\` is never set here, and queries and commands start with an empty ctx`, {
+            code: Code.UnsetCtxField,
+            help: [`set \`ctx.${name}\` before reading it`],
+          });
+        }
+        continue;
+      }
+
+      if (decl.ctx && this.final && !accepts.get(name)?.decl) {
+        const fn = isError(decl.name) ? "this function" : `\`${decl.name.name}\``;
+        this.report(span, `\`ctx.${name}\` is never set here, and ${fn}'s ctx signature does not declare it`, {
+          code: Code.UnsetCtxField,
+          help: [`add \`${name}\` to the ctx signature, or set \`ctx.${name}\` before reading it`],
+        });
+      }
+      if (!accepts.has(name)) {
+        accepts.set(name, { name, required: true });
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  protected need(name: string, span: Span) {
+    this.uses.add(this.decl);
+    if (this.bound.has(name)) return;
+    if (!this.needed.has(name)) this.needed.set(name, span);
+    this.bound.add(name);
+  }
+
+  // --- statements ---
+
+  protected stmts(stmts: Stmt[]) {
+    for (const stmt of stmts) {
+      this.stmt(stmt);
+    }
+  }
+
+  // runs `f` and forgets whatever it set
+  protected scoped(f: () => void): Set<string> {
+    const saved = new Set(this.bound);
+    f();
+    const after = this.bound;
+    this.bound = saved;
+    return after;
+  }
+
+  protected stmt(stmt: Stmt) {
+    switch (stmt.kind) {
+      case ASTKind.Let:
+      case ASTKind.Const:
+        this.expr(stmt.init);
+        break;
+      case ASTKind.Return:
+        if (stmt.value) this.expr(stmt.value);
+        break;
+      case ASTKind.Throw:
+        this.expr(stmt.value);
+        break;
+      case ASTKind.ExprStmt:
+        this.expr(stmt.expr);
+        break;
+      case ASTKind.Block:
+        this.stmts(stmt.stmts);
+        break;
+      case ASTKind.If: {
+        this.expr(stmt.cond);
+        const then = this.scoped(() => this.stmt(stmt.then));
+        const otherwise = this.scoped(() => stmt.else && this.stmt(stmt.else));
+        // only what both branches set is set afterwards
+        this.bound = new Set([...then].filter(name => otherwise.has(name)));
+        break;
+      }
+      case ASTKind.While:
+        this.expr(stmt.cond);
+        this.scoped(() => this.stmt(stmt.body));
+        break;
+      case ASTKind.ForOf:
+        this.expr(stmt.iterable);
+        this.scoped(() => this.stmt(stmt.body));
+        break;
+      case ASTKind.Try:
+        if (!isError(stmt.body)) this.scoped(() => this.stmt(stmt.body as Stmt));
+        this.scoped(() => this.stmt(stmt.handler));
+        break;
+      case ASTKind.CtxBlock:
+        this.uses.add(this.decl);
+        for (const field of stmt.fields) {
+          if (!isError(field)) this.expr(field.value);
+        }
+        this.scoped(() => {
+          for (const field of stmt.fields) {
+            if (!isError(field) && !isError(field.name)) this.bound.add(field.name.name);
+          }
+          this.stmt(stmt.body);
+        });
+        break;
+    }
+  }
+
+  // --- expressions ---
+
+  protected expr(expr: Expr) {
+    visitExpr(expr, e => {
+      switch (e.kind) {
+        case ASTKind.MemberAccess:
+          if (!isCtx(e.object, this.resolution)) return;
+          this.need(e.member.name, e.span);
+          return false;
+
+        case ASTKind.Assign:
+          if (e.target.kind !== ASTKind.MemberAccess || !isCtx(e.target.object, this.resolution)) return;
+          this.expr(e.value);
+          this.uses.add(this.decl);
+          this.bound.add(e.target.member.name);
+          return false;
+
+        case ASTKind.Call:
+          this.call(e);
+          return false;
+      }
+    });
+  }
+
+  protected call(call: Expr & { kind: ASTKind.Call }) {
+    if (call.callee.kind !== ASTKind.Identifier) this.expr(call.callee);
+    call.args.forEach(arg => this.expr(arg));
+
+    const callee = (this.resolution.callees.get(call) ?? []).find(def => def.kind === DefinitionKind.Function);
+    const accepts = callee?.node ? this.accepts.get(callee.node as FunctionDecl) : undefined;
+    if (!accepts || accepts.size === 0) return;
+
+    for (const field of accepts.values()) {
+      if (field.required) this.need(field.name, call.span);
+    }
+    this.uses.add(this.decl);
+    if (this.final) {
+      this.passes.set(call, [...accepts.keys()].filter(name => this.bound.has(name)));
+    }
+  }
+}
+
+export function inferCtx(diag: Diagnostics, module: Module, resolution: Resolution): CtxInference {
+  return new CtxInferrer(diag, module, resolution).infer();
+}
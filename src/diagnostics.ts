@@ -15,19 +15,102 @@ export interface Range {
   end: { line: number; character: number };
 }
 
+// stable codes for what the compiler reports about sources, grouped by pass
+export enum Code {
+  // syntax
+  UnterminatedString = "E0001",
+  InvalidEscape = "E0002",
+  UnexpectedToken = "E0003",
+  ExpectedType = "E0004",
+  ExpectedExpression = "E0005",
+  ExpectedStatement = "E0006",
+  ExpectedDeclaration = "E0007",
+  InvalidAssignmentTarget = "E0008",
+  InvalidCtxField = "E0009",
+  CommandBorrow = "E0010",
+  // resolve
+  DuplicateDefinition = "E0101",
+  ShadowedConst = "E0102",
+  UnknownName = "E0103",
+  NotAnActor = "E0104",
+  NotAStruct = "E0105",
+  UnknownField = "E0106",
+  MisplacedKeyword = "E0107",
+  InvalidAssignment = "E0108",
+  // typecheck
+  TypeMismatch = "E0201",
+  ArgumentCount = "E0202",
+  ActorFieldAccess = "E0203",
+  TypeArgumentCount = "E0204",
+  MissingField = "E0205",
+  AmbiguousCall = "E0206",
+  UnknownMethod = "E0207",
+  // ctx and effects
+  UnsetCtxField = "E0301",
+  UncaughtThrow = "E0302",
+  ReturnWithoutCondition = "E0303",
+  // borrowck
+  UndeclaredBorrow = "E0401",
+  LeakedBorrow = "E0402",
+  UndeclaredReturnBorrow = "E0403",
+  CopiedUniqueHandle = "E0404",
+  UseAfterMove = "E0405",
+  BorrowOutlivesPlace = "E0406",
+  EscapingBorrow = "E0407",
+  MovedBorrow = "E0408",
+  MisplacedReset = "E0409",
+}
+
+// another place a diagnostic is about, with what happens there; named as in the LSP
+export interface DiagnosticRelatedInformation {
+  location: { uri: string; range: Range };
+  message: string;
+}
+
+// a change to the source that would fix a diagnostic, with edits named as in the LSP
+export interface Fix {
+  title: string;
+  edits: { range: Range; newText: string }[];
+}
+
 export interface Diagnostic {
   range: Range;
   severity: Severity;
   message: string;
   source: "the-ceiling";
+  code?: Code;
+  // shown under the range
+  label?: string;
+  relatedInformation?: DiagnosticRelatedInformation[];
+  notes?: string[];
+  help?: string[];
+  fixes?: Fix[];
+}
+
+// everything a diagnostic can carry besides its message, with places as spans in one file
+export interface DiagnosticDetails {
+  code?: Code;
+  label?: string;
+  labels?: { span: Span; message: string }[];
+  notes?: string[];
+  help?: string[];
+  fixes?: { title: string; edits: { span: Span; text: string }[] }[];
 }
 
 // color codes
 const red = "\x1b[31m";
+const yellow = "\x1b[33m";
 const blue = "\x1b[34m";
 const bold = "\x1b[1m";
 const reset = "\x1b[0m";
 
+const severityNames: Record<Severity, [string, string]> = {
+  [Severity.Error]: ["error", red],
+  [Severity.Warning]: ["warning", yellow],
+  [Severity.Information]: ["info", blue],
+  [Severity.Hint]: ["hint", blue],
+};
+
 export class LineCol {
   protected lineStarts = [0];
   constructor(protected src: string) {
@@ -58,10 +141,148 @@ export class LineCol {
     return { line: left, character: offset - this.lineStarts[left] };
   }
 
+  // the inverse of `lookup`, clamped to the line
+  public offsetAt(position: { line: number; character: number }): number {
+    if (position.line >= this.lineStarts.length) return this.src.length;
+    const start = this.lineStarts[position.line];
+    return start + Math.min(position.character, this.getLine(position.line).length);
+  }
+
   public getLine(i: number) {
     const nextLineStart = i >= this.lineStarts.length ? this.src.length : this.lineStarts[i + 1];
-    return this.src.slice(this.lineStarts[i], nextLineStart);
+    return this.src.slice(this.lineStarts[i], nextLineStart).replace(/\r?\n$/, "");
+  }
+}
+
+interface Annotation {
+  range: Range;
+  label?: string;
+  primary: boolean;
+}
+
+// a line of output, built up column by column with a color for each character
+class Row {
+  protected cells: { char: string; color: string }[] = [];
+
+  public put(col: number, text: string, color = ""): this {
+    while (this.cells.length < col) this.cells.push({ char: " ", color: "" });
+    [...text].forEach((char, i) => (this.cells[col + i] = { char, color }));
+    return this;
+  }
+
+  public toString(): string {
+    let output = "";
+    let current = "";
+    for (const { char, color } of this.cells) {
+      if (color !== current) output += (current ? reset : "") + color;
+      current = color;
+      output += char;
+    }
+    return output + (current ? reset : "");
+  }
+}
+
+// the annotated lines of one file: `^` under the primary range and `-` under the others,
+// each with its label. One range spanning several lines is drawn in a margin on the left;
+// any others are cut at the end of their first line.
+function renderSnippet(source: LineCol, annotations: Annotation[], width: number, primaryColor: string): string[] {
+  const colorOf = (a: Annotation) => (a.primary ? primaryColor : blue);
+  const markerOf = (a: Annotation) => (a.primary ? "^" : "-");
+  const lineEnd = (line: number) => ({ line, character: source.getLine(line).length });
+
+  // a range ending at the very start of a line really ends on the line before
+  const normalized = annotations.map(a => {
+    const { start, end } = a.range;
+    return end.line > start.line && end.character === 0 ? { ...a, range: { start, end: lineEnd(end.line - 1) } } : a;
+  });
+  const multi = normalized.find(a => a.range.end.line > a.range.start.line);
+  const singles = normalized
+    .filter(a => a !== multi)
+    .map(a => (a.range.end.line > a.range.start.line ? { ...a, range: { start: a.range.start, end: lineEnd(a.range.start.line) } } : a));
+
+  const shown = new Set(singles.map(a => a.range.start.line));
+  if (multi) {
+    const { start, end } = multi.range;
+    for (let line = start.line; line <= end.line; line++) {
+      if (line - start.line < 2 || end.line - line < 2) shown.add(line);
+    }
+  }
+  // skipping a single line saves nothing
+  const lines: number[] = [];
+  for (const line of [...shown].sort((a, b) => a - b)) {
+    const previous = lines[lines.length - 1];
+    if (previous !== undefined && line - previous === 2) lines.push(previous + 1);
+    lines.push(line);
   }
+
+  const margin = multi ? 2 : 0;
+  const first = multi?.range.start;
+  const last = multi?.range.end;
+  // a range starting at the indentation is drawn from the margin, otherwise from its column
+  const slash = first !== undefined && first.character <= source.getLine(first.line).search(/\S|$/);
+  const insideAfter = (line: number) => first !== undefined && last !== undefined && line >= first.line && line < last.line;
+
+  const rows: string[] = [];
+  const gutter = (line?: number) => `${blue}${line === undefined ? " ".repeat(width) : String(line + 1).padStart(width)} |${reset}`;
+  const push = (row: Row, line?: number) => {
+    const content = row.toString();
+    rows.push(content ? `${gutter(line)} ${content}` : gutter(line));
+  };
+  const annotationRow = (line: number) => new Row().put(0, insideAfter(line) ? "|" : "", multi && colorOf(multi));
+
+  let previous: number | undefined;
+  for (const line of lines) {
+    if (previous !== undefined && line - previous > 1) rows.push(`${blue}...${reset}`);
+    previous = line;
+
+    const row = new Row().put(margin, source.getLine(line));
+    if (multi && first && last) {
+      if (line === first.line && slash) row.put(0, "/", colorOf(multi));
+      if (line > first.line && line <= last.line) row.put(0, "|", colorOf(multi));
+    }
+    push(row, line);
+
+    if (multi && first && line === first.line && !slash) {
+      push(new Row().put(1, "_".repeat(first.character + 1), colorOf(multi)).put(margin + first.character, markerOf(multi), colorOf(multi)));
+    }
+
+    const here = singles.filter(a => a.range.start.line === line).sort((a, b) => a.range.start.character - b.range.start.character);
+    if (here.length > 0) {
+      const markers = annotationRow(line);
+      for (const a of here) {
+        const length = Math.max(1, a.range.end.character - a.range.start.character);
+        markers.put(margin + a.range.start.character, markerOf(a).repeat(length), colorOf(a));
+      }
+      const rightmost = here[here.length - 1];
+      if (rightmost.label) {
+        const end = Math.max(rightmost.range.end.character, rightmost.range.start.character + 1);
+        markers.put(margin + end + 1, rightmost.label, colorOf(rightmost));
+      }
+      push(markers);
+
+      // the other labels hang below their ranges, rightmost first
+      const hanging = here.slice(0, -1).filter(a => a.label);
+      if (hanging.length > 0) {
+        const connectors = annotationRow(line);
+        for (const a of hanging) connectors.put(margin + a.range.start.character, "|", colorOf(a));
+        push(connectors);
+      }
+      for (let i = hanging.length - 1; i >= 0; i--) {
+        const labels = annotationRow(line);
+        for (const a of hanging.slice(0, i)) labels.put(margin + a.range.start.character, "|", colorOf(a));
+        labels.put(margin + hanging[i].range.start.character, hanging[i].label!, colorOf(hanging[i]));
+        push(labels);
+      }
+    }
+
+    if (multi && last && line === last.line) {
+      const end = Math.max(1, last.character);
+      const closing = new Row().put(0, "|" + "_".repeat(end), colorOf(multi)).put(margin + end - 1, markerOf(multi), colorOf(multi));
+      if (multi.label) closing.put(margin + end + 1, multi.label, colorOf(multi));
+      push(closing);
+    }
+  }
+  return rows;
 }
 
 export class Diagnostics extends LineCol {
@@ -80,44 +301,95 @@ export class Diagnostics extends LineCol {
     };
   }
 
-  public formatDiagnostic(diag: Diagnostic): string {
-    const { line, character: col } = diag.range.start;
-    const errorLine = this.getLine(line);
-
-    // figure out how many digits we need for line numbers
-    const lineNumWidth = (line + 2).toString().length;
-    const pad = " ".repeat(lineNumWidth);
+  public createDiagnostic(span: Span, message: string, severity = Severity.Error, details: DiagnosticDetails = {}): Diagnostic {
+    const { code, label, labels, notes, help, fixes } = details;
+    return {
+      range: this.getRange(span),
+      severity,
+      message,
+      source: "the-ceiling",
+      ...(code ? { code } : {}),
+      ...(label ? { label } : {}),
+      ...(labels?.length
+        ? { relatedInformation: labels.map(l => ({ location: { uri: this.uri, range: this.getRange(l.span) }, message: l.message })) }
+        : {}),
+      ...(notes?.length ? { notes } : {}),
+      ...(help?.length ? { help } : {}),
+      ...(fixes?.length
+        ? {
+            fixes: fixes.map(fix => ({
+              title: fix.title,
+              edits: fix.edits.map(edit => ({ range: this.getRange(edit.span), newText: edit.text })),
+            })),
+          }
+        : {}),
+    };
+  }
 
-    let output = "";
+  // rustc-style, with the related places of other files read through `files`
+  public formatDiagnostic(diag: Diagnostic, color = true, files: (uri: string) => LineCol | undefined = () => undefined): string {
+    const output = this.formatColored(diag, files);
+    return color ? output : output.replace(/\x1b\[\d+m/g, "");
+  }
 
-    // error header with location
-    output += `${bold}${red}error${reset}${bold}: ${diag.message}${reset}\n`;
-    output += `${blue}${pad}--> ${this.uri}:${line + 1}:${col + 1}${reset}\n`;
-    output += `${blue}${pad} |${reset}\n`;
+  protected formatColored(diag: Diagnostic, files: (uri: string) => LineCol | undefined): string {
+    const [severity, severityColor] = severityNames[diag.severity];
 
-    // show previous line for context if available
-    if (line > 0) {
-      output += `${blue}${line.toString().padStart(lineNumWidth)} |${reset} ${this.getLine(line - 1)}\n`;
+    // the primary range's file comes first, then any others in order of appearance
+    const byFile = new Map<string, Annotation[]>([[this.uri, [{ range: diag.range, label: diag.label, primary: true }]]]);
+    for (const { location, message } of diag.relatedInformation ?? []) {
+      const annotations = byFile.get(location.uri) ?? [];
+      annotations.push({ range: location.range, label: message, primary: false });
+      byFile.set(location.uri, annotations);
     }
 
-    // show error line
-    output += `${blue}${(line + 1).toString().padStart(lineNumWidth)} |${reset} ${errorLine}\n`;
+    const lastLine = Math.max(...[...byFile.values()].flat().map(a => a.range.end.line));
+    const pad = " ".repeat((lastLine + 1).toString().length);
+    const empty = `${blue}${pad} |${reset}`;
+    const location = ({ line, character }: Range["start"]) => `${line + 1}:${character + 1}`;
 
-    // show squiggly underline
-    const indent = col;
-    const underlineLength =
-      diag.range.start.line === diag.range.end.line
-        ? Math.max(1, diag.range.end.character - diag.range.start.character)
-        : errorLine.length - col; // for multi-line errors, underline to end of first line
-    output += `${blue}${pad} |${reset} ${" ".repeat(indent)}${red}${"^".repeat(underlineLength)}${reset}\n`;
+    let output = `${bold}${severityColor}${severity}${diag.code ? `[${diag.code}]` : ""}${reset}${bold}: ${diag.message}${reset}\n`;
+    output += `${blue}${pad}--> ${this.uri}:${location(diag.range.start)}${reset}\n`;
 
-    // show next line for context if available
-    if (line + 1 < this.lineStarts.length) {
-      output += `${blue}${(line + 2).toString().padStart(lineNumWidth)} |${reset} ${this.getLine(line + 1)}\n`;
+    for (const [uri, annotations] of byFile) {
+      const source = uri === this.uri ? this : files(uri);
+      if (uri !== this.uri) {
+        if (!source) {
+          for (const a of annotations) output += `${blue}${pad}::: ${uri}:${location(a.range.start)}${reset}: ${a.label}\n`;
+          continue;
+        }
+        output += `${blue}${pad}::: ${uri}:${location(annotations[0].range.start)}${reset}\n`;
+      }
+      output += `${empty}\n`;
+      for (const row of renderSnippet(source!, annotations, pad.length, severityColor)) output += `${row}\n`;
     }
+    output += `${empty}\n`;
 
-    output += `${blue}${pad} |${reset}\n`;
-
+    for (const note of diag.notes ?? []) output += `${blue}${pad} =${reset} ${bold}note${reset}: ${note}\n`;
+    for (const help of diag.help ?? []) output += `${blue}${pad} =${reset} ${bold}help${reset}: ${help}\n`;
+    for (const fix of diag.fixes ?? []) output += `${blue}${pad} =${reset} ${bold}fix${reset}: ${fix.title}\n`;
     return output;
   }
+
+  // the source with the first fix of each diagnostic applied, except those touching an earlier one's edits
+  public applyFixes(diags: Diagnostic[]): { text: string; applied: number } {
+    const taken: (Span & { text: string })[] = [];
+    let applied = 0;
+    for (const diag of diags) {
+      const fix = diag.fixes?.[0];
+      if (!fix) continue;
+      const edits = fix.edits.map(edit => ({ start: this.offsetAt(edit.range.start), end: this.offsetAt(edit.range.end), text: edit.newText }));
+      // two insertions at one place would go in either order
+      const overlaps = edits.some(edit => taken.some(t => (edit.start < t.end && t.start < edit.end) || edit.start === t.start));
+      if (overlaps) continue;
+      taken.push(...edits);
+      applied++;
+    }
+
+    let text = this.src;
+    for (const edit of taken.sort((a, b) => b.start - a.start)) {
+      text = text.slice(0, edit.start) + edit.text + text.slice(edit.end);
+    }
+    return { text, applied };
+  }
 }
@@ -0,0 +1,155 @@
+import { Diagnostic, Diagnostics, Range, Span } from "./diagnostics.js";
+import { ASTKind, Decl, IslandScanner, ParsedModule, parseRange } from "./syntax.js";
+
+// A source file kept parsed across edits, for editors. Files are parsed island by island
+// (see `IslandScanner`), so an edit only re-lexes and re-parses the islands around it;
+// the rest keep their trees and diagnostics, shifted to wherever the edit moved them.
+// Trees are shifted in place, so a module from before an edit is stale after it.
+
+// replaces `[start, end)` of the current text
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface Piece {
+  // an island, or the gap before one, or the gap at the end of the file
+  span: Span;
+  island: boolean;
+  decl: Decl | null;
+  // where each diagnostic and the edits of its fixes point, so they can be moved with the tree
+  diags: { diag: Diagnostic; span: Span; edits: Span[] }[];
+}
+
+interface Untouched {
+  piece: Piece;
+  afterEdit: boolean;
+}
+
+// every span in a tree, once each, since tokens double as spans and are shared
+function shiftSpans(node: unknown, delta: number, seen = new Set<object>()) {
+  if (typeof node !== "object" || node === null || seen.has(node)) return;
+  seen.add(node);
+
+  const span = node as Partial<Span>;
+  if (typeof span.start === "number" && typeof span.end === "number") {
+    span.start += delta;
+    span.end += delta;
+  }
+  for (const value of Object.values(node)) shiftSpans(value, delta, seen);
+}
+
+export class SourceDocument {
+  protected diagnostics: Diagnostics;
+  protected pieces: Piece[];
+  // what the last edit re-parsed
+  public reparsed: Span[] = [];
+
+  constructor(protected uri: string, protected text: string) {
+    this.diagnostics = new Diagnostics(uri, text);
+    this.pieces = this.scan(0, []).pieces;
+  }
+
+  public getText(): string {
+    return this.text;
+  }
+
+  public getDiagnostics(): Diagnostics {
+    return this.diagnostics;
+  }
+
+  public parse(): ParsedModule {
+    return {
+      module: {
+        kind: ASTKind.Module,
+        decls: this.pieces.flatMap(piece => (piece.decl ? [piece.decl] : [])),
+        span: { start: 0, end: this.text.length },
+      },
+      diagnostics: this.diagnostics,
+      allDiags: this.pieces.flatMap(piece => piece.diags.map(({ diag }) => diag)),
+    };
+  }
+
+  public edit({ start, end, text }: TextEdit): ParsedModule {
+    const delta = text.length - (end - start);
+    this.text = this.text.slice(0, start) + text + this.text.slice(end);
+    this.diagnostics = new Diagnostics(this.uri, this.text);
+    this.reparsed = [];
+
+    // pieces alternate gap, island, gap, ..., gap. The last island ending before the edit
+    // may still change, since a malformed island runs until the next one starts
+    const firstTouched = this.pieces.findIndex(piece => piece.island && piece.span.end >= start);
+    const touched = firstTouched < 0 ? this.pieces.length - 1 : firstTouched;
+    const from = Math.max(0, touched - 3);
+
+    // islands that don't overlap the edit, by where they are now
+    const untouched = new Map<string, Untouched>();
+    for (const piece of this.pieces.slice(from)) {
+      if (!piece.island) continue;
+      if (piece.span.end <= start) {
+        untouched.set(`${piece.span.start}:${piece.span.end}`, { piece, afterEdit: false });
+      } else if (piece.span.start >= end) {
+        untouched.set(`${piece.span.start + delta}:${piece.span.end + delta}`, { piece, afterEdit: true });
+      }
+    }
+
+    const { pieces, resumeAt } = this.scan(this.pieces[from].span.start, this.pieces.slice(0, from), untouched);
+    if (resumeAt) {
+      // the scanner caught up with an island after the edit, and everything from there on
+      // would be scanned and parsed the same as before
+      const rest = this.pieces.slice(this.pieces.indexOf(resumeAt));
+      for (const piece of rest) this.shift(piece, delta);
+      pieces.push(...rest);
+    }
+    this.pieces = pieces;
+    return this.parse();
+  }
+
+  // parses from `offset` to the end, unless an island is found in `untouched` after the edit
+  protected scan(
+    offset: number,
+    pieces: Piece[],
+    untouched = new Map<string, Untouched>(),
+  ): { pieces: Piece[]; resumeAt?: Piece } {
+    let p = offset;
+    for (const island of new IslandScanner(this.text, offset).scanIslands()) {
+      const old = untouched.get(`${island.start}:${island.end}`);
+      pieces.push(this.parsePiece(p, island.start, false));
+      if (old?.afterEdit) return { pieces, resumeAt: old.piece };
+
+      pieces.push(old?.piece ?? this.parsePiece(island.start, island.end, true));
+      p = island.end;
+    }
+    pieces.push(this.parsePiece(p, this.text.length, false));
+    return { pieces };
+  }
+
+  protected parsePiece(start: number, end: number, island: boolean): Piece {
+    const span = { start, end };
+    const parsed = parseRange(this.diagnostics, start, end, !island);
+    if (!parsed) return { span, island, decl: null, diags: [] };
+
+    this.reparsed.push(span);
+    const toSpan = (range: Range) => ({ start: this.diagnostics.offsetAt(range.start), end: this.diagnostics.offsetAt(range.end) });
+    const diags = parsed.allDiags.map(diag => ({
+      diag,
+      span: toSpan(diag.range),
+      edits: (diag.fixes ?? []).flatMap(fix => fix.edits.map(edit => toSpan(edit.range))),
+    }));
+    return { span, island, decl: parsed.decl, diags };
+  }
+
+  protected shift(piece: Piece, delta: number) {
+    piece.span = { start: piece.span.start + delta, end: piece.span.end + delta };
+    if (delta !== 0) shiftSpans(piece.decl, delta);
+
+    // lines may have moved even when offsets didn't
+    for (const entry of piece.diags) {
+      entry.span = { start: entry.span.start + delta, end: entry.span.end + delta };
+      entry.diag.range = this.diagnostics.getRange(entry.span);
+      entry.edits = entry.edits.map(span => ({ start: span.start + delta, end: span.end + delta }));
+      (entry.diag.fixes ?? []).flatMap(fix => fix.edits).forEach((edit, i) => (edit.range = this.diagnostics.getRange(entry.edits[i])));
+    }
+  }
+}
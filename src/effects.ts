@@ -0,0 +1,243 @@
+import { Code, Diagnostic, DiagnosticDetails, Diagnostics, Severity, Span } from "./diagnostics.js";
+import { Definition, DefinitionKind, Resolution } from "./resolve.js";
+import { ASTKind, Expr, FunctionDecl, isError, MessageDecl, Module, Stmt, visitExpr } from "./syntax.js";
+import { concreteType, showType, SimpleType, TypeKind } from "./typecheck.js";
+
+// Effects here are unresumable: they leave the code that performs them for the nearest
+// enclosing handler. `throw` is handled by a `try`, or escapes into the signature, and
+// `return ?` by the `if` whose condition it returns. A function without a `throws`
+// clause throws whatever escapes its body, worked out to a fixpoint since calls can
+// recurse; queries, commands and functions with a clause have to declare it instead.
+
+type Body = FunctionDecl | MessageDecl;
+
+type Handler = ASTKind.Try | ASTKind.If;
+
+export interface Effects {
+  // the errors each function, query and command may throw, by type name
+  throws: Map<Body, Set<string>>;
+  allDiags: Diagnostic[];
+}
+
+export class EffectChecker {
+  public allDiags: Diagnostic[] = [];
+  protected throws = new Map<Body, Set<string>>();
+  protected declared = new Set<Body>();
+
+  // per analysis of one body
+  protected handlers: Handler[] = [];
+  protected catching: Set<string>[] = []; // what each enclosing `try` body throws
+  protected caught = new Map<Definition, Set<string>>(); // by catch parameter
+  protected escaping = new Set<string>();
+  protected decl!: Body;
+  protected final = false;
+
+  constructor(
+    protected diag: Diagnostics,
+    protected module: Module,
+    protected resolution: Resolution,
+    protected types: Map<object, SimpleType>,
+  ) {}
+
+  protected report(span: Span, message: string, details: DiagnosticDetails) {
+    this.allDiags.push(this.diag.createDiagnostic(span, message, Severity.Error, details));
+  }
+
+  public check(): Effects {
+    const bodies = this.module.decls.filter(
+      (decl): decl is Body =>
+        decl.kind === ASTKind.FunctionDecl || decl.kind === ASTKind.QueryDecl || decl.kind === ASTKind.CommandDecl,
+    );
+
+    for (const decl of bodies) {
+      const declared = decl.throws ? this.types.get(decl.throws) : undefined;
+      this.throws.set(decl, new Set(declared ? errorNames(declared) : []));
+      // a handler without a clause throws nothing, its caller is on another thread
+      if (decl.throws || decl.kind !== ASTKind.FunctionDecl) this.declared.add(decl);
+    }
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const decl of bodies) {
+        if (this.analyze(decl)) changed = true;
+      }
+    }
+
+    this.final = true;
+    for (const decl of bodies) {
+      this.analyze(decl);
+    }
+
+    return { throws: this.throws, allDiags: this.allDiags };
+  }
+
+  // returns whether the body throws more than was known
+  protected analyze(decl: Body): boolean {
+    if (isError(decl.body)) return false;
+    this.decl = decl;
+    this.handlers = [];
+    this.catching = [];
+    this.caught = new Map();
+    this.escaping = new Set();
+    this.stmts(decl.body);
+
+    if (this.declared.has(decl)) return false;
+    const throws = this.throws.get(decl)!;
+    const size = throws.size;
+    this.escaping.forEach(name => throws.add(name));
+    return throws.size !== size;
+  }
+
+  protected handled(handler: Handler): boolean {
+    return this.handlers.includes(handler);
+  }
+
+  protected withHandler(handler: Handler, f: () => void) {
+    this.handlers.push(handler);
+    f();
+    this.handlers.pop();
+  }
+
+  // `what` describes where the errors come from, for the diagnostic
+  protected raise(names: Iterable<string>, span: Span, what: (name: string) => string) {
+    if (this.handled(ASTKind.Try)) {
+      const catching = this.catching[this.catching.length - 1];
+      for (const name of names) catching.add(name);
+      return;
+    }
+    const throws = this.throws.get(this.decl)!;
+    for (const name of names) {
+      if (this.declared.has(this.decl) && !throws.has(name)) {
+        if (this.final) {
+          this.report(span, `${what(name)}, which is neither caught nor declared`, {
+            code: Code.UncaughtThrow,
+            help: [`catch it with \`try\`, or add \`${name}\` to the \`throws\` clause`],
+          });
+        }
+        continue;
+      }
+      this.escaping.add(name);
+    }
+  }
+
+  // --- statements ---
+
+  protected stmts(stmts: Stmt[]) {
+    for (const stmt of stmts) {
+      this.stmt(stmt);
+    }
+  }
+
+  protected stmt(stmt: Stmt) {
+    switch (stmt.kind) {
+      case ASTKind.Let:
+      case ASTKind.Const:
+        this.expr(stmt.init);
+        break;
+      case ASTKind.Return:
+        if (stmt.value) this.expr(stmt.value);
+        if (stmt.condition && !this.handled(ASTKind.If) && this.final) {
+          this.report(stmt.span, "`return ?` returns the condition of the enclosing `if`, but there is none", {
+            code: Code.ReturnWithoutCondition,
+          });
+        }
+        break;
+      case ASTKind.Throw: {
+        this.expr(stmt.value);
+        this.raise(this.thrown(stmt.value), stmt.span, name => `\`${name}\` is thrown here`);
+        break;
+      }
+      case ASTKind.ExprStmt:
+        this.expr(stmt.expr);
+        break;
+      case ASTKind.Block:
+        this.stmts(stmt.stmts);
+        break;
+      case ASTKind.If:
+        this.expr(stmt.cond);
+        this.withHandler(ASTKind.If, () => {
+          this.stmt(stmt.then);
+          if (stmt.else) this.stmt(stmt.else);
+        });
+        break;
+      case ASTKind.While:
+        this.expr(stmt.cond);
+        this.stmt(stmt.body);
+        break;
+      case ASTKind.ForOf:
+        this.expr(stmt.iterable);
+        this.stmt(stmt.body);
+        break;
+      case ASTKind.Try: {
+        const catching = new Set<string>();
+        if (!isError(stmt.body)) {
+          const body = stmt.body;
+          this.catching.push(catching);
+          this.withHandler(ASTKind.Try, () => this.stmt(body));
+          this.catching.pop();
+        }
+        const binding = stmt.binding && !isError(stmt.binding) && !isError(stmt.binding.name) ? stmt.binding.name : undefined;
+        const def = binding && this.resolution.references.get(binding);
+        if (def) this.caught.set(def, catching);
+        this.stmt(stmt.handler);
+        break;
+      }
+      case ASTKind.CtxBlock:
+        for (const field of stmt.fields) {
+          if (!isError(field)) this.expr(field.value);
+        }
+        this.stmt(stmt.body);
+        break;
+    }
+  }
+
+  // a rethrown catch parameter throws whatever its `try` body could
+  protected thrown(value: Expr): string[] {
+    const def = value.kind === ASTKind.Identifier ? this.resolution.references.get(value) : undefined;
+    const caught = def && this.caught.get(def);
+    if (caught) return [...caught];
+    const type = this.types.get(value);
+    return type ? errorNames(type) : ["any"];
+  }
+
+  // --- expressions ---
+
+  protected expr(expr: Expr) {
+    visitExpr(expr, e => {
+      if (e.kind !== ASTKind.Call) return;
+      const callee = this.callee(e);
+      const throws = callee?.node ? this.throws.get(callee.node as Body) : undefined;
+      if (throws && throws.size > 0) {
+        this.raise(throws, e.span, name => `\`${callee!.name}\` may throw \`${name}\``);
+      }
+    });
+  }
+
+  // the function or handler a call ends up in, picking handlers by the receiver's actor
+  protected callee(call: Expr & { kind: ASTKind.Call }): Definition | undefined {
+    const candidates = this.resolution.callees.get(call) ?? [];
+    if (candidates.length <= 1) return candidates[0];
+
+    const receiver = call.args.length > 0 ? this.types.get(call.args[0]) : undefined;
+    const handle = receiver && concreteType(receiver);
+    const actor = handle?.kind === TypeKind.Handle ? handle.actor : undefined;
+    return candidates.find(c => c.owner?.name === actor) ?? candidates.find(c => c.kind === DefinitionKind.Function);
+  }
+}
+
+// the names of the types a thrown value may have, one per union member
+function errorNames(type: SimpleType): string[] {
+  const concrete = concreteType(type) ?? type;
+  if (concrete.kind === TypeKind.Union) return concrete.types.flatMap(errorNames);
+  return [showType(concrete)];
+}
+
+export function checkEffects(
+  diag: Diagnostics,
+  module: Module,
+  resolution: Resolution,
+  types: Map<object, SimpleType>,
+): Effects {
+  return new EffectChecker(diag, module, resolution, types).check();
+}
@@ -0,0 +1,627 @@
+import { BorrowCheck } from "./borrowck.js";
+import { Span } from "./diagnostics.js";
+import { Definition, DefinitionKind, Resolution } from "./resolve.js";
+import {
+  ASTKind,
+  Binding,
+  Block,
+  Expr,
+  FunctionDecl,
+  Identifier,
+  isError,
+  MessageDecl,
+  Module,
+  Stmt,
+  visitExpr,
+} from "./syntax.js";
+
+// Owned handles are dropped as soon as neither they nor anything borrowing from them can
+// be used again. A backward liveness pass over each function's control flow graph finds
+// where that happens, and a forward pass tracks which handles are still owned there, so
+// moved or explicitly dropped handles aren't dropped twice.
+//
+// A throw drops whatever is still owned where it happens. A `catch` drops what any point
+// of its `try` body may have owned there, since dropping a handle twice does nothing, and
+// anything that can be thrown past where a handle is declared is wrapped so the handle is
+// dropped before the throw carries on. Handles moved somewhere along the way are left
+// alone on those paths, as whatever they were moved into may still own them.
+
+export enum NodeKind {
+  Entry,
+  Exit,
+  Stmt, // a simple statement
+  Branch, // the condition of an `if` or loop
+  Region, // the start of a branch, loop exit or `try` part, where edge drops go
+}
+
+export type RegionRole = "then" | "else" | "body" | "exit" | "try" | "handler";
+
+export interface CFGNode {
+  id: number;
+  kind: NodeKind;
+  stmt?: Stmt; // the statement evaluated here, or the one a region belongs to
+  role?: RegionRole;
+  exprs: Expr[];
+  bindings: Binding[];
+  succs: CFGNode[];
+  preds: CFGNode[];
+  handlers: CFGNode[]; // where a throw goes
+}
+
+// the nodes a statement was built into, as a range of ids
+export interface Extent {
+  from: number;
+  to: number;
+}
+
+export interface CFG {
+  entry: CFGNode;
+  exit: CFGNode;
+  nodes: CFGNode[];
+  extents: Map<Stmt, Extent>;
+}
+
+type Body = FunctionDecl | MessageDecl;
+
+class CFGBuilder {
+  public nodes: CFGNode[] = [];
+  public extents = new Map<Stmt, Extent>();
+  protected handlers: CFGNode[] = [];
+
+  public node(kind: NodeKind, stmt?: Stmt, exprs: Expr[] = [], bindings: Binding[] = [], role?: RegionRole): CFGNode {
+    const handlers = this.handlers.length > 0 ? [this.handlers[this.handlers.length - 1]] : [];
+    const node: CFGNode = { id: this.nodes.length, kind, stmt, role, exprs, bindings, succs: [], preds: [], handlers };
+    this.nodes.push(node);
+    return node;
+  }
+
+  public link(from: CFGNode[], to: CFGNode) {
+    for (const pred of from) {
+      pred.succs.push(to);
+      to.preds.push(pred);
+    }
+  }
+
+  public build(decl: Body): CFG {
+    const entry = this.node(NodeKind.Entry, undefined, [], decl.params);
+    const exit = this.node(NodeKind.Exit);
+    const end = isError(decl.body) ? [entry] : this.stmts(decl.body, [entry], exit);
+    this.link(end, exit);
+    return { entry, exit, nodes: this.nodes, extents: this.extents };
+  }
+
+  // returns the nodes that fall through to whatever comes next
+  protected stmts(stmts: Stmt[], preds: CFGNode[], exit: CFGNode): CFGNode[] {
+    for (const stmt of stmts) {
+      preds = this.stmt(stmt, preds, exit);
+    }
+    return preds;
+  }
+
+  protected stmt(stmt: Stmt, preds: CFGNode[], exit: CFGNode): CFGNode[] {
+    const from = this.nodes.length;
+    const after = this.flow(stmt, preds, exit);
+    this.extents.set(stmt, { from, to: this.nodes.length });
+    return after;
+  }
+
+  protected flow(stmt: Stmt, preds: CFGNode[], exit: CFGNode): CFGNode[] {
+    switch (stmt.kind) {
+      case ASTKind.Let:
+      case ASTKind.Const: {
+        const node = this.node(NodeKind.Stmt, stmt, [stmt.init], [stmt.binding]);
+        this.link(preds, node);
+        return [node];
+      }
+
+      case ASTKind.ExprStmt:
+      case ASTKind.Drop: {
+        const node = this.node(NodeKind.Stmt, stmt, stmt.kind === ASTKind.ExprStmt ? [stmt.expr] : [stmt.target]);
+        this.link(preds, node);
+        return [node];
+      }
+
+      case ASTKind.Return: {
+        const node = this.node(NodeKind.Stmt, stmt, stmt.value ? [stmt.value] : []);
+        this.link(preds, node);
+        this.link([node], exit);
+        return [];
+      }
+
+      case ASTKind.Throw: {
+        // a throw inside a try only reaches its handler
+        const node = this.node(NodeKind.Stmt, stmt, [stmt.value]);
+        this.link(preds, node);
+        if (node.handlers.length === 0) this.link([node], exit);
+        return [];
+      }
+
+      case ASTKind.Block:
+        return this.stmts(stmt.stmts, preds, exit);
+
+      case ASTKind.CtxBlock: {
+        const values = stmt.fields.flatMap(init => (isError(init) ? [] : [init.value]));
+        const node = this.node(NodeKind.Stmt, stmt, values);
+        this.link(preds, node);
+        return this.stmt(stmt.body, [node], exit);
+      }
+
+      case ASTKind.If: {
+        const cond = this.node(NodeKind.Branch, stmt, [stmt.cond]);
+        this.link(preds, cond);
+
+        const then = this.node(NodeKind.Region, stmt, [], [], "then");
+        this.link([cond], then);
+        const afterThen = this.stmt(stmt.then, [then], exit);
+
+        const otherwise = this.node(NodeKind.Region, stmt, [], [], "else");
+        this.link([cond], otherwise);
+        const afterElse = stmt.else ? this.stmt(stmt.else, [otherwise], exit) : [otherwise];
+
+        return [...afterThen, ...afterElse];
+      }
+
+      case ASTKind.While:
+      case ASTKind.ForOf: {
+        const head =
+          stmt.kind === ASTKind.While
+            ? this.node(NodeKind.Branch, stmt, [stmt.cond])
+            : this.node(NodeKind.Branch, stmt, [stmt.iterable], [stmt.binding]);
+        this.link(preds, head);
+
+        const body = this.node(NodeKind.Region, stmt, [], [], "body");
+        this.link([head], body);
+        this.link(this.stmt(stmt.body, [body], exit), head);
+
+        const after = this.node(NodeKind.Region, stmt, [], [], "exit");
+        this.link([head], after);
+        return [after];
+      }
+
+      case ASTKind.Try: {
+        const handler = this.node(NodeKind.Region, stmt, [], stmt.binding ? [stmt.binding] : [], "handler");
+
+        this.handlers.push(handler);
+        const start = this.node(NodeKind.Region, stmt, [], [], "try");
+        this.link(preds, start);
+        const afterBody = isError(stmt.body) ? [start] : this.stmt(stmt.body, [start], exit);
+        this.handlers.pop();
+
+        const afterHandler = this.stmts(stmt.handler.stmts, [handler], exit);
+        return [...afterBody, ...afterHandler];
+      }
+    }
+
+    return preds;
+  }
+}
+
+export function buildCFG(decl: Body): CFG {
+  return new CFGBuilder().build(decl);
+}
+
+function difference<T>(a: Set<T>, b: Set<T>): Set<T> {
+  return new Set([...a].filter(x => !b.has(x)));
+}
+
+function intersection<T>(a: Set<T>, b: Set<T>): Set<T> {
+  return new Set([...a].filter(x => b.has(x)));
+}
+
+function sameSet<T>(a: Set<T>, b: Set<T>): boolean {
+  return a.size === b.size && [...a].every(x => b.has(x));
+}
+
+interface NodeFacts {
+  uses: Set<Definition>; // including everything the used variables borrow from
+  defs: Set<Definition>;
+  gens: Set<Definition>; // defs that store an owned handle
+  kills: Set<Definition>; // moved or explicitly dropped
+}
+
+export class DropInserter {
+  protected cfg!: CFG;
+  protected facts: NodeFacts[] = [];
+  protected liveIn: Set<Definition>[] = [];
+  protected ownedOut: Set<Definition>[] = [];
+
+  // drops after a node, or at the start of a region
+  protected drops = new Map<CFGNode, Definition[]>();
+  protected nodeOf = new Map<Stmt, CFGNode>();
+  protected regionOf = new Map<Stmt, Map<RegionRole, CFGNode>>();
+
+  constructor(
+    protected resolution: Resolution,
+    protected borrowCheck: BorrowCheck,
+  ) {}
+
+  protected bindingDefinition(binding: Binding): Definition | undefined {
+    if (isError(binding) || isError(binding.name)) return undefined;
+    return this.resolution.references.get(binding.name);
+  }
+
+  // a variable along with everything it borrows from
+  protected closure(def: Definition, into = new Set<Definition>()): Set<Definition> {
+    if (into.has(def)) return into;
+    into.add(def);
+    for (const dep of this.borrowCheck.dependencies.get(def) ?? []) {
+      this.closure(dep, into);
+    }
+    return into;
+  }
+
+  protected nodeFacts(node: CFGNode): NodeFacts {
+    const facts: NodeFacts = { uses: new Set(), defs: new Set(), gens: new Set(), kills: new Set() };
+
+    for (const binding of node.bindings) {
+      const def = this.bindingDefinition(binding);
+      if (!def) continue;
+      facts.defs.add(def);
+      if (this.borrowCheck.owningStores.has(binding)) facts.gens.add(def);
+    }
+
+    if (node.stmt?.kind === ASTKind.Drop) {
+      const def = this.resolution.references.get(node.stmt.target);
+      if (def) facts.kills.add(def);
+    }
+
+    const use = (ident: Identifier) => {
+      const def = this.resolution.references.get(ident);
+      if (!def) return;
+      this.closure(def, facts.uses);
+      if (this.borrowCheck.moves.has(ident)) facts.kills.add(def);
+    };
+
+    for (const expr of node.exprs) {
+      visitExpr(expr, e => {
+        switch (e.kind) {
+          case ASTKind.Identifier:
+            use(e);
+            break;
+
+          case ASTKind.Assign: {
+            // `x = x.reset { ... }` keeps the same handle, so it only uses `x`
+            if (e.target.kind !== ASTKind.Identifier || e.value.kind === ASTKind.ResetLiteral) break;
+            const def = this.resolution.references.get(e.target);
+            if (!def) break;
+            // the target is written, not read
+            visitExpr(e.value, inner => (inner.kind === ASTKind.Identifier ? use(inner) : undefined));
+            facts.defs.add(def);
+            if (this.borrowCheck.owningStores.has(e)) facts.gens.add(def);
+            return false;
+          }
+
+          case ASTKind.Call: {
+            if (e.callee.kind !== ASTKind.Identifier) break;
+            if (this.resolution.references.get(e.callee)?.kind !== DefinitionKind.Builtin || e.callee.name !== "drop") break;
+            for (const arg of e.args) {
+              const def = arg.kind === ASTKind.Identifier ? this.resolution.references.get(arg) : undefined;
+              if (def) facts.kills.add(def);
+            }
+            break;
+          }
+        }
+      });
+    }
+
+    return facts;
+  }
+
+  protected analyze() {
+    const { nodes } = this.cfg;
+    this.facts = nodes.map(node => this.nodeFacts(node));
+    this.liveIn = nodes.map(() => new Set());
+    this.ownedOut = nodes.map(() => new Set());
+
+    // liveness flows backwards, including out of anything that can throw
+    for (let changed = true; changed; ) {
+      changed = false;
+      for (let i = nodes.length - 1; i >= 0; i--) {
+        const node = nodes[i];
+        const out = new Set<Definition>();
+        for (const succ of [...node.succs, ...node.handlers]) {
+          this.liveIn[succ.id].forEach(def => out.add(def));
+        }
+
+        const facts = this.facts[i];
+        const liveIn = new Set([...facts.uses, ...difference(out, facts.defs)]);
+        if (!sameSet(liveIn, this.liveIn[i])) {
+          this.liveIn[i] = liveIn;
+          changed = true;
+        }
+      }
+    }
+
+    // ownership flows forwards, dropping whatever isn't live on the way into a node
+    for (let changed = true; changed; ) {
+      changed = false;
+      for (const node of nodes) {
+        const facts = this.facts[node.id];
+        const ownedIn = intersection(this.reaching(node), this.liveIn[node.id]);
+        const ownedOut = new Set([...difference(ownedIn, new Set([...facts.kills, ...facts.defs])), ...facts.gens]);
+        if (!sameSet(ownedOut, this.ownedOut[node.id])) {
+          this.ownedOut[node.id] = ownedOut;
+          changed = true;
+        }
+      }
+    }
+  }
+
+  protected reaching(node: CFGNode): Set<Definition> {
+    const reaching = new Set<Definition>();
+    for (const pred of node.preds) {
+      this.ownedOut[pred.id].forEach(def => reaching.add(def));
+    }
+    for (const def of this.throwReaching(node)) reaching.add(def);
+    return reaching;
+  }
+
+  protected ownedIn(node: CFGNode): Set<Definition> {
+    return intersection(this.reaching(node), this.liveIn[node.id]);
+  }
+
+  // a handler sees whatever any point that can throw into it may still have owned, except
+  // what its body declares, which is out of scope there, or moves
+  protected throwReaching(node: CFGNode): Set<Definition> {
+    const reaching = new Set<Definition>();
+    for (const thrower of this.cfg.nodes.filter(n => n.handlers.includes(node))) {
+      this.ownedIn(thrower).forEach(def => reaching.add(def));
+    }
+    const stmt = node.stmt;
+    const body = stmt?.kind === ASTKind.Try && !isError(stmt.body) ? this.cfg.extents.get(stmt.body) : undefined;
+    if (!body) return reaching;
+    return difference(reaching, new Set([...this.declared(body), ...this.moved(body)]));
+  }
+
+  protected declared({ from, to }: Extent): Set<Definition> {
+    const defs = new Set<Definition>();
+    for (const node of this.cfg.nodes.slice(from, to)) {
+      for (const binding of node.bindings) {
+        const def = this.bindingDefinition(binding);
+        if (def) defs.add(def);
+      }
+    }
+    return defs;
+  }
+
+  protected moved({ from, to }: Extent): Set<Definition> {
+    const defs = new Set<Definition>();
+    for (const node of this.cfg.nodes.slice(from, to)) {
+      for (const expr of node.exprs) {
+        visitExpr(expr, e => {
+          if (e.kind !== ASTKind.Identifier || !this.borrowCheck.moves.has(e)) return;
+          const def = this.resolution.references.get(e);
+          if (def) defs.add(def);
+        });
+      }
+    }
+    return defs;
+  }
+
+  // which of the given variables something in the extent can throw out of it while still owning
+  protected unwinding(defs: Definition[], extent: Extent): Definition[] {
+    const { from, to } = extent;
+    const inside = (node: CFGNode) => node.id >= from && node.id < to;
+    const moved = this.moved(extent);
+    const owned = new Set<Definition>();
+    for (const node of this.cfg.nodes.slice(from, to)) {
+      if (node.kind !== NodeKind.Stmt && node.kind !== NodeKind.Branch) continue;
+      if (node.handlers.length > 0 && inside(node.handlers[0])) continue;
+      this.ownedIn(node).forEach(def => owned.add(def));
+    }
+    return defs.filter(def => owned.has(def) && !moved.has(def));
+  }
+
+  protected addDrops(node: CFGNode, defs: Set<Definition>) {
+    if (defs.size === 0) return;
+    const drops = this.drops.get(node) ?? [];
+    drops.push(...[...defs].sort((a, b) => (a.span?.start ?? 0) - (b.span?.start ?? 0)));
+    this.drops.set(node, drops);
+  }
+
+  protected placeDrops() {
+    for (const node of this.cfg.nodes) {
+      const ownedOut = this.ownedOut[node.id];
+      if (node.kind === NodeKind.Region && node.role === "handler") {
+        this.addDrops(node, difference(this.throwReaching(node), this.liveIn[node.id]));
+      }
+
+      // branches have their own region per edge, and other nodes have a single successor
+      for (const succ of node.succs) {
+        const target = node.kind === NodeKind.Branch ? succ : node;
+        this.addDrops(target, difference(ownedOut, this.liveIn[succ.id]));
+      }
+    }
+  }
+
+  public lower(decl: Body): Stmt[] {
+    if (isError(decl.body)) return [];
+
+    this.cfg = buildCFG(decl);
+    this.drops = new Map();
+    this.nodeOf = new Map();
+    this.regionOf = new Map();
+    for (const node of this.cfg.nodes) {
+      if (!node.stmt) continue;
+      if (node.kind === NodeKind.Region) {
+        const regions = this.regionOf.get(node.stmt) ?? new Map();
+        regions.set(node.role!, node);
+        this.regionOf.set(node.stmt, regions);
+      } else {
+        this.nodeOf.set(node.stmt, node);
+      }
+    }
+
+    this.analyze();
+    this.placeDrops();
+    const params = decl.params.flatMap(param => this.bindingDefinition(param) ?? []);
+    const body = { from: this.cfg.exit.id + 1, to: this.cfg.nodes.length };
+    return [
+      ...this.dropStmts(this.cfg.entry, decl.span),
+      ...this.unwind(this.unwinding(params, body), this.lowerStmts(decl.body), decl.span),
+    ];
+  }
+
+  protected dropStmts(node: CFGNode | undefined, span: Span): Stmt[] {
+    const drops = (node && this.drops.get(node)) ?? [];
+    return this.dropDefs(drops, span);
+  }
+
+  protected dropDefs(drops: Definition[], span: Span): Stmt[] {
+    return drops.map(def => {
+      const target: Identifier = { kind: ASTKind.Identifier, name: def.name, span };
+      // code generation renames variables that shadow others, which a drop may be inside of
+      this.resolution.references.set(target, def);
+      return { kind: ASTKind.Drop, target, span };
+    });
+  }
+
+  protected regionDrops(stmt: Stmt, role: RegionRole, span: Span): Stmt[] {
+    return this.dropStmts(this.regionOf.get(stmt)?.get(role), span);
+  }
+
+  protected lowerStmts(stmts: Stmt[]): Stmt[] {
+    const lowered: Stmt[] = [];
+    for (const [i, stmt] of stmts.entries()) {
+      lowered.push(...this.lowerStmt(stmt));
+      const rest = stmts.slice(i + 1);
+      const declares = stmt.kind === ASTKind.Let || stmt.kind === ASTKind.Const;
+      const def = declares ? this.bindingDefinition(stmt.binding) : undefined;
+      if (!def || rest.length === 0) continue;
+
+      const extent = {
+        from: this.cfg.extents.get(rest[0])!.from,
+        to: this.cfg.extents.get(rest[rest.length - 1])!.to,
+      };
+      const unwinding = this.unwinding([def], extent);
+      if (unwinding.length === 0) continue;
+      const span = { start: rest[0].span.start, end: rest[rest.length - 1].span.end };
+      return [...lowered, ...this.unwind(unwinding, this.lowerStmts(rest), span)];
+    }
+    return lowered;
+  }
+
+  // `try { ... } catch ($e) { drop(...); throw $e; }`, so a throw drops what it leaves behind
+  protected unwind(defs: Definition[], stmts: Stmt[], span: Span): Stmt[] {
+    if (defs.length === 0) return stmts;
+    const name = (): Identifier => ({ kind: ASTKind.Identifier, name: "$e", span });
+    const handler: Stmt[] = [...this.dropDefs(defs, span), { kind: ASTKind.Throw, value: name(), span }];
+    return [
+      {
+        kind: ASTKind.Try,
+        body: { kind: ASTKind.Block, stmts, span },
+        binding: { name: name(), span },
+        handler: { kind: ASTKind.Block, stmts: handler, span },
+        span,
+      },
+    ];
+  }
+
+  // a branch or loop body with drops at its start
+  protected lowerRegion(drops: Stmt[], body: Stmt): Stmt {
+    const lowered = body.kind === ASTKind.Block ? this.lowerStmts(body.stmts) : this.lowerStmt(body);
+    if (drops.length === 0 && body.kind !== ASTKind.Block && lowered.length === 1) return lowered[0];
+    return { kind: ASTKind.Block, stmts: [...drops, ...lowered], span: body.span };
+  }
+
+  protected lowerStmt(stmt: Stmt): Stmt[] {
+    const end = { start: stmt.span.end, end: stmt.span.end };
+
+    switch (stmt.kind) {
+      case ASTKind.Let:
+      case ASTKind.Const:
+      case ASTKind.ExprStmt:
+      case ASTKind.Drop:
+        return [stmt, ...this.dropStmts(this.nodeOf.get(stmt), end)];
+
+      case ASTKind.Return:
+      case ASTKind.Throw: {
+        const drops = this.dropStmts(this.nodeOf.get(stmt), stmt.span);
+        if (drops.length === 0) return [stmt];
+        if (!stmt.value || !this.mentions(stmt.value, drops)) return [...drops, stmt];
+
+        // the value has to be computed before what it uses is dropped
+        const span = stmt.value.span;
+        const name: Identifier = { kind: ASTKind.Identifier, name: "$ret", span };
+        return [
+          { kind: ASTKind.Const, binding: { name, span }, init: stmt.value, span },
+          ...drops,
+          { ...stmt, value: { ...name } },
+        ];
+      }
+
+      case ASTKind.Block:
+        return [{ ...stmt, stmts: this.lowerStmts(stmt.stmts) }];
+
+      case ASTKind.CtxBlock: {
+        // whatever dies once the fields are evaluated is dropped inside the block
+        const drops = this.dropStmts(this.nodeOf.get(stmt), stmt.body.span);
+        return [{ ...stmt, body: { ...stmt.body, stmts: [...drops, ...this.lowerStmts(stmt.body.stmts)] } }];
+      }
+
+      case ASTKind.If: {
+        const then = this.lowerRegion(this.regionDrops(stmt, "then", stmt.then.span), stmt.then);
+        const elseDrops = this.regionDrops(stmt, "else", stmt.else?.span ?? end);
+        // a missing else branch still needs somewhere to drop
+        const otherwise = stmt.else
+          ? this.lowerRegion(elseDrops, stmt.else)
+          : elseDrops.length > 0
+            ? ({ kind: ASTKind.Block, stmts: elseDrops, span: end } satisfies Block)
+            : undefined;
+        return [{ ...stmt, then, else: otherwise }];
+      }
+
+      case ASTKind.While: {
+        const body = this.lowerRegion(this.regionDrops(stmt, "body", stmt.body.span), stmt.body);
+        return [{ ...stmt, body }, ...this.regionDrops(stmt, "exit", end)];
+      }
+
+      case ASTKind.ForOf: {
+        const body = this.lowerRegion(this.regionDrops(stmt, "body", stmt.body.span), stmt.body);
+        const def = this.bindingDefinition(stmt.binding);
+        const unwinding = def ? this.unwinding([def], this.cfg.extents.get(stmt.body)!) : [];
+        const stmts = body.kind === ASTKind.Block ? body.stmts : [body];
+        const unwound: Stmt =
+          unwinding.length > 0 ? { kind: ASTKind.Block, stmts: this.unwind(unwinding, stmts, body.span), span: body.span } : body;
+        return [{ ...stmt, body: unwound }, ...this.regionDrops(stmt, "exit", end)];
+      }
+
+      case ASTKind.Try: {
+        const tryDrops = this.regionDrops(stmt, "try", stmt.body.span);
+        const body = isError(stmt.body) ? stmt.body : { ...stmt.body, stmts: [...tryDrops, ...this.lowerStmts(stmt.body.stmts)] };
+        const handlerDrops = this.regionDrops(stmt, "handler", stmt.handler.span);
+        const handler = { ...stmt.handler, stmts: [...handlerDrops, ...this.lowerStmts(stmt.handler.stmts)] };
+        return [{ ...stmt, body, handler }];
+      }
+    }
+
+    return [stmt];
+  }
+
+  // whether an expression reads any of the dropped variables or something borrowing from them
+  protected mentions(expr: Expr, drops: Stmt[]): boolean {
+    const names = new Set(drops.map(drop => (drop.kind === ASTKind.Drop ? drop.target.name : "")));
+    let found = false;
+    visitExpr(expr, e => {
+      if (e.kind !== ASTKind.Identifier) return;
+      const def = this.resolution.references.get(e);
+      if (def && [...this.closure(def)].some(d => names.has(d.name))) found = true;
+    });
+    return found;
+  }
+}
+
+// the body of every function, query and command with drops inserted
+export function insertDrops(module: Module, resolution: Resolution, borrowCheck: BorrowCheck): Map<Body, Stmt[]> {
+  const inserter = new DropInserter(resolution, borrowCheck);
+  const bodies = new Map<Body, Stmt[]>();
+  for (const decl of module.decls) {
+    switch (decl.kind) {
+      case ASTKind.FunctionDecl:
+      case ASTKind.QueryDecl:
+      case ASTKind.CommandDecl:
+        bodies.set(decl, inserter.lower(decl));
+    }
+  }
+  return bodies;
+}
@@ -0,0 +1,394 @@
+import { listNames } from "./borrowck.js";
+import { Compilation, compileModule } from "./compile.js";
+import { Diagnostic, Fix, Range, Span } from "./diagnostics.js";
+import { SourceDocument } from "./document.js";
+import { Definition, DefinitionKind } from "./resolve.js";
+import { ASTKind, Binding, FieldDecl, Identifier, isError, MessageDecl } from "./syntax.js";
+import { showType } from "./typecheck.js";
+
+// A language server for editors, speaking JSON-RPC over stdio. Open documents are
+// re-parsed incrementally and then checked whole on each change, and hovers, definitions,
+// symbols and code actions are read off what the passes left behind rather than worked out again.
+
+export interface Position {
+  line: number;
+  character: number;
+}
+
+export interface Location {
+  uri: string;
+  range: Range;
+}
+
+export interface Hover {
+  contents: { kind: "markdown"; value: string };
+  range: Range;
+}
+
+export enum SymbolKind {
+  Class = 5,
+  Method = 6,
+  Field = 8,
+  Function = 12,
+  Struct = 23,
+}
+
+export interface DocumentSymbol {
+  name: string;
+  detail?: string;
+  kind: SymbolKind;
+  range: Range;
+  selectionRange: Range;
+  children?: DocumentSymbol[];
+}
+
+export interface CodeAction {
+  title: string;
+  kind: "quickfix";
+  diagnostics: Diagnostic[];
+  isPreferred?: boolean;
+  edit: { changes: Record<string, Fix["edits"]> };
+}
+
+export interface Message {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+enum MessageType {
+  Error = 1,
+}
+
+const ParseError = -32700;
+const MethodNotFound = -32601;
+const InternalError = -32603;
+
+class ResponseError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+  }
+}
+
+interface DocumentParams {
+  textDocument: { uri: string };
+}
+
+interface PositionParams extends DocumentParams {
+  position: Position;
+}
+
+interface RangeParams extends DocumentParams {
+  range: Range;
+}
+
+// with a range, an edit to that range; without one, the whole new text
+interface ContentChange {
+  range?: Range;
+  text: string;
+}
+
+interface OpenDocument {
+  source: SourceDocument;
+  compilation: Compilation;
+}
+
+export class LanguageServer {
+  protected documents = new Map<string, OpenDocument>();
+  protected shuttingDown = false;
+
+  constructor(protected send: (message: Message) => void, protected exit: (code: number) => void = () => {}) {}
+
+  public receive(message: Message) {
+    // responses to requests, which this server never makes
+    if (message.method === undefined) return;
+
+    if (message.id === undefined) {
+      // there is no one to answer, so a failure is only logged, and the server carries on
+      try {
+        this.notify(message.method, message.params);
+      } catch (e) {
+        const text = `${message.method} failed: ${(e as Error).message}`;
+        this.send({ jsonrpc: "2.0", method: "window/logMessage", params: { type: MessageType.Error, message: text } });
+      }
+      return;
+    }
+
+    try {
+      this.send({ jsonrpc: "2.0", id: message.id, result: this.request(message.method, message.params) });
+    } catch (e) {
+      const code = e instanceof ResponseError ? e.code : InternalError;
+      this.send({ jsonrpc: "2.0", id: message.id, error: { code, message: (e as Error).message } });
+    }
+  }
+
+  protected request(method: string, params: unknown): unknown {
+    switch (method) {
+      case "initialize":
+        return {
+          capabilities: {
+            textDocumentSync: 2, // only what changed
+            hoverProvider: true,
+            definitionProvider: true,
+            documentSymbolProvider: true,
+            codeActionProvider: true,
+          },
+          serverInfo: { name: "the-ceiling" },
+        };
+      case "shutdown":
+        this.shuttingDown = true;
+        return null;
+      case "textDocument/hover":
+        return this.hover(params as PositionParams);
+      case "textDocument/definition":
+        return this.definition(params as PositionParams);
+      case "textDocument/documentSymbol":
+        return this.documentSymbols(params as DocumentParams);
+      case "textDocument/codeAction":
+        return this.codeActions(params as RangeParams);
+      default:
+        throw new ResponseError(MethodNotFound, `unknown method \`${method}\``);
+    }
+  }
+
+  protected notify(method: string, params: unknown) {
+    switch (method) {
+      case "textDocument/didOpen": {
+        const { textDocument } = params as { textDocument: { uri: string; text: string } };
+        this.update(textDocument.uri, new SourceDocument(textDocument.uri, textDocument.text));
+        break;
+      }
+      case "textDocument/didChange": {
+        const { textDocument, contentChanges } = params as DocumentParams & { contentChanges: ContentChange[] };
+        // edits only make sense against the text they were made to, which is unknown until it is opened
+        let source = this.documents.get(textDocument.uri)?.source;
+        if (!source) throw new Error(`\`${textDocument.uri}\` was changed without being opened`);
+        for (const { range, text } of contentChanges) {
+          if (!range) {
+            source = new SourceDocument(textDocument.uri, text);
+            continue;
+          }
+          const diagnostics = source.getDiagnostics();
+          source.edit({ start: diagnostics.offsetAt(range.start), end: diagnostics.offsetAt(range.end), text });
+        }
+        this.update(textDocument.uri, source);
+        break;
+      }
+      case "textDocument/didClose": {
+        const { textDocument } = params as DocumentParams;
+        this.documents.delete(textDocument.uri);
+        this.publish(textDocument.uri, []);
+        break;
+      }
+      case "exit":
+        this.exit(this.shuttingDown ? 0 : 1);
+        break;
+    }
+  }
+
+  protected update(uri: string, source: SourceDocument) {
+    const compilation = compileModule(source.parse());
+    this.documents.set(uri, { source, compilation });
+    this.publish(uri, compilation.allDiags);
+  }
+
+  protected publish(uri: string, diagnostics: Diagnostic[]) {
+    this.send({ jsonrpc: "2.0", method: "textDocument/publishDiagnostics", params: { uri, diagnostics } });
+  }
+
+  protected document(uri: string): Compilation {
+    const document = this.documents.get(uri);
+    if (!document) throw new ResponseError(InternalError, `\`${uri}\` is not open`);
+    return document.compilation;
+  }
+
+  // the innermost name at `position`, declared or referenced
+  protected identifierAt(doc: Compilation, position: Position): [Identifier, Definition] | null {
+    const offset = doc.diagnostics.offsetAt(position);
+    let found: [Identifier, Definition] | null = null;
+    for (const [ident, def] of doc.resolution.references) {
+      const { start, end } = ident.span;
+      if (offset < start || offset > end) continue;
+      if (!found || end - start < found[0].span.end - found[0].span.start) found = [ident, def];
+    }
+    return found;
+  }
+
+  protected hover({ textDocument, position }: PositionParams): Hover | null {
+    const doc = this.document(textDocument.uri);
+    const found = this.identifierAt(doc, position);
+    if (!found) return null;
+    const [ident, def] = found;
+
+    let value = "```ceiling\n" + this.signature(doc, ident, def) + "\n```";
+    const lifetime = this.lifetime(doc, def);
+    if (lifetime) value += `\n\n${lifetime}`;
+    return { contents: { kind: "markdown", value }, range: doc.diagnostics.getRange(ident.span) };
+  }
+
+  protected signature(doc: Compilation, ident: Identifier, def: Definition): string {
+    // fields are typed by their binding
+    const node = def.kind === DefinitionKind.Field ? (def.node as Extract<FieldDecl, { binding: Binding }>).binding : def.node;
+    const type = doc.typing.types.get(ident) ?? (node && doc.typing.types.get(node));
+    const typed = (name: string) => (type ? `${name}: ${showType(type)}` : name);
+
+    switch (def.kind) {
+      case DefinitionKind.Local:
+        return `${def.isConst ? "const" : "let"} ${typed(def.name)}`;
+      case DefinitionKind.Function:
+        return `function ${typed(def.name)}`;
+      case DefinitionKind.Struct:
+        return `struct ${def.name}`;
+      case DefinitionKind.Actor:
+        return `actor struct ${def.name}`;
+      case DefinitionKind.Field:
+        return typed(`${def.owner!.name}.${def.name}`);
+      case DefinitionKind.Query:
+        return `query ${typed(`${def.owner!.name}.${def.name}`)}`;
+      case DefinitionKind.Command:
+        return `command ${typed(`${def.owner!.name}.${def.name}`)}`;
+      case DefinitionKind.BuiltinType:
+        return def.name;
+      default:
+        return typed(def.name);
+    }
+  }
+
+  // what the borrow checker knows about where a variable's handle comes from
+  protected lifetime(doc: Compilation, def: Definition): string | null {
+    const { owningStores, dependencies } = doc.borrowCheck;
+    if (def.node && owningStores.has(def.node as Binding)) return "owns its handle";
+    const places = [...(dependencies.get(def) ?? [])].filter(place => place !== def);
+    return places.length > 0 ? `borrows from ${listNames(places.map(place => place.name))}` : null;
+  }
+
+  protected definition({ textDocument, position }: PositionParams): Location | null {
+    const doc = this.document(textDocument.uri);
+    const def = this.identifierAt(doc, position)?.[1];
+    if (!def?.span) return null;
+    return { uri: textDocument.uri, range: doc.diagnostics.getRange(def.span) };
+  }
+
+  protected documentSymbols({ textDocument }: DocumentParams): DocumentSymbol[] {
+    const doc = this.document(textDocument.uri);
+    const symbol = (name: Identifier, span: Span, kind: SymbolKind, detail?: string): DocumentSymbol => ({
+      name: name.name,
+      ...(detail ? { detail } : {}),
+      kind,
+      range: doc.diagnostics.getRange(span),
+      selectionRange: doc.diagnostics.getRange(name.span),
+    });
+
+    const symbols: DocumentSymbol[] = [];
+    const structs = new Map<string, DocumentSymbol>();
+    const messages: MessageDecl[] = [];
+    for (const decl of doc.module.decls) {
+      if (isError(decl)) continue;
+      switch (decl.kind) {
+        case ASTKind.FunctionDecl: {
+          if (isError(decl.name)) break;
+          const type = doc.typing.types.get(decl);
+          symbols.push(symbol(decl.name, decl.span, SymbolKind.Function, type && showType(type)));
+          break;
+        }
+        case ASTKind.StructDecl: {
+          if (isError(decl.name)) break;
+          const struct = symbol(decl.name, decl.span, decl.actor ? SymbolKind.Class : SymbolKind.Struct, decl.actor ? "actor" : undefined);
+          struct.children = fieldSymbols(decl.fields, symbol);
+          structs.set(decl.name.name, struct);
+          symbols.push(struct);
+          break;
+        }
+        default:
+          messages.push(decl);
+      }
+    }
+
+    // handlers are declared outside their actor, but belong under it
+    for (const decl of messages) {
+      if (isError(decl.name) || isError(decl.receiver)) continue;
+      const detail = decl.kind === ASTKind.QueryDecl ? "query" : "command";
+      const struct = structs.get(decl.receiver.name);
+      if (struct) {
+        struct.children!.push(symbol(decl.name, decl.span, SymbolKind.Method, detail));
+      } else {
+        const name = { ...decl.name, name: `${decl.receiver.name}.${decl.name.name}` };
+        symbols.push(symbol(name, decl.span, SymbolKind.Method, detail));
+      }
+    }
+    return symbols;
+  }
+
+  // the fixes of every diagnostic touching `range`, rather than only those the editor sent back
+  protected codeActions({ textDocument, range }: RangeParams): CodeAction[] {
+    const doc = this.document(textDocument.uri);
+    const before = (a: Position, b: Position) => a.line < b.line || (a.line === b.line && a.character < b.character);
+    return doc.allDiags
+      .filter(diag => !before(diag.range.end, range.start) && !before(range.end, diag.range.start))
+      .flatMap(diag =>
+        (diag.fixes ?? []).map((fix, i) => ({
+          title: fix.title,
+          kind: "quickfix" as const,
+          diagnostics: [diag],
+          ...(i === 0 ? { isPreferred: true } : {}),
+          edit: { changes: { [textDocument.uri]: fix.edits } },
+        })),
+      );
+  }
+}
+
+function fieldSymbols(
+  fields: FieldDecl[],
+  symbol: (name: Identifier, span: Span, kind: SymbolKind) => DocumentSymbol,
+): DocumentSymbol[] {
+  return fields.flatMap(field =>
+    isError(field) || isError(field.binding) || isError(field.binding.name)
+      ? []
+      : [symbol(field.binding.name, field.span, SymbolKind.Field)],
+  );
+}
+
+// reads `Content-Length` framed messages from `input`, and frames everything sent to `output`
+export function listen(
+  input: NodeJS.ReadableStream,
+  output: NodeJS.WritableStream,
+  exit = (code: number) => process.exit(code),
+): LanguageServer {
+  const send = (message: Message) => {
+    const body = Buffer.from(JSON.stringify(message), "utf8");
+    output.write(`Content-Length: ${body.length}\r\n\r\n`);
+    output.write(body);
+  };
+  const server = new LanguageServer(send, exit);
+
+  let buffer = Buffer.alloc(0);
+  input.on("data", (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    for (;;) {
+      const headerEnd = buffer.indexOf("\r\n\r\n");
+      if (headerEnd < 0) return;
+      const start = headerEnd + 4;
+      const length = Number(/Content-Length: *(\d+)/i.exec(buffer.subarray(0, headerEnd).toString("ascii"))?.[1]);
+      if (Number.isNaN(length)) {
+        buffer = buffer.subarray(start);
+        continue;
+      }
+      if (buffer.length < start + length) return;
+
+      const body = buffer.subarray(start, start + length).toString("utf8");
+      buffer = buffer.subarray(start + length);
+      let message: Message;
+      try {
+        message = JSON.parse(body);
+      } catch (e) {
+        send({ jsonrpc: "2.0", id: null, error: { code: ParseError, message: (e as Error).message } });
+        continue;
+      }
+      server.receive(message);
+    }
+  });
+  return server;
+}
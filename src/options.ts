@@ -1,3 +1,131 @@
-const options = new (class Options {})();
+import { Diagnostic, Diagnostics, Severity } from "./diagnostics.js";
+
+// Compiler options, from a `ceiling.json` project file and then command line flags.
+// Every option is described once in `schema`, which drives validation and the flags.
+
+export type Strictness = "error" | "warning" | "off";
+export type Target = "browser" | "node";
+export type Format = "text" | "json" | "sarif";
+
+class Options {
+  // what borrow checker errors are: errors, warnings, or not reported at all
+  strictness: Strictness = "error";
+  // browser workers, or `worker_threads`
+  target: Target = "browser";
+  sourceMap = false;
+  color = true;
+  // text for people, JSON lines or a SARIF log for tools
+  format: Format = "text";
+  // stop reporting after this many errors, 0 for no limit
+  maxErrors = 0;
+}
+
+type OptionSpec =
+  | { kind: "enum"; values: readonly string[]; description: string }
+  | { kind: "boolean"; description: string }
+  | { kind: "number"; description: string };
+
+export const schema: Record<keyof Options, OptionSpec> = {
+  strictness: { kind: "enum", values: ["error", "warning", "off"], description: "how borrow checker errors are reported" },
+  target: { kind: "enum", values: ["browser", "node"], description: "run actors in web workers or worker_threads" },
+  sourceMap: { kind: "boolean", description: "write a .ts.map next to each output" },
+  color: { kind: "boolean", description: "color diagnostics" },
+  format: { kind: "enum", values: ["text", "json", "sarif"], description: "write diagnostics as text, JSON lines or a SARIF log" },
+  maxErrors: { kind: "number", description: "stop reporting after this many errors, 0 for no limit" },
+};
+
+export type { Options };
+
+export function createOptions(overrides: Partial<Options> = {}): Options {
+  return Object.assign(new Options(), overrides);
+}
+
+// what is wrong with `value` as the option `key`, if anything
+function checkValue(key: keyof Options, value: unknown): string | null {
+  const spec = schema[key];
+  switch (spec.kind) {
+    case "enum":
+      if (typeof value === "string" && spec.values.includes(value)) return null;
+      return `\`${key}\` must be one of ${spec.values.map(v => `"${v}"`).join(", ")}`;
+    case "boolean":
+      return typeof value === "boolean" ? null : `\`${key}\` must be true or false`;
+    case "number":
+      return typeof value === "number" && Number.isInteger(value) && value >= 0 ? null : `\`${key}\` must be a whole number`;
+  }
+}
+
+function isOption(key: string): key is keyof Options {
+  return Object.prototype.hasOwnProperty.call(schema, key);
+}
+
+export interface LoadedOptions {
+  options: Options;
+  diagnostics: Diagnostics;
+  allDiags: Diagnostic[];
+}
+
+// reads a `ceiling.json`; anything invalid is reported and left at its default
+export function parseOptions(uri: string, src: string, base = createOptions()): LoadedOptions {
+  const diagnostics = new Diagnostics(uri, src);
+  const allDiags: Diagnostic[] = [];
+  const options = createOptions(base);
+
+  let json: unknown;
+  try {
+    json = JSON.parse(src);
+  } catch (e) {
+    // the only place JSON.parse says where it stopped is its message
+    const { message } = e as Error;
+    const position = Number(/at position (\d+)/.exec(message)?.[1] ?? 0);
+    const reason = message.replace(/ in JSON at position .*$/, "");
+    allDiags.push(diagnostics.createDiagnostic({ start: position, end: position + 1 }, `invalid JSON: ${reason}`));
+    return { options, diagnostics, allDiags };
+  }
+
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    allDiags.push(diagnostics.createDiagnostic({ start: 0, end: src.length }, "`ceiling.json` must contain an object"));
+    return { options, diagnostics, allDiags };
+  }
+
+  // JSON.parse forgets where things were, so keys are found again in the source
+  let searchFrom = 0;
+  for (const [key, value] of Object.entries(json)) {
+    const quoted = JSON.stringify(key);
+    const start = Math.max(0, src.indexOf(quoted, searchFrom));
+    searchFrom = start + quoted.length;
+    const span = { start, end: start + quoted.length };
+
+    if (!isOption(key)) {
+      allDiags.push(diagnostics.createDiagnostic(span, `unknown option \`${key}\``, Severity.Warning));
+      continue;
+    }
+    const problem = checkValue(key, value);
+    if (problem) {
+      allDiags.push(diagnostics.createDiagnostic(span, problem));
+      continue;
+    }
+    (options as Record<keyof Options, unknown>)[key] = value;
+  }
+
+  return { options, diagnostics, allDiags };
+}
+
+// applies `--key value` flags, already split up by `parseArgs`; returns what was wrong with them
+export function applyFlags(options: Options, flags: Record<string, string | boolean | undefined>): string[] {
+  const problems: string[] = [];
+  for (const [key, raw] of Object.entries(flags)) {
+    if (raw === undefined || !isOption(key)) continue;
+    const value = schema[key].kind === "number" && typeof raw === "string" && raw.trim() !== "" ? Number(raw) : raw;
+    const problem = checkValue(key, value);
+    if (problem) {
+      problems.push(problem.replace(`\`${key}\``, `\`--${key}\``));
+      continue;
+    }
+    (options as Record<keyof Options, unknown>)[key] = value;
+  }
+  return problems;
+}
+
+const options = createOptions();
 
 export default options;
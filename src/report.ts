@@ -0,0 +1,151 @@
+import { Code, Diagnostic, Diagnostics, LineCol, Range, Severity } from "./diagnostics.js";
+
+// Diagnostics for tools rather than people: JSON lines, one diagnostic each, and SARIF 2.1
+// logs, which code scanning and most CI annotators read. Both keep what `Diagnostic`
+// already says, LSP-shaped, and only add the file it is in.
+
+// a diagnostic and the file it was reported in
+export interface Reported {
+  diag: Diagnostic;
+  diagnostics: Diagnostics;
+}
+
+export function formatJSONLine({ diag, diagnostics }: Reported): string {
+  return JSON.stringify({ uri: diagnostics.getURI(), ...diag }) + "\n";
+}
+
+export interface SarifRegion {
+  // 1-based, with the end column one past the last character
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  snippet?: { text: string };
+}
+
+export interface SarifLocation {
+  id?: number;
+  physicalLocation: {
+    artifactLocation: { uri: string };
+    region: SarifRegion;
+    // the whole lines, for tools that show the code around a result
+    contextRegion?: SarifRegion;
+  };
+  message?: { text: string };
+}
+
+export interface SarifResult {
+  ruleId?: Code;
+  ruleIndex?: number;
+  level: "error" | "warning" | "note";
+  message: { text: string };
+  locations: SarifLocation[];
+  relatedLocations?: SarifLocation[];
+  properties?: { notes?: string[]; help?: string[] };
+  fixes?: SarifFix[];
+}
+
+export interface SarifFix {
+  description: { text: string };
+  artifactChanges: {
+    artifactLocation: { uri: string };
+    replacements: { deletedRegion: SarifRegion; insertedContent: { text: string } }[];
+  }[];
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: "2.1.0";
+  runs: {
+    tool: { driver: { name: string; informationUri: string; rules: { id: Code; name: string }[] } };
+    results: SarifResult[];
+  }[];
+}
+
+const levels: Record<Severity, SarifResult["level"]> = {
+  [Severity.Error]: "error",
+  [Severity.Warning]: "warning",
+  [Severity.Information]: "note",
+  [Severity.Hint]: "note",
+};
+
+// every code is a rule, named after its `Code` member
+const rules = Object.entries(Code).map(([name, id]) => ({ id, name }));
+
+function region(range: Range, source?: LineCol): SarifRegion {
+  const region: SarifRegion = {
+    startLine: range.start.line + 1,
+    startColumn: range.start.character + 1,
+    endLine: range.end.line + 1,
+    endColumn: range.end.character + 1,
+  };
+  if (source) region.snippet = { text: source.getSource().slice(source.offsetAt(range.start), source.offsetAt(range.end)) };
+  return region;
+}
+
+function contextRegion(range: Range, source: LineCol): SarifRegion {
+  const lines = [];
+  for (let line = range.start.line; line <= range.end.line; line++) lines.push(source.getLine(line));
+  return {
+    startLine: range.start.line + 1,
+    startColumn: 1,
+    endLine: range.end.line + 1,
+    endColumn: lines[lines.length - 1].length + 1,
+    snippet: { text: lines.join("\n") },
+  };
+}
+
+function location(uri: string, range: Range, source?: LineCol): SarifLocation["physicalLocation"] {
+  return {
+    artifactLocation: { uri },
+    region: region(range, source),
+    ...(source ? { contextRegion: contextRegion(range, source) } : {}),
+  };
+}
+
+// related places in other files get snippets only if `files` can read them
+export function createSarifLog(reported: Reported[], files: (uri: string) => LineCol | undefined = () => undefined): SarifLog {
+  const results = reported.map(({ diag, diagnostics }): SarifResult => {
+    const uri = diagnostics.getURI();
+    const ruleIndex = diag.code ? rules.findIndex(rule => rule.id === diag.code) : -1;
+    const properties = {
+      ...(diag.notes ? { notes: diag.notes } : {}),
+      ...(diag.help ? { help: diag.help } : {}),
+    };
+    return {
+      ...(ruleIndex >= 0 ? { ruleId: diag.code, ruleIndex } : {}),
+      level: levels[diag.severity],
+      message: { text: diag.message },
+      locations: [{ physicalLocation: location(uri, diag.range, diagnostics) }],
+      ...(diag.relatedInformation
+        ? {
+            relatedLocations: diag.relatedInformation.map(({ location: related, message }, id) => ({
+              id,
+              physicalLocation: location(related.uri, related.range, related.uri === uri ? diagnostics : files(related.uri)),
+              message: { text: message },
+            })),
+          }
+        : {}),
+      ...(diag.notes || diag.help ? { properties } : {}),
+      ...(diag.fixes
+        ? {
+            fixes: diag.fixes.map(fix => ({
+              description: { text: fix.title },
+              artifactChanges: [
+                {
+                  artifactLocation: { uri },
+                  replacements: fix.edits.map(edit => ({ deletedRegion: region(edit.range), insertedContent: { text: edit.newText } })),
+                },
+              ],
+            })),
+          }
+        : {}),
+    };
+  });
+
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [{ tool: { driver: { name: "ceilingc", informationUri: "https://github.com/romdotdog/the-ceiling", rules } }, results }],
+  };
+}
@@ -0,0 +1,713 @@
+import { Code, Diagnostic, DiagnosticDetails, Diagnostics, Severity, Span } from "./diagnostics.js";
+import {
+  ASTKind,
+  Binding,
+  Decl,
+  Expr,
+  FieldDecl,
+  FieldInit,
+  FunctionDecl,
+  Identifier,
+  isError,
+  MessageDecl,
+  Module,
+  Place,
+  Stmt,
+  StructDecl,
+  TypeArg,
+  TypeExpr,
+} from "./syntax.js";
+
+export enum DefinitionKind {
+  Local,
+  Param,
+  This,
+  Function,
+  Struct,
+  Actor,
+  Field,
+  Query,
+  Command,
+  Builtin,
+  BuiltinType,
+  Ctx,
+}
+
+export interface Definition {
+  kind: DefinitionKind;
+  name: string;
+  span: Span | null; // null for builtins
+  isConst: boolean;
+  node?: Decl | Binding | FieldDecl;
+  owner?: Definition; // the struct or actor a field, query, command or `this` belongs to
+  fields?: Map<string, Definition>;
+  methods?: Map<string, Definition>;
+}
+
+export class Scope {
+  public children: Scope[] = [];
+  public definitions = new Map<string, Definition>();
+
+  constructor(public parent: Scope | null, public span: Span) {
+    parent?.children.push(this);
+  }
+
+  public lookup(name: string): Definition | null {
+    return this.definitions.get(name) ?? this.parent?.lookup(name) ?? null;
+  }
+}
+
+export interface Resolution {
+  module: Scope;
+  types: Map<string, Definition>;
+  references: Map<Identifier, Definition>;
+  // every call's callee candidates; UFCS calls on native methods have none
+  callees: Map<Expr, Definition[]>;
+  allDiags: Diagnostic[];
+}
+
+const builtinValues = [
+  "console",
+  "Math",
+  "JSON",
+  "Array",
+  "Map",
+  "Set",
+  "Error",
+  "Promise",
+  "Number",
+  "String",
+  "Boolean",
+  "Object",
+  "drop",
+  "true",
+  "false",
+  "null",
+  "undefined",
+  "Infinity",
+];
+
+const builtinTypes = [
+  "number",
+  "string",
+  "boolean",
+  "void",
+  "unknown",
+  "never",
+  "null",
+  "undefined",
+  "Array",
+  "Map",
+  "Set",
+  "Promise",
+  "Error",
+];
+
+function builtin(kind: DefinitionKind, name: string): Definition {
+  return { kind, name, span: null, isConst: true };
+}
+
+export class Resolver {
+  public allDiags: Diagnostic[] = [];
+  public references = new Map<Identifier, Definition>();
+  public callees = new Map<Expr, Definition[]>();
+  public types = new Map<string, Definition>();
+
+  protected prelude: Scope;
+  protected scope: Scope;
+  protected methodsByName = new Map<string, Definition[]>();
+
+  constructor(protected diag: Diagnostics, protected module: Module) {
+    this.prelude = new Scope(null, module.span);
+    for (const name of builtinValues) {
+      this.prelude.definitions.set(name, builtin(DefinitionKind.Builtin, name));
+    }
+    this.scope = new Scope(this.prelude, module.span);
+  }
+
+  protected report(span: Span, message: string, details: DiagnosticDetails) {
+    this.allDiags.push(this.diag.createDiagnostic(span, message, Severity.Error, details));
+  }
+
+  protected duplicate(first: Span | null | undefined): DiagnosticDetails {
+    return { code: Code.DuplicateDefinition, labels: first ? [{ span: first, message: "first defined here" }] : [] };
+  }
+
+  protected unknownField(owner: Definition): DiagnosticDetails {
+    const fields = [...(owner.fields?.keys() ?? [])].map(name => `\`${name}\``);
+    return {
+      code: Code.UnknownField,
+      labels: owner.span ? [{ span: owner.span, message: `\`${owner.name}\` declared here` }] : [],
+      notes: fields.length > 0 ? [`\`${owner.name}\` has ${fields.join(", ")}`] : [],
+    };
+  }
+
+  protected withScope(span: Span, f: () => void) {
+    const outer = this.scope;
+    this.scope = new Scope(outer, span);
+    f();
+    this.scope = outer;
+  }
+
+  // declares a value in the current scope, checking for duplicates and shadowed consts
+  protected declare(ident: Identifier, def: Definition) {
+    this.references.set(ident, def);
+
+    const existing = this.scope.definitions.get(ident.name);
+    if (existing) {
+      this.report(ident.span, `duplicate binding \`${ident.name}\``, this.duplicate(existing.span));
+      return;
+    }
+
+    const shadowed = this.scope.parent?.lookup(ident.name);
+    if (shadowed && shadowed.kind === DefinitionKind.Local && shadowed.isConst) {
+      this.report(ident.span, `cannot shadow const \`${ident.name}\``, {
+        code: Code.ShadowedConst,
+        labels: shadowed.span ? [{ span: shadowed.span, message: "declared const here" }] : [],
+      });
+    }
+
+    this.scope.definitions.set(ident.name, def);
+  }
+
+  protected lookupType(name: string): Definition | null {
+    const def = this.types.get(name);
+    if (def) return def;
+    return builtinTypes.includes(name) ? builtin(DefinitionKind.BuiltinType, name) : null;
+  }
+
+  public resolve(): Resolution {
+    // declarations are visible everywhere, so they go first
+    for (const decl of this.module.decls) {
+      if (decl.kind === ASTKind.FunctionDecl) this.declareFunction(decl);
+      if (decl.kind === ASTKind.StructDecl) this.declareStruct(decl);
+    }
+    for (const decl of this.module.decls) {
+      if (decl.kind === ASTKind.QueryDecl || decl.kind === ASTKind.CommandDecl) this.declareMessage(decl);
+    }
+
+    for (const decl of this.module.decls) {
+      this.resolveDecl(decl);
+    }
+
+    return {
+      module: this.scope,
+      types: this.types,
+      references: this.references,
+      callees: this.callees,
+      allDiags: this.allDiags,
+    };
+  }
+
+  protected declareFunction(decl: FunctionDecl) {
+    if (isError(decl.name)) return;
+    this.declare(decl.name, {
+      kind: DefinitionKind.Function,
+      name: decl.name.name,
+      span: decl.name.span,
+      isConst: true,
+      node: decl,
+    });
+  }
+
+  protected declareStruct(decl: StructDecl) {
+    if (isError(decl.name)) return;
+    const def: Definition = {
+      kind: decl.actor ? DefinitionKind.Actor : DefinitionKind.Struct,
+      name: decl.name.name,
+      span: decl.name.span,
+      isConst: true,
+      node: decl,
+      fields: new Map(),
+      methods: new Map(),
+    };
+
+    this.references.set(decl.name, def);
+    if (this.types.has(def.name)) {
+      this.report(decl.name.span, `duplicate type \`${def.name}\``, this.duplicate(this.types.get(def.name)!.span));
+      return;
+    }
+    this.types.set(def.name, def);
+
+    for (const field of decl.fields) {
+      if (isError(field) || isError(field.binding) || isError(field.binding.name)) continue;
+      const name = field.binding.name;
+      const fieldDef: Definition = {
+        kind: DefinitionKind.Field,
+        name: name.name,
+        span: name.span,
+        isConst: false,
+        node: field,
+        owner: def,
+      };
+
+      this.references.set(name, fieldDef);
+      if (def.fields!.has(name.name)) {
+        this.report(name.span, `duplicate field \`${name.name}\``, this.duplicate(def.fields!.get(name.name)!.span));
+        continue;
+      }
+      def.fields!.set(name.name, fieldDef);
+    }
+  }
+
+  protected declareMessage(decl: MessageDecl) {
+    if (isError(decl.receiver) || isError(decl.name)) return;
+
+    const actor = this.types.get(decl.receiver.name);
+    if (!actor) {
+      this.report(decl.receiver.span, `unknown actor \`${decl.receiver.name}\``, { code: Code.UnknownName });
+      return;
+    }
+    this.references.set(decl.receiver, actor);
+    if (actor.kind !== DefinitionKind.Actor) {
+      this.report(decl.receiver.span, `\`${actor.name}\` is not an actor, so it cannot handle messages`, {
+        code: Code.NotAnActor,
+        labels: actor.span ? [{ span: actor.span, message: "declared here" }] : [],
+        help: [`declare it as \`actor struct ${actor.name}\``],
+      });
+      return;
+    }
+
+    const def: Definition = {
+      kind: decl.kind === ASTKind.QueryDecl ? DefinitionKind.Query : DefinitionKind.Command,
+      name: decl.name.name,
+      span: decl.name.span,
+      isConst: true,
+      node: decl,
+      owner: actor,
+    };
+
+    this.references.set(decl.name, def);
+    if (actor.methods!.has(def.name)) {
+      this.report(
+        decl.name.span,
+        `duplicate message handler \`${actor.name}.${def.name}\``,
+        this.duplicate(actor.methods!.get(def.name)!.span),
+      );
+      return;
+    }
+    actor.methods!.set(def.name, def);
+
+    const sameName = this.methodsByName.get(def.name) ?? [];
+    sameName.push(def);
+    this.methodsByName.set(def.name, sameName);
+  }
+
+  protected resolveDecl(decl: Decl) {
+    switch (decl.kind) {
+      case ASTKind.FunctionDecl:
+        this.withScope(decl.span, () => {
+          this.declareCtx(decl.span);
+          const owner = isError(decl.name) ? undefined : this.references.get(decl.name);
+          this.resolveParams(decl.params, owner);
+          if (decl.returnType) this.resolveType(decl.returnType);
+          if (decl.throws) this.resolveType(decl.throws);
+          if (decl.ctx) this.resolveCtxSignature(decl.ctx.fields);
+          if (!isError(decl.body)) this.resolveStmts(decl.body);
+        });
+        break;
+
+      case ASTKind.QueryDecl:
+      case ASTKind.CommandDecl:
+        this.withScope(decl.span, () => {
+          this.declareCtx(decl.span);
+          const actor = isError(decl.receiver) ? undefined : this.references.get(decl.receiver);
+          if (actor?.kind === DefinitionKind.Actor) {
+            this.scope.definitions.set("this", {
+              kind: DefinitionKind.This,
+              name: "this",
+              span: actor.span,
+              isConst: true,
+              owner: actor,
+            });
+          }
+
+          const owner = isError(decl.name) ? undefined : this.references.get(decl.name);
+          this.resolveParams(decl.params, owner);
+          if (decl.returnType) this.resolveType(decl.returnType);
+          if (decl.throws) this.resolveType(decl.throws);
+          if (!isError(decl.body)) this.resolveStmts(decl.body);
+        });
+        break;
+
+      case ASTKind.StructDecl: {
+        const def = isError(decl.name) ? undefined : this.types.get(decl.name.name);
+        for (const field of decl.fields) {
+          if (isError(field)) continue;
+          if (field.init) this.resolveExpr(field.init);
+
+          // place lifetimes in field types refer to sibling fields through `this`
+          this.withScope(field.span, () => {
+            if (def) {
+              this.scope.definitions.set("this", {
+                kind: DefinitionKind.This,
+                name: "this",
+                span: def.span,
+                isConst: true,
+                owner: def,
+              });
+            }
+            if (!isError(field.binding) && field.binding.type) this.resolveType(field.binding.type);
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  // every function body gets its own `ctx`, whose fields are worked out later
+  protected declareCtx(span: Span) {
+    this.scope.definitions.set("ctx", { kind: DefinitionKind.Ctx, name: "ctx", span, isConst: true });
+  }
+
+  protected resolveCtxSignature(fields: FieldDecl[]) {
+    const seen = new Map<string, Span>();
+    for (const field of fields) {
+      if (isError(field)) continue;
+      if (field.init) this.resolveExpr(field.init);
+      if (isError(field.binding)) continue;
+      if (field.binding.type) this.resolveType(field.binding.type);
+      if (isError(field.binding.name)) continue;
+
+      const { name, span } = field.binding.name;
+      if (seen.has(name)) {
+        this.report(span, `duplicate ctx field \`${name}\``, this.duplicate(seen.get(name)));
+      } else {
+        seen.set(name, span);
+      }
+    }
+  }
+
+  protected resolveParams(params: Binding[], owner?: Definition) {
+    for (const param of params) {
+      if (isError(param)) continue;
+      if (param.type) this.resolveType(param.type);
+      if (isError(param.name)) continue;
+      this.declare(param.name, {
+        kind: DefinitionKind.Param,
+        name: param.name.name,
+        span: param.name.span,
+        isConst: false,
+        node: param,
+        owner,
+      });
+    }
+  }
+
+  protected resolveBinding(binding: Binding, kind: DefinitionKind, isConst: boolean) {
+    if (isError(binding)) return;
+    if (binding.type) this.resolveType(binding.type);
+    if (isError(binding.name)) return;
+    this.declare(binding.name, {
+      kind,
+      name: binding.name.name,
+      span: binding.name.span,
+      isConst,
+      node: binding,
+    });
+  }
+
+  protected resolveStmts(stmts: Stmt[]) {
+    for (const stmt of stmts) {
+      this.resolveStmt(stmt);
+    }
+  }
+
+  // statements in branch or loop body position get their own scope
+  protected resolveNestedStmt(stmt: Stmt) {
+    this.withScope(stmt.span, () => this.resolveStmt(stmt));
+  }
+
+  protected resolveStmt(stmt: Stmt) {
+    switch (stmt.kind) {
+      case ASTKind.Let:
+      case ASTKind.Const:
+        // the initializer can't see the binding it initializes
+        this.resolveExpr(stmt.init);
+        this.resolveBinding(stmt.binding, DefinitionKind.Local, stmt.kind === ASTKind.Const);
+        break;
+      case ASTKind.Return:
+        if (stmt.value) this.resolveExpr(stmt.value);
+        break;
+      case ASTKind.Throw:
+        this.resolveExpr(stmt.value);
+        break;
+      case ASTKind.ExprStmt:
+        this.resolveExpr(stmt.expr);
+        break;
+      case ASTKind.Block:
+        this.withScope(stmt.span, () => this.resolveStmts(stmt.stmts));
+        break;
+      case ASTKind.If:
+        this.resolveExpr(stmt.cond);
+        this.resolveNestedStmt(stmt.then);
+        if (stmt.else) this.resolveNestedStmt(stmt.else);
+        break;
+      case ASTKind.While:
+        this.resolveExpr(stmt.cond);
+        this.resolveNestedStmt(stmt.body);
+        break;
+      case ASTKind.ForOf:
+        this.resolveExpr(stmt.iterable);
+        this.withScope(stmt.span, () => {
+          this.resolveBinding(stmt.binding, DefinitionKind.Local, stmt.isConst);
+          this.resolveNestedStmt(stmt.body);
+        });
+        break;
+      case ASTKind.Try:
+        if (!isError(stmt.body)) this.resolveStmt(stmt.body);
+        this.withScope(stmt.handler.span, () => {
+          if (stmt.binding) this.resolveBinding(stmt.binding, DefinitionKind.Local, false);
+          this.resolveStmts(stmt.handler.stmts);
+        });
+        break;
+      case ASTKind.CtxBlock:
+        if (!this.scope.lookup("ctx")) {
+          this.report(stmt.span, "`ctx` is only available in functions, queries and commands", { code: Code.MisplacedKeyword });
+        }
+        this.resolveFieldInits(stmt.fields);
+        this.resolveStmt(stmt.body);
+        break;
+    }
+  }
+
+  protected resolveName(ident: Identifier): Definition | null {
+    const def = this.scope.lookup(ident.name);
+    if (!def) {
+      if (ident.name === "this") {
+        this.report(ident.span, "`this` is only available in queries, commands and struct fields", { code: Code.MisplacedKeyword });
+      } else if (ident.name === "ctx") {
+        this.report(ident.span, "`ctx` is only available in functions, queries and commands", { code: Code.MisplacedKeyword });
+      } else {
+        this.report(ident.span, `unknown name \`${ident.name}\``, { code: Code.UnknownName });
+      }
+      return null;
+    }
+    this.references.set(ident, def);
+    return def;
+  }
+
+  protected resolveExpr(expr: Expr) {
+    switch (expr.kind) {
+      case ASTKind.Identifier:
+        // `ctx` is not a value, it only exists to have its fields read and set
+        if (this.resolveName(expr)?.kind === DefinitionKind.Ctx) {
+          this.report(expr.span, "`ctx` can only be used through its fields, like `ctx.value`", { code: Code.MisplacedKeyword });
+        }
+        break;
+      case ASTKind.Unary:
+        this.resolveExpr(expr.right);
+        break;
+      case ASTKind.Binary:
+        this.resolveExpr(expr.left);
+        this.resolveExpr(expr.right);
+        break;
+      case ASTKind.Call:
+        this.resolveCall(expr);
+        break;
+      case ASTKind.MemberAccess: {
+        if (expr.object.kind === ASTKind.Identifier) {
+          this.resolveName(expr.object);
+        } else {
+          this.resolveExpr(expr.object);
+        }
+
+        // fields of `this` are known up front
+        const object = expr.object.kind === ASTKind.Identifier ? this.references.get(expr.object) : undefined;
+        if (object?.kind === DefinitionKind.This && object.owner) {
+          const field = object.owner.fields?.get(expr.member.name);
+          if (field) {
+            this.references.set(expr.member, field);
+          } else {
+            this.report(expr.member.span, `\`${object.owner.name}\` has no field \`${expr.member.name}\``, this.unknownField(object.owner));
+          }
+        }
+        break;
+      }
+      case ASTKind.Index:
+        this.resolveExpr(expr.object);
+        this.resolveExpr(expr.index);
+        break;
+      case ASTKind.Assign:
+      case ASTKind.CompoundAssign: {
+        this.resolveExpr(expr.target);
+        this.resolveExpr(expr.value);
+
+        const target = expr.target.kind === ASTKind.Identifier ? this.references.get(expr.target) : undefined;
+        const assignable =
+          target?.kind === DefinitionKind.Param || (target?.kind === DefinitionKind.Local && !target.isConst);
+        if (target && !assignable) {
+          const declaredConst = target.kind === DefinitionKind.Local ? target.span : null;
+          this.report(expr.target.span, `cannot assign to \`${target.name}\``, {
+            code: Code.InvalidAssignment,
+            labels: declaredConst ? [{ span: declaredConst, message: "declared const here" }] : [],
+            help: declaredConst ? ["declare it with `let` to reassign it"] : [],
+          });
+        }
+        break;
+      }
+      case ASTKind.ArrayLiteral:
+        for (const element of expr.elements) {
+          this.resolveExpr(element);
+        }
+        break;
+      case ASTKind.StructLiteral: {
+        const def = this.lookupType(expr.type.name);
+        if (!def) {
+          this.report(expr.type.span, `unknown struct \`${expr.type.name}\``, { code: Code.UnknownName });
+        } else if (def.kind !== DefinitionKind.Struct && def.kind !== DefinitionKind.Actor) {
+          this.report(expr.type.span, `\`${def.name}\` is not a struct`, { code: Code.NotAStruct });
+        } else {
+          this.references.set(expr.type, def);
+        }
+        this.resolveFieldInits(expr.fields, def ?? undefined);
+        break;
+      }
+      case ASTKind.ResetLiteral:
+        this.resolveExpr(expr.target);
+        this.resolveFieldInits(expr.fields); // the actor type isn't known until inference
+        break;
+      case ASTKind.Await:
+        this.resolveExpr(expr.value);
+        break;
+      case ASTKind.New:
+        this.resolveName(expr.type);
+        for (const arg of expr.args) {
+          this.resolveExpr(arg);
+        }
+        break;
+    }
+  }
+
+  protected resolveFieldInits(inits: FieldInit[], struct?: Definition) {
+    const seen = new Map<string, Span>();
+    for (const init of inits) {
+      if (isError(init)) continue;
+      this.resolveExpr(init.value);
+      if (isError(init.name)) continue;
+
+      if (seen.has(init.name.name)) {
+        this.report(init.name.span, `duplicate field \`${init.name.name}\``, this.duplicate(seen.get(init.name.name)));
+      } else {
+        seen.set(init.name.name, init.name.span);
+      }
+
+      if (!struct?.fields) continue;
+      const field = struct.fields.get(init.name.name);
+      if (field) {
+        this.references.set(init.name, field);
+      } else {
+        this.report(init.name.span, `\`${struct.name}\` has no field \`${init.name.name}\``, this.unknownField(struct));
+      }
+    }
+  }
+
+  protected resolveCall(call: Expr & { kind: ASTKind.Call }) {
+    const resolveArgs = () => {
+      for (const arg of call.args) {
+        this.resolveExpr(arg);
+      }
+    };
+
+    if (call.callee.kind !== ASTKind.Identifier) {
+      this.resolveExpr(call.callee);
+      this.callees.set(call, []);
+      resolveArgs();
+      return;
+    }
+
+    const callee = call.callee;
+    if (!call.ufcs) {
+      const def = this.resolveName(callee);
+      this.callees.set(call, def ? [def] : []);
+      resolveArgs();
+      return;
+    }
+
+    resolveArgs();
+
+    // `x.f()` can call a function `f` in scope or any actor's `f` handler, and
+    // falls back to a native method otherwise
+    const candidates: Definition[] = [];
+    const fn = this.scope.lookup(callee.name);
+    if (fn?.kind === DefinitionKind.Function) candidates.push(fn);
+    candidates.push(...(this.methodsByName.get(callee.name) ?? []));
+
+    if (candidates.length === 1) this.references.set(callee, candidates[0]);
+    this.callees.set(call, candidates);
+  }
+
+  protected resolveType(type: TypeExpr | TypeArg) {
+    switch (type.kind) {
+      case ASTKind.Identifier: {
+        const def = this.lookupType(type.name);
+        if (def) {
+          this.references.set(type, def);
+        } else {
+          this.report(type.span, `unknown type \`${type.name}\``, { code: Code.UnknownName });
+        }
+        break;
+      }
+      case ASTKind.HandleType:
+        for (const place of type.lifetimes) {
+          this.resolvePlace(place);
+        }
+        this.resolveType(type.inner);
+        break;
+      case ASTKind.OwnedType:
+        this.resolveType(type.inner);
+        break;
+      case ASTKind.GenericType:
+        this.resolveType(type.base);
+        for (const arg of type.args) {
+          this.resolveType(arg);
+        }
+        break;
+      case ASTKind.ArrayType:
+        this.resolveType(type.element);
+        break;
+      case ASTKind.UnionType:
+      case ASTKind.IntersectionType:
+        for (const member of type.types) {
+          this.resolveType(member);
+        }
+        break;
+      case ASTKind.FunctionType:
+        // parameter names in function types are documentation only
+        for (const param of type.params) {
+          if (!isError(param) && param.type) this.resolveType(param.type);
+        }
+        this.resolveType(type.returnType);
+        break;
+      case ASTKind.PlaceTuple:
+        for (const place of type.places) {
+          this.resolvePlace(place);
+        }
+        break;
+    }
+  }
+
+  protected resolvePlace(place: Place) {
+    if (place.kind === ASTKind.Identifier) {
+      this.resolveName(place);
+      return;
+    }
+
+    const root = this.resolveName(place.root);
+    let owner = root?.kind === DefinitionKind.This ? root.owner : undefined;
+    for (const field of place.fields) {
+      if (!owner) break;
+      const def = owner.fields?.get(field.name);
+      if (!def) {
+        this.report(field.span, `\`${owner.name}\` has no field \`${field.name}\``, this.unknownField(owner));
+        break;
+      }
+      this.references.set(field, def);
+      owner = undefined; // nested paths go through field types, which aren't known yet
+    }
+  }
+}
+
+export function resolve(diag: Diagnostics, module: Module): Resolution {
+  return new Resolver(diag, module).resolve();
+}
@@ -0,0 +1,484 @@
+// The runtime that generated code runs against. Every actor lives in its own worker
+// and handles talk to it over `postMessage`; the worker runs one message at a time,
+// in the order they arrived, so an actor's state is never touched concurrently.
+
+export type MessageKind = "query" | "command";
+
+// what the code generator emits as statics on every actor struct; its constructor takes the
+// struct's own fields, which only whoever knows the struct can name
+export interface ActorClass<Fields = never> {
+  new (fields: Fields): Actor;
+  readonly name: string;
+  readonly module: string;
+  readonly messages: Readonly<Record<string, MessageKind>>;
+}
+
+export abstract class Actor {}
+
+// enough to construct an actor anywhere, since every worker can import its module
+export type ActorIdentity = Pick<ActorClass, "module" | "name">;
+
+// anything `postMessage` can be called on, a worker's own scope included
+export interface Endpoint {
+  postMessage(message: unknown, transfer?: Transferable[]): void;
+  onMessage(handler: (message: unknown) => void): void;
+  close(): void;
+}
+
+// a worker as seen from the thread that spawned it
+export interface WorkerEndpoint extends Endpoint {
+  onError(handler: (error: unknown) => void): void;
+}
+
+export interface Platform {
+  spawnWorker(): WorkerEndpoint;
+}
+
+type Request =
+  | { kind: "init"; id: number; module: string; name: string; fields: unknown }
+  | { kind: "query"; id: number; name: string; args: unknown[] }
+  | { kind: "command"; name: string; args: unknown[] }
+  | { kind: "connect"; port: MessagePort }
+  // `drain` first works through everything sent before it
+  | { kind: "stop"; drain: boolean };
+
+type Response =
+  | { kind: "result"; id: number; value: unknown }
+  | { kind: "error"; id: number; error: unknown }
+  | { kind: "crash"; actor: string; error: unknown }
+  // a command the actor doesn't have, which only its sender hears about
+  | { kind: "rejected"; error: Error }
+  | { kind: "stopped" };
+
+// what every query to an actor rejects with once one of its handlers has thrown
+export class ActorCrashed extends Error {
+  constructor(
+    public actor: string,
+    cause: unknown,
+  ) {
+    super(`actor \`${actor}\` crashed: ${cause instanceof Error ? cause.message : String(cause)}`, { cause });
+    this.name = "ActorCrashed";
+  }
+}
+
+export const browserPlatform: Platform = {
+  spawnWorker() {
+    const worker = new Worker(new URL("./worker.js", import.meta.url), { type: "module" });
+    return {
+      postMessage: (message, transfer = []) => worker.postMessage(message, transfer),
+      onMessage: handler => worker.addEventListener("message", event => handler(event.data)),
+      onError: handler => worker.addEventListener("error", event => handler(event.error ?? new Error(event.message))),
+      close: () => worker.terminate(),
+    };
+  },
+};
+
+let platform: Platform | null = typeof Worker === "undefined" ? null : browserPlatform;
+
+// node has no `Worker` global, see `./node.js`
+export function setPlatform(p: Platform) {
+  platform = p;
+}
+
+function currentPlatform(): Platform {
+  if (!platform) throw new Error("no worker platform, call `setPlatform` first");
+  return platform;
+}
+
+export interface PortLike {
+  postMessage(message: unknown, transfer: Transferable[]): void;
+  addEventListener(type: "message", listener: (event: MessageEvent) => void): void;
+  start?(): void;
+  close?(): void;
+}
+
+export function portEndpoint(port: PortLike): Endpoint {
+  return {
+    postMessage: (message, transfer = []) => port.postMessage(message, transfer),
+    onMessage: handler => {
+      port.addEventListener("message", event => handler(event.data));
+      port.start?.();
+    },
+    close: () => port.close?.(),
+  };
+}
+
+// --- handles ---
+
+const handleTag = "$ceiling.handle";
+
+type MessageName<A> = {
+  [K in keyof A]: A[K] extends (...args: any[]) => unknown ? K : never;
+}[keyof A] &
+  string;
+
+type Method<A, K extends keyof A> = A[K] extends (...args: infer P) => infer R ? { args: P; result: Awaited<R> } : never;
+
+export class Handle<A extends Actor = Actor> {
+  protected nextId = 0;
+  protected pending = new Map<number, { resolve(value: unknown): void; reject(error: unknown): void }>();
+  protected closed = false;
+  protected faulted: Error | null = null;
+  // the actor was dropped by its owner
+  protected stopped = false;
+  // set by `move`, until the handle is next sent
+  protected moving = false;
+
+  // the handle returned by `spawn` talks to the worker itself, anywhere else it is a port;
+  // handles know which actor they are for when they came from one that did. Only the owner
+  // can reset the actor, and dropping the owner ends it.
+  constructor(
+    protected endpoint: Endpoint,
+    protected actorClass?: ActorIdentity,
+    protected owner = false,
+  ) {
+    this.attach(endpoint);
+  }
+
+  protected attach(endpoint: Endpoint) {
+    this.endpoint = endpoint;
+    // anything still arriving from a worker that was reset away is stale
+    endpoint.onMessage(message => {
+      if (this.endpoint === endpoint) this.receive(message as Response);
+    });
+    if ("onError" in endpoint) {
+      (endpoint as WorkerEndpoint).onError(error => {
+        if (this.endpoint === endpoint) this.fault(new ActorCrashed(this.actorClass?.name ?? "<unknown>", error));
+      });
+    }
+  }
+
+  protected receive(response: Response) {
+    if (response.kind === "crash") {
+      this.fault(new ActorCrashed(response.actor, response.error));
+      return;
+    }
+    if (response.kind === "rejected") {
+      this.fault(response.error);
+      return;
+    }
+    if (response.kind === "stopped") {
+      this.stopped = true;
+      this.fail(new Error("actor was dropped"));
+      return;
+    }
+
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+    this.pending.delete(response.id);
+    if (response.kind === "result") {
+      pending.resolve(decode(response.value));
+    } else {
+      pending.reject(response.error);
+    }
+  }
+
+  protected request(request: Request & { id: number }): Promise<unknown> {
+    if (this.closed) return Promise.reject(new Error("handle used after drop"));
+    if (this.stopped) return Promise.reject(new Error("actor was dropped"));
+    if (this.faulted) return Promise.reject(this.faulted);
+    const transfer: Transferable[] = [];
+    const encoded = encode(request, transfer) as Request;
+    return new Promise((resolve, reject) => {
+      this.pending.set(request.id, { resolve, reject });
+      this.endpoint.postMessage(encoded, transfer);
+    });
+  }
+
+  // rejects whatever is still waiting, for when the worker is gone
+  protected fail(error: unknown) {
+    for (const pending of this.pending.values()) {
+      pending.reject(error);
+    }
+    this.pending.clear();
+  }
+
+  // the crashed worker is kept until a reset or drop, so borrowers still hear about the crash
+  protected fault(error: Error) {
+    if (this.faulted || this.closed) return;
+    this.faulted = error;
+    this.fail(error);
+  }
+
+  // the crash that took the actor down, or the bad command this handle sent, until it is reset
+  public getFault(): Error | null {
+    return this.faulted;
+  }
+
+  public getActorClass(): ActorIdentity | undefined {
+    return this.actorClass;
+  }
+
+  public markMoving() {
+    this.moving = true;
+  }
+
+  // whether this send moves the actor to the receiver, after which this handle only borrows it
+  public handOver(): boolean {
+    if (!this.moving) return false;
+    this.moving = false;
+    const owner = this.owner;
+    this.owner = false;
+    return owner;
+  }
+
+  public init(fields: object): Promise<unknown> {
+    if (!this.actorClass) throw new Error("a handle from outside the runtime can't construct an actor");
+    const { module, name } = this.actorClass;
+    return this.request({ kind: "init", id: this.nextId++, module, name, fields: { ...fields } });
+  }
+
+  public query<K extends MessageName<A>>(name: K, ...args: Method<A, K>["args"]): Promise<Method<A, K>["result"]> {
+    return this.request({ kind: "query", id: this.nextId++, name, args }) as Promise<Method<A, K>["result"]>;
+  }
+
+  // commands to a crashed or dropped actor go nowhere, like they would if it went just after
+  public command<K extends MessageName<A>>(name: K, ...args: Method<A, K>["args"]): void {
+    if (this.closed) throw new Error("handle used after drop");
+    if (this.faulted || this.stopped) return;
+    const transfer: Transferable[] = [];
+    this.endpoint.postMessage(encode({ kind: "command", name, args }, transfer), transfer);
+  }
+
+  // a fresh port to the same actor, which can be sent to another worker
+  public connect(transfer: Transferable[]): MessagePort {
+    if (this.closed) throw new Error("handle used after drop");
+    const channel = new MessageChannel();
+    this.endpoint.postMessage({ kind: "connect", port: channel.port2 } satisfies Request, [channel.port2]);
+    transfer.push(channel.port1);
+    return channel.port1;
+  }
+
+  // `this.worker.reset { ... }`: replaces the worker with a freshly constructed actor, crashed or
+  // not, and returns this same handle. Messages sent meanwhile queue behind the constructor.
+  // A handle that was sent here spawns the new worker from this thread.
+  public reset(fields: object): this {
+    if (this.closed) throw new Error("handle used after drop");
+    if (!this.owner || !this.actorClass) throw new Error("only the owning handle can reset an actor");
+
+    if (!this.faulted) this.fail(new Error("actor was reset"));
+    this.stop(false);
+    this.faulted = null;
+    this.attach(currentPlatform().spawnWorker());
+    // a constructor that throws faults the handle, which is where the error surfaces
+    this.init(fields).catch(() => {});
+    return this;
+  }
+
+  // asks the worker to stop, which tells every handle connected to it before it ends itself; the
+  // spawner still terminates it once it has, in case anything else keeps its thread alive
+  protected stop(drain: boolean) {
+    const endpoint = this.endpoint;
+    endpoint.postMessage({ kind: "stop", drain } satisfies Request);
+    if (!("onError" in endpoint)) {
+      // what was posted is still delivered
+      endpoint.close();
+      return;
+    }
+    endpoint.onMessage(message => {
+      if ((message as Response).kind === "stopped") endpoint.close();
+    });
+  }
+
+  // the owner stops the actor once it has handled everything sent to it so far, borrowed
+  // handles only close their own port; the spawner's endpoint is the worker, so it is left open
+  public drop() {
+    if (this.closed) return;
+    this.closed = true;
+    this.fail(new Error("actor was dropped"));
+    if (this.owner) {
+      this.stop(true);
+    } else if (!("onError" in this.endpoint)) {
+      this.endpoint.close();
+    }
+  }
+}
+
+// handles cross threads as ports, everything else is structured-cloned
+function encode(value: unknown, transfer: Transferable[]): unknown {
+  if (value instanceof Handle) {
+    // the class itself can't be cloned, but its identity can
+    const actorClass = value.getActorClass();
+    const identity = actorClass && { module: actorClass.module, name: actorClass.name };
+    return { [handleTag]: value.connect(transfer), actorClass: identity, owner: value.handOver() };
+  }
+  if (Array.isArray(value)) return value.map(v => encode(v, transfer));
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, encode(v, transfer)]));
+  }
+  return value;
+}
+
+function decode(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decode);
+  if (isPlainObject(value)) {
+    if (handleTag in value) {
+      const actorClass = value.actorClass as ActorIdentity | undefined;
+      return new Handle(portEndpoint(value[handleTag] as MessagePort), actorClass, value.owner === true);
+    }
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, decode(v)]));
+  }
+  return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+// --- spawning and dropping ---
+
+// `X { ... }.start()`: resolves once the actor is constructed in its worker
+export async function spawn<A extends Actor>(actor: A): Promise<Handle<A>> {
+  const handle = new Handle<A>(currentPlatform().spawnWorker(), actor.constructor as ActorClass, true);
+  try {
+    await handle.init(actor);
+  } catch (error) {
+    handle.drop();
+    throw error;
+  }
+  return handle;
+}
+
+// inserted by the compiler where an owned handle is sent to another actor, which owns it from then on
+export function move<T>(value: T): T {
+  if (value instanceof Handle) {
+    value.markMoving();
+  } else if (Array.isArray(value)) {
+    value.forEach(move);
+  } else if (value instanceof Actor || isPlainObject(value)) {
+    Object.values(value).forEach(move);
+  }
+  return value;
+}
+
+// inserted by the compiler after an owner's last use; ends the actor and everything it owns
+export function drop(value: unknown) {
+  if (value instanceof Handle) {
+    value.drop();
+  } else if (Array.isArray(value)) {
+    value.forEach(drop);
+  } else if (value instanceof Actor || isPlainObject(value)) {
+    Object.values(value).forEach(drop);
+  }
+}
+
+// --- the worker side ---
+
+interface Envelope {
+  request: Request;
+  reply: Endpoint;
+}
+
+// runs inside the worker: builds the actor from the first message, then works through its mailbox
+export function serve(parent: Endpoint) {
+  let actor: Actor | null = null;
+  let name = "<unknown>";
+  let messages: ActorClass["messages"] = {};
+  const mailbox: Envelope[] = [];
+  const endpoints: Endpoint[] = [];
+  let running = false;
+  let crashed: { error: unknown } | null = null;
+  let stopped = false;
+
+  const listen = (endpoint: Endpoint) => {
+    endpoints.push(endpoint);
+    endpoint.onMessage(message => {
+      const request = message as Request;
+      if (request.kind === "connect") {
+        listen(portEndpoint(request.port));
+        return;
+      }
+      if (crashed) {
+        // whoever hasn't heard yet is told again, rather than left waiting
+        if (request.kind === "stop") stop();
+        else respond(endpoint, { kind: "crash", actor: name, error: crashed.error });
+        return;
+      }
+      if (request.kind === "stop" && !request.drain) {
+        stop();
+        return;
+      }
+      mailbox.push({ request, reply: endpoint });
+      if (!running) void run();
+    });
+  };
+
+  // drops what the actor owns and tells everyone still holding a handle, then closing every
+  // port, the parent's included, lets the worker end
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    if (actor) drop(actor);
+    actor = null;
+    mailbox.length = 0;
+    for (const endpoint of endpoints) {
+      respond(endpoint, { kind: "stopped" });
+      endpoint.close();
+    }
+  };
+
+  const respond = (reply: Endpoint, response: Response) => {
+    const transfer: Transferable[] = [];
+    reply.postMessage(encode(response, transfer), transfer);
+  };
+
+  const handle = async ({ request, reply }: Envelope) => {
+    switch (request.kind) {
+      case "init": {
+        const module = await import(request.module);
+        // the fields were encoded from an instance of this same class
+        const cls = module[request.name] as ActorClass<unknown>;
+        name = request.name;
+        actor = new cls(decode(request.fields));
+        messages = cls.messages;
+        respond(reply, { kind: "result", id: request.id, value: undefined });
+        break;
+      }
+
+      case "query":
+      case "command": {
+        if (!actor) throw new Error("message sent before the actor was constructed");
+        if (messages[request.name] !== request.kind) {
+          // a bad message is the sender's fault, the actor carries on; a command has nothing to
+          // reject, so it faults the handle that sent it instead
+          const error = new Error(`\`${name}\` has no ${request.kind} \`${request.name}\``);
+          respond(reply, request.kind === "query" ? { kind: "error", id: request.id, error } : { kind: "rejected", error });
+          return;
+        }
+        const method = (actor as unknown as Record<string, (...args: unknown[]) => unknown>)[request.name];
+        const value = await method.apply(actor, request.args.map(decode));
+        if (request.kind === "query") respond(reply, { kind: "result", id: request.id, value });
+        break;
+      }
+
+      // after everything sent before it
+      case "stop":
+        stop();
+        break;
+    }
+  };
+
+  // one message at a time, even across awaits
+  const run = async () => {
+    running = true;
+    while (mailbox.length > 0) {
+      const envelope = mailbox.shift()!;
+      try {
+        await handle(envelope);
+      } catch (error) {
+        // a throwing handler may have left the state half-updated, so the actor is done for;
+        // everyone holding a handle hears about it, and the owner can reset it
+        crashed = { error };
+        mailbox.length = 0;
+        for (const endpoint of endpoints) {
+          respond(endpoint, { kind: "crash", actor: name, error });
+        }
+      }
+    }
+    running = false;
+  };
+
+  listen(parent);
+}
@@ -0,0 +1,8 @@
+// the entry point of every actor's worker thread
+import { parentPort } from "node:worker_threads";
+import { PortLike, portEndpoint, serve, setPlatform } from "./index.js";
+import { nodePlatform } from "./node.js";
+
+// actors spawn their own actors from here
+setPlatform(nodePlatform);
+serve(portEndpoint(parentPort as unknown as PortLike));
@@ -0,0 +1,20 @@
+// Runs actors on `worker_threads` instead of web workers:
+//
+//   import { setPlatform } from "the-ceiling/runtime";
+//   import { nodePlatform } from "the-ceiling/runtime/node";
+//   setPlatform(nodePlatform);
+
+import { Worker } from "node:worker_threads";
+import { Platform } from "./index.js";
+
+export const nodePlatform: Platform = {
+  spawnWorker() {
+    const worker = new Worker(new URL("./node-worker.js", import.meta.url));
+    return {
+      postMessage: (message, transfer = []) => worker.postMessage(message, transfer as never),
+      onMessage: handler => worker.on("message", handler),
+      onError: handler => worker.on("error", handler),
+      close: () => void worker.terminate(),
+    };
+  },
+};
@@ -0,0 +1,5 @@
+// the entry point of every actor's web worker
+import { PortLike, portEndpoint, serve } from "./index.js";
+
+// a dedicated worker's global scope is its port to the spawner
+serve(portEndpoint(self as unknown as PortLike));
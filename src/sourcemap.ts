@@ -0,0 +1,152 @@
+import { LineCol, Span } from "./diagnostics.js";
+
+// https://sourcemaps.info/spec.html, version 3
+
+export interface SourceMap {
+  version: 3;
+  file: string;
+  sourceRoot?: string;
+  sources: string[];
+  sourcesContent?: (string | null)[];
+  names: string[];
+  mappings: string;
+}
+
+interface Mapping {
+  generatedLine: number;
+  generatedColumn: number;
+  sourceLine: number;
+  sourceColumn: number;
+  name?: number;
+}
+
+const base64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+// sign in the lowest bit, then 5 bits per digit with a continuation bit
+export function encodeVLQ(value: number): string {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+  let result = "";
+  do {
+    let digit = vlq & 0b11111;
+    vlq >>>= 5;
+    if (vlq > 0) digit |= 0b100000;
+    result += base64[digit];
+  } while (vlq > 0);
+  return result;
+}
+
+export function decodeVLQ(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = base64.indexOf(char);
+    if (digit === -1) throw new Error(`invalid base64 digit \`${char}\``);
+
+    value += (digit & 0b11111) << shift;
+    if (digit & 0b100000) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+}
+
+// collects mappings from one generated file back to one `.ceiling` source
+export class SourceMapWriter {
+  protected mappings: Mapping[] = [];
+  protected names: string[] = [];
+  protected nameIndices = new Map<string, number>();
+
+  constructor(
+    protected file: string,
+    protected source: string,
+    protected lines: LineCol,
+  ) {}
+
+  public addMapping(generatedLine: number, generatedColumn: number, span: Span, name?: string) {
+    const { line, character } = this.lines.lookup(span.start);
+    const last = this.mappings[this.mappings.length - 1];
+    if (last && last.generatedLine === generatedLine && last.generatedColumn === generatedColumn) {
+      // the outermost node wins, inner nodes starting at the same place add nothing
+      return;
+    }
+
+    this.mappings.push({
+      generatedLine,
+      generatedColumn,
+      sourceLine: line,
+      sourceColumn: character,
+      name: name === undefined ? undefined : this.nameIndex(name),
+    });
+  }
+
+  // for output prepended after the fact, like imports
+  public shiftLines(count: number) {
+    for (const mapping of this.mappings) {
+      mapping.generatedLine += count;
+    }
+  }
+
+  protected nameIndex(name: string): number {
+    let index = this.nameIndices.get(name);
+    if (index === undefined) {
+      index = this.names.length;
+      this.names.push(name);
+      this.nameIndices.set(name, index);
+    }
+    return index;
+  }
+
+  protected encodeMappings(): string {
+    let result = "";
+    let line = 0;
+    let previousColumn = 0;
+    let previousSourceLine = 0;
+    let previousSourceColumn = 0;
+    let previousName = 0;
+
+    // every field but the generated column is relative to the previous segment in the file
+    for (const mapping of this.mappings) {
+      if (mapping.generatedLine !== line) {
+        result += ";".repeat(mapping.generatedLine - line);
+        line = mapping.generatedLine;
+        previousColumn = 0;
+      } else if (result.length > 0 && !result.endsWith(";")) {
+        result += ",";
+      }
+
+      result += encodeVLQ(mapping.generatedColumn - previousColumn);
+      result += encodeVLQ(0); // only ever one source
+      result += encodeVLQ(mapping.sourceLine - previousSourceLine);
+      result += encodeVLQ(mapping.sourceColumn - previousSourceColumn);
+      if (mapping.name !== undefined) {
+        result += encodeVLQ(mapping.name - previousName);
+        previousName = mapping.name;
+      }
+
+      previousColumn = mapping.generatedColumn;
+      previousSourceLine = mapping.sourceLine;
+      previousSourceColumn = mapping.sourceColumn;
+    }
+    return result;
+  }
+
+  public toJSON(): SourceMap {
+    return {
+      version: 3,
+      file: this.file,
+      sources: [this.source],
+      sourcesContent: [this.lines.getSource()],
+      names: this.names,
+      mappings: this.encodeMappings(),
+    };
+  }
+
+  public toString(): string {
+    return JSON.stringify(this.toJSON());
+  }
+}
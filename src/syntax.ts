@@ -1,20 +1,36 @@
-import { Diagnostic, Diagnostics, Severity, Span } from "./diagnostics.js";
+import { Code, Diagnostic, DiagnosticDetails, Diagnostics, Severity, Span } from "./diagnostics.js";
 import { assert } from "./util.js";
 
+// what was wrong with a string literal, which still lexes as one
+interface StringProblem {
+  message: string;
+  code: Code;
+  span: Span;
+}
+
 // prettier-ignore
 class StringScanner {
+  // only the first, since the rest are often caused by it
+  public problem: StringProblem | null = null;
+  protected terminated = false;
+
   constructor(protected src: string, public p: number) {}
 
   protected char(): string | undefined {
     return this.src[this.p];
   }
 
-  protected readHexDigits(n: number): string {
+  protected fail(message: string, start: number, end = this.p, code = Code.InvalidEscape) {
+    this.problem ??= { message, code, span: { start, end } };
+  }
+
+  protected readHexDigits(n: number, start: number): string | null {
     let result = "";
     for (let i = 0; i < n; i++) {
       const ch = this.char();
       if (ch === undefined || !/[0-9a-fA-F]/.test(ch)) {
-        throw new Error(`invalid hex escape at ${this.p}`);
+        this.fail("invalid hex escape", start);
+        return null;
       }
       result += ch;
       this.p += 1;
@@ -22,45 +38,61 @@ class StringScanner {
     return result;
   }
 
-  protected readUnicodeEscape(): string {
+  protected readUnicodeEscape(start: number): string {
     this.p += 1; // skip 'u'
     if (this.char() === "{") {
       this.p += 1; // skip {
       let hex = "";
       while (true) {
         const ch = this.char();
-        if (ch === undefined) throw new Error("unterminated unicode escape");
+        if (ch === undefined) { this.fail("unterminated unicode escape", start); return ""; }
         if (ch === "}") { this.p += 1; break; }
-        if (!/[0-9a-fA-F]/.test(ch)) throw new Error(`invalid unicode at ${this.p}`);
+        if (!/[0-9a-fA-F]/.test(ch)) { this.fail("invalid unicode escape", start, this.p + 1); return ""; }
         hex += ch;
         this.p += 1;
       }
-      return String.fromCodePoint(parseInt(hex, 16));
+      const codePoint = parseInt(hex, 16);
+      if (!(codePoint <= 0x10ffff)) { this.fail("invalid unicode escape", start); return ""; }
+      return String.fromCodePoint(codePoint);
     }
-    return String.fromCharCode(parseInt(this.readHexDigits(4), 16));
+    const hex = this.readHexDigits(4, start);
+    return hex === null ? "" : String.fromCharCode(parseInt(hex, 16));
   }
 
-  protected readHexEscape(): string {
+  protected readHexEscape(start: number): string {
     this.p += 1; // skip 'x'
-    return String.fromCharCode(parseInt(this.readHexDigits(2), 16));
+    const hex = this.readHexDigits(2, start);
+    return hex === null ? "" : String.fromCharCode(parseInt(hex, 16));
   }
 
+  // an unterminated string ends at its first line break, so the rest of the file still lexes
   public scanString(): string {
+    const start = this.p;
+    const value = this.scanUntil(this.src.length);
+    const lineBreak = this.src.slice(start).search(/[\r\n]/);
+    if (this.terminated || lineBreak < 0) return value;
+    this.p = start;
+    this.problem = null;
+    return this.scanUntil(start + lineBreak);
+  }
+
+  protected scanUntil(end: number): string {
+    const start = this.p;
     const quote = this.char();
-    if (quote !== '"' && quote !== "'") {
-      throw new Error(`expected string literal at ${this.p}`);
-    }
+    assert(quote === '"' || quote === "'", "expected string literal");
     this.p += 1; // skip opening quote
+    this.terminated = false;
 
     let value = "";
     while (true) {
       const ch = this.char();
-      if (ch === undefined) throw new Error("unterminated string literal");
-      if (ch === quote) { this.p += 1; break; }
+      if (this.p >= end || ch === undefined) { this.fail("unterminated string literal", start, this.p, Code.UnterminatedString); break; }
+      if (ch === quote) { this.p += 1; this.terminated = true; break; }
       if (ch === "\\") {
+        const escape = this.p;
         this.p += 1;
         const esc = this.char();
-        if (esc === undefined) throw new Error("bad escape at <eof>");
+        if (esc === undefined) continue;
         switch (esc) {
           case "n": value += "\n"; this.p += 1; break;
           case "r": value += "\r"; this.p += 1; break;
@@ -68,8 +100,8 @@ class StringScanner {
           case "\\": value += "\\"; this.p += 1; break;
           case "\"": value += "\""; this.p += 1; break;
           case "'": value += "'"; this.p += 1; break;
-          case "u": value += this.readUnicodeEscape(); break;
-          case "x": value += this.readHexEscape(); break;
+          case "u": value += this.readUnicodeEscape(escape); break;
+          case "x": value += this.readHexEscape(escape); break;
           default: value += esc; this.p += 1; break;
         }
       } else {
@@ -99,14 +131,25 @@ export enum TokenKind {
   RBracket,
   LAngle,
   RAngle,
+  LAngleEquals,
+  RAngleEquals,
   Arrow,
   Plus,
   Minus,
   Star,
   Slash,
+  Percent,
+  PlusEquals,
+  MinusEquals,
+  StarEquals,
+  SlashEquals,
+  PercentEquals,
+  Amp,
   AmpAmp,
+  Pipe,
   PipePipe,
   Exclaim,
+  Question,
 
   // literals
   Number,
@@ -118,23 +161,53 @@ export enum TokenKind {
   Await,
   Command,
   Const,
+  Ctx,
   Function,
   Handle,
   If,
   Else,
+  While,
+  For,
+  Try,
+  Catch,
   Let,
+  New,
+  Owned,
+  Private,
   Query,
   Read,
   Return,
   Struct,
   This,
+  Throw,
+  Throws,
   Unique,
+
+  // trivia, which the parser never sees
+  Whitespace,
+  Newline,
+  LineComment,
+  BlockComment,
+  EndOfFile, // holds the trivia after the last token
 }
 
+type SimpleTokenKind = Exclude<TokenKind, TokenKind.Number | TokenKind.String>;
+
 type Token =
-  | { kind: Exclude<TokenKind, TokenKind.Number | TokenKind.String>; start: number; end: number }
+  | { kind: SimpleTokenKind; start: number; end: number }
   | { kind: TokenKind.Number; start: number; end: number; value: number }
-  | { kind: TokenKind.String; start: number; end: number; value: string };
+  | { kind: TokenKind.String; start: number; end: number; value: string; problem?: StringProblem };
+
+export type TriviaKind = TokenKind.Whitespace | TokenKind.Newline | TokenKind.LineComment | TokenKind.BlockComment;
+
+export interface Trivia {
+  kind: TriviaKind;
+  start: number;
+  end: number;
+}
+
+// trailing trivia is whatever follows a token on its own line, and leading trivia the rest
+export type TokenWithTrivia = Token & { leading: Trivia[]; trailing: Trivia[] };
 
 export class Lexer {
   protected p = 0;
@@ -171,19 +244,49 @@ export class Lexer {
     return output;
   }
 
-  protected skipWhitespace() {
-    while (true) {
-      switch (this.char()) {
-        case " ":
-        case "\t":
-        case "\r":
-        case "\n":
-          this.p += 1;
-          break;
-        default:
-          return;
-      }
+  protected atComment(): boolean {
+    return this.char() === "/" && (this.src[this.p + 1] === "/" || this.src[this.p + 1] === "*");
+  }
+
+  // one run of spaces, a line break or a comment
+  protected trivia(): Trivia | null {
+    const start = this.p;
+    switch (this.char()) {
+      case " ":
+      case "\t":
+        while (this.char() === " " || this.char() === "\t") this.p += 1;
+        return this.spanned({ kind: TokenKind.Whitespace as const }, start, this.p);
+      case "\r":
+        this.p += this.src[this.p + 1] === "\n" ? 2 : 1;
+        return this.spanned({ kind: TokenKind.Newline as const }, start, this.p);
+      case "\n":
+        this.p += 1;
+        return this.spanned({ kind: TokenKind.Newline as const }, start, this.p);
     }
+    if (!this.atComment()) return null;
+
+    if (this.src[this.p + 1] === "/") {
+      while (!this.done() && this.char() !== "\n" && this.char() !== "\r") this.p += 1;
+      return this.spanned({ kind: TokenKind.LineComment as const }, start, this.p);
+    }
+    // an unterminated block comment runs to the end
+    const end = this.src.indexOf("*/", this.p + 2);
+    this.p = end < 0 ? this.src.length : end + 2;
+    return this.spanned({ kind: TokenKind.BlockComment as const }, start, this.p);
+  }
+
+  protected skipTrivia() {
+    while (this.trivia());
+  }
+
+  // lexes an operator that may be followed by `=`, e.g. `+` and `+=`
+  protected withEquals(start: number, kind: SimpleTokenKind, equalsKind: SimpleTokenKind): Token {
+    this.p += 1;
+    if (this.char() === "=") {
+      this.p += 1;
+      return this.spanned({ kind: equalsKind }, start, this.p);
+    }
+    return this.spanned({ kind }, start, this.p);
   }
 
   protected token(): Token | null {
@@ -207,6 +310,9 @@ export class Lexer {
           return this.spanned({ kind: TokenKind.NotEquals }, start, this.p);
         }
         return this.spanned({ kind: TokenKind.Exclaim }, start, this.p);
+      case "?":
+        this.p += 1;
+        return this.spanned({ kind: TokenKind.Question }, start, this.p);
       case ":":
         this.p += 1;
         return this.spanned({ kind: TokenKind.Colon }, start, this.p);
@@ -238,44 +344,43 @@ export class Lexer {
         this.p += 1;
         return this.spanned({ kind: TokenKind.RBracket }, start, this.p);
       case "<":
-        this.p += 1;
-        return this.spanned({ kind: TokenKind.LAngle }, start, this.p);
+        return this.withEquals(start, TokenKind.LAngle, TokenKind.LAngleEquals);
       case ">":
-        this.p += 1;
-        return this.spanned({ kind: TokenKind.RAngle }, start, this.p);
+        return this.withEquals(start, TokenKind.RAngle, TokenKind.RAngleEquals);
       case "+":
-        this.p += 1;
-        return this.spanned({ kind: TokenKind.Plus }, start, this.p);
+        return this.withEquals(start, TokenKind.Plus, TokenKind.PlusEquals);
       case "-":
-        this.p += 1;
-        return this.spanned({ kind: TokenKind.Minus }, start, this.p);
+        return this.withEquals(start, TokenKind.Minus, TokenKind.MinusEquals);
       case "*":
-        this.p += 1;
-        return this.spanned({ kind: TokenKind.Star }, start, this.p);
+        return this.withEquals(start, TokenKind.Star, TokenKind.StarEquals);
       case "/":
-        this.p += 1;
-        return this.spanned({ kind: TokenKind.Slash }, start, this.p);
-      case "&": // FIXME
+        return this.withEquals(start, TokenKind.Slash, TokenKind.SlashEquals);
+      case "%":
+        return this.withEquals(start, TokenKind.Percent, TokenKind.PercentEquals);
+      case "&":
         this.p += 1;
         if (this.char() === "&") {
           this.p += 1;
           return this.spanned({ kind: TokenKind.AmpAmp }, start, this.p);
         }
-        return null;
+        return this.spanned({ kind: TokenKind.Amp }, start, this.p);
       case "|":
         this.p += 1;
         if (this.char() === "|") {
           this.p += 1;
           return this.spanned({ kind: TokenKind.PipePipe }, start, this.p);
         }
-        return null;
+        return this.spanned({ kind: TokenKind.Pipe }, start, this.p);
       case "'":
       case '"': {
         const scanner = new StringScanner(this.src, this.p);
         const value = scanner.scanString();
         const end = scanner.p;
         this.p = end;
-        return this.spanned({ kind: TokenKind.String, value }, start, end);
+        if (!scanner.problem) return this.spanned({ kind: TokenKind.String, value }, start, end);
+        const { span } = scanner.problem;
+        const problem = { ...scanner.problem, span: { start: span.start + this.start, end: span.end + this.start } };
+        return this.spanned({ kind: TokenKind.String, value, problem }, start, end);
       }
     }
     return null;
@@ -283,7 +388,7 @@ export class Lexer {
 
   public *run(): Generator<Token, void, unknown> {
     while (true) {
-      this.skipWhitespace();
+      this.skipTrivia();
       const maybeToken = this.token();
       if (maybeToken) {
         yield maybeToken;
@@ -322,6 +427,10 @@ export class Lexer {
             yield this.spanned({ kind: TokenKind.Dot }, this.p, ++this.p);
             break ident;
           default: {
+            if (this.atComment()) {
+              yield this.processIdent(start, this.p);
+              break ident;
+            }
             if (!isNumber(c)) {
               isNumberSoFar = false;
             }
@@ -343,6 +452,37 @@ export class Lexer {
     }
   }
 
+  // every token along with the trivia around it, then an `EndOfFile` token
+  public *runWithTrivia(): Generator<TokenWithTrivia, void, unknown> {
+    let previous: TokenWithTrivia | null = null;
+    let gapStart = this.start;
+
+    // trivia between two tokens only ever lexes as trivia
+    const split = (end: number): Trivia[] => {
+      const lexer = new Lexer(this.totalSrc, gapStart, end);
+      const trivia: Trivia[] = [];
+      for (let t; (t = lexer.trivia()); ) trivia.push(t);
+      if (!previous) return trivia;
+
+      const newline = trivia.findIndex(t => t.kind === TokenKind.Newline);
+      const trailing = newline < 0 ? trivia.length : newline;
+      previous.trailing = trivia.slice(0, trailing);
+      return trivia.slice(trailing);
+    };
+
+    for (const token of this.run()) {
+      const leading = split(token.start);
+      if (previous) yield previous;
+      previous = { ...token, leading, trailing: [] };
+      gapStart = token.end;
+    }
+
+    const end = this.start + this.src.length;
+    const leading = split(end);
+    if (previous) yield previous;
+    yield { kind: TokenKind.EndOfFile, start: end, end, leading, trailing: [] };
+  }
+
   protected processIdent(start: number, end: number): Token {
     const content = this.src.slice(start, end);
     switch (content) {
@@ -352,10 +492,16 @@ export class Lexer {
         return this.spanned({ kind: TokenKind.Await }, start, end);
       case "command":
         return this.spanned({ kind: TokenKind.Command }, start, end);
+      case "catch":
+        return this.spanned({ kind: TokenKind.Catch }, start, end);
       case "const":
         return this.spanned({ kind: TokenKind.Const }, start, end);
+      case "ctx":
+        return this.spanned({ kind: TokenKind.Ctx }, start, end);
       case "else":
         return this.spanned({ kind: TokenKind.Else }, start, end);
+      case "for":
+        return this.spanned({ kind: TokenKind.For }, start, end);
       case "function":
         return this.spanned({ kind: TokenKind.Function }, start, end);
       case "handle":
@@ -364,6 +510,12 @@ export class Lexer {
         return this.spanned({ kind: TokenKind.If }, start, end);
       case "let":
         return this.spanned({ kind: TokenKind.Let }, start, end);
+      case "new":
+        return this.spanned({ kind: TokenKind.New }, start, end);
+      case "owned":
+        return this.spanned({ kind: TokenKind.Owned }, start, end);
+      case "private":
+        return this.spanned({ kind: TokenKind.Private }, start, end);
       case "query":
         return this.spanned({ kind: TokenKind.Query }, start, end);
       case "read":
@@ -374,8 +526,16 @@ export class Lexer {
         return this.spanned({ kind: TokenKind.Struct }, start, end);
       case "this":
         return this.spanned({ kind: TokenKind.This }, start, end);
+      case "throw":
+        return this.spanned({ kind: TokenKind.Throw }, start, end);
+      case "throws":
+        return this.spanned({ kind: TokenKind.Throws }, start, end);
+      case "try":
+        return this.spanned({ kind: TokenKind.Try }, start, end);
       case "unique":
         return this.spanned({ kind: TokenKind.Unique }, start, end);
+      case "while":
+        return this.spanned({ kind: TokenKind.While }, start, end);
       case "NaN":
         return this.spanned({ kind: TokenKind.Number, value: NaN }, start, end);
     }
@@ -388,36 +548,63 @@ export class Lexer {
 }
 
 // TODO: graph search / generalized scanner?
-// TODO: option to cache tokens?
 // TODO: support for named parameters? e.g. struct Example { a: number, b: number } { /* ... */ }
 export class IslandScanner {
   protected tokens: Generator<Token, void, unknown>;
+  protected pending: Token | null = null;
+  protected lastEnd = 0;
 
-  constructor(protected src: string) {
-    const lexer = new Lexer(this.src);
+  // `start` must be a token boundary, like the end of an island
+  constructor(protected src: string, start = 0) {
+    const lexer = new Lexer(this.src, start);
     this.tokens = lexer.run();
+    this.lastEnd = start;
   }
 
   public scan(): string[] {
-    const islands: string[] = [];
+    return this.islands().map(span => this.src.slice(span.start, span.end));
+  }
 
-    for (const token of this.tokens) {
+  public islands(): Span[] {
+    return [...this.scanIslands()];
+  }
+
+  // malformed islands are kept, ending right before the next island or at <eof>
+  public *scanIslands(): Generator<Span, void, unknown> {
+    let token;
+    while ((token = this.nextToken())) {
       if (this.isIslandStart(token.kind)) {
         const start = token.start;
 
-        try {
-          this.findNextTopLevelBrace();
-          const end = this.findMatchingBrace();
-
-          islands.push(this.src.slice(start, end));
-        } catch (e) {
-          // malformed island - skip it
-          continue;
+        // `actor struct` is a single island
+        if (token.kind === TokenKind.Actor) {
+          const next = this.nextToken();
+          if (next && next.kind !== TokenKind.Struct) this.pending = next;
         }
+
+        const end = this.findNextTopLevelBrace() ? this.findMatchingBrace() : this.lastEnd;
+        yield { start, end };
       }
     }
+  }
+
+  protected nextToken(): Token | null {
+    if (this.pending) {
+      const token = this.pending;
+      this.pending = null;
+      this.lastEnd = token.end;
+      return token;
+    }
+
+    const result = this.tokens.next();
+    if (result.done) return null;
+    this.lastEnd = result.value.end;
+    return result.value;
+  }
 
-    return islands;
+  // puts back a token that starts the next island
+  protected pushBack(token: Token) {
+    this.pending = token;
   }
 
   protected isIslandStart(kind: TokenKind): boolean {
@@ -430,13 +617,20 @@ export class IslandScanner {
     );
   }
 
-  protected findNextTopLevelBrace(): number {
+  protected findNextTopLevelBrace(): boolean {
     let depth = { paren: 0, angle: 0 };
+    let previous: Token | null = null;
 
     while (true) {
-      const result = this.tokens.next();
-      if (result.done) throw new Error("expected body brace");
-      const tok = result.value;
+      const end = this.lastEnd;
+      const tok = this.nextToken();
+      if (!tok) return false; // expected body brace
+
+      if (this.isIslandStart(tok.kind)) {
+        this.pushBack(tok);
+        this.lastEnd = end;
+        return false;
+      }
 
       // track nesting depths
       if (tok.kind === TokenKind.LParen) depth.paren++;
@@ -444,10 +638,13 @@ export class IslandScanner {
       if (tok.kind === TokenKind.LAngle) depth.angle++;
       if (tok.kind === TokenKind.RAngle) depth.angle--;
 
-      // top-level brace (not in params/generics)
+      // top-level brace (not in params/generics), but a `ctx { ... }` signature comes before the body
       if (tok.kind === TokenKind.LBrace && depth.paren === 0 && depth.angle === 0) {
-        return tok.start;
+        if (previous?.kind !== TokenKind.Ctx) return true;
+        this.findMatchingBrace();
+        if (this.pending) return false; // the signature ran into the next island
       }
+      previous = tok;
     }
   }
 
@@ -455,12 +652,14 @@ export class IslandScanner {
     let braceDepth = 1; // already consumed the opening {
 
     while (true) {
-      const result = this.tokens.next();
-      if (result.done) throw new Error("unmatched brace");
-      const tok = result.value;
+      const end = this.lastEnd;
+      const tok = this.nextToken();
+      if (!tok) return end; // unmatched brace
 
       if (this.isIslandStart(tok.kind)) {
-        return tok.start;
+        this.pushBack(tok);
+        this.lastEnd = end;
+        return end;
       }
 
       if (tok.kind === TokenKind.LBrace) braceDepth++;
@@ -487,6 +686,11 @@ export enum BinaryOp {
   NotEquals,
   And,
   Or,
+  Less,
+  Greater,
+  LessEquals,
+  GreaterEquals,
+  Modulo,
 }
 
 export enum ASTSort {
@@ -504,39 +708,87 @@ export enum ASTKind {
   NumberLiteral,
   StringLiteral,
   Call,
+  MemberAccess,
+  Index,
+  Assign,
+  CompoundAssign,
+  ArrayLiteral,
+  StructLiteral,
+  ResetLiteral,
+  Await,
+  New,
 
   // statements
   Let,
   Const,
   Return,
+  Throw,
   ExprStmt,
+  Block,
+  If,
+  While,
+  ForOf,
+  Try,
+  CtxBlock,
+  Drop, // inserted by liveness analysis, never parsed
 
   // types
   HandleType,
+  PlacePath,
+  OwnedType,
+  GenericType,
+  ArrayType,
+  UnionType,
+  IntersectionType,
+  FunctionType,
+  PlaceTuple,
 
   // declarations
   FunctionDecl,
+  StructDecl,
+  FieldDecl,
+  QueryDecl,
+  CommandDecl,
+  Module,
 
   // other
   Error,
 }
 
-type Identifier = { kind: ASTKind.Identifier; name: string; span: Span };
-type ASTError = { kind: ASTKind.Error; diagnostic: Diagnostic; span: Span };
+export type Identifier = { kind: ASTKind.Identifier; name: string; span: Span };
+export type ASTError = { kind: ASTKind.Error; diagnostic: Diagnostic; span: Span };
 
-function isError(node: Object): node is ASTError {
+export function isError(node: Object): node is ASTError {
   return "kind" in node && node.kind === ASTKind.Error;
 }
 
+// whether a parsed node knows where it is, which tokens and lists don't
+function hasSpan(node: Object): node is { span: Span } {
+  return "span" in node && typeof node.span === "object" && node.span !== null;
+}
+
 export type Expr =
   | { kind: ASTKind.Unary; op: UnaryOp; right: Expr; span: Span }
   | { kind: ASTKind.Binary; left: Expr; op: BinaryOp; right: Expr; span: Span }
   | Identifier
   | { kind: ASTKind.NumberLiteral; value: number; span: Span }
   | { kind: ASTKind.StringLiteral; value: string; span: Span }
-  | { kind: ASTKind.Call; callee: Expr; args: Expr[]; span: Span }
+  // `x.f(y)` is sugar for `f(x, y)`, marked with `ufcs`
+  | { kind: ASTKind.Call; callee: Expr; args: Expr[]; ufcs: boolean; span: Span }
+  | { kind: ASTKind.MemberAccess; object: Expr; member: Identifier; span: Span }
+  | { kind: ASTKind.Index; object: Expr; index: Expr; span: Span }
+  | { kind: ASTKind.Assign; target: Expr; value: Expr; span: Span }
+  | { kind: ASTKind.CompoundAssign; op: BinaryOp; target: Expr; value: Expr; span: Span }
+  | { kind: ASTKind.ArrayLiteral; elements: Expr[]; span: Span }
+  | { kind: ASTKind.StructLiteral; type: Identifier; fields: FieldInit[]; span: Span }
+  | { kind: ASTKind.ResetLiteral; target: Expr; fields: FieldInit[]; span: Span }
+  | { kind: ASTKind.Await; value: Expr; span: Span }
+  | { kind: ASTKind.New; type: Identifier; args: Expr[]; span: Span }
   | ASTError;
 
+// `name: value`, or just `name` when shorthand
+export type FieldInit = { name: Identifier | ASTError; value: Expr; shorthand: boolean; span: Span } | ASTError;
+
 function isExpr(node: { kind: ASTKind }): node is Expr {
   switch (node.kind) {
     case ASTKind.Unary:
@@ -545,37 +797,188 @@ function isExpr(node: { kind: ASTKind }): node is Expr {
     case ASTKind.NumberLiteral:
     case ASTKind.StringLiteral:
     case ASTKind.Call:
+    case ASTKind.MemberAccess:
+    case ASTKind.Index:
+    case ASTKind.Assign:
+    case ASTKind.CompoundAssign:
+    case ASTKind.ArrayLiteral:
+    case ASTKind.StructLiteral:
+    case ASTKind.ResetLiteral:
+    case ASTKind.Await:
+    case ASTKind.New:
       return true;
   }
   return false;
 }
 
+// calls `f` on an expression and everything nested in it
+export function visitExpr(expr: Expr, f: (expr: Expr) => boolean | void) {
+  if (f(expr) === false) return;
+  const visit = (e: Expr) => visitExpr(e, f);
+
+  switch (expr.kind) {
+    case ASTKind.Unary:
+      visit(expr.right);
+      break;
+    case ASTKind.Binary:
+      visit(expr.left);
+      visit(expr.right);
+      break;
+    case ASTKind.Call:
+      visit(expr.callee);
+      expr.args.forEach(visit);
+      break;
+    case ASTKind.MemberAccess:
+      visit(expr.object);
+      break;
+    case ASTKind.Index:
+      visit(expr.object);
+      visit(expr.index);
+      break;
+    case ASTKind.Assign:
+    case ASTKind.CompoundAssign:
+      visit(expr.target);
+      visit(expr.value);
+      break;
+    case ASTKind.ArrayLiteral:
+      expr.elements.forEach(visit);
+      break;
+    case ASTKind.StructLiteral:
+    case ASTKind.ResetLiteral:
+      if (expr.kind === ASTKind.ResetLiteral) visit(expr.target);
+      for (const init of expr.fields) {
+        if (!isError(init)) visit(init.value);
+      }
+      break;
+    case ASTKind.Await:
+      visit(expr.value);
+      break;
+    case ASTKind.New:
+      expr.args.forEach(visit);
+      break;
+  }
+}
+
+export type Block = { kind: ASTKind.Block; stmts: Stmt[]; span: Span };
+
 export type Stmt =
   | { kind: ASTKind.Let; binding: Binding; init: Expr; span: Span }
   | { kind: ASTKind.Const; binding: Binding; init: Expr; span: Span }
-  | { kind: ASTKind.Return; value?: Expr; span: Span }
+  // `return ?` returns the condition of the enclosing `if`
+  | { kind: ASTKind.Return; value?: Expr; condition?: true; span: Span }
+  | { kind: ASTKind.Throw; value: Expr; span: Span }
   | { kind: ASTKind.ExprStmt; expr: Expr; span: Span }
+  | Block
+  | { kind: ASTKind.If; cond: Expr; then: Stmt; else?: Stmt; span: Span }
+  | { kind: ASTKind.While; cond: Expr; body: Stmt; span: Span }
+  | { kind: ASTKind.ForOf; isConst: boolean; binding: Binding; iterable: Expr; body: Stmt; span: Span }
+  | { kind: ASTKind.Try; body: Block | ASTError; binding?: Binding; handler: Block; span: Span }
+  // `ctx { name = value } { ... }` runs the body with some ctx fields replaced
+  | { kind: ASTKind.CtxBlock; fields: FieldInit[]; body: Block; span: Span }
+  | { kind: ASTKind.Drop; target: Identifier; span: Span }
   | ASTError;
 
+// whether a body awaits anything, which makes it an async function
+export function containsAwait(stmts: Stmt[]): boolean {
+  let found = false;
+  const visit = (expr: Expr) =>
+    visitExpr(expr, e => {
+      if (e.kind === ASTKind.Await) found = true;
+    });
+
+  const visitStmt = (stmt: Stmt) => {
+    switch (stmt.kind) {
+      case ASTKind.Let:
+      case ASTKind.Const:
+        visit(stmt.init);
+        break;
+      case ASTKind.Return:
+        if (stmt.value) visit(stmt.value);
+        break;
+      case ASTKind.Throw:
+        visit(stmt.value);
+        break;
+      case ASTKind.ExprStmt:
+        visit(stmt.expr);
+        break;
+      case ASTKind.Block:
+        stmt.stmts.forEach(visitStmt);
+        break;
+      case ASTKind.If:
+        visit(stmt.cond);
+        visitStmt(stmt.then);
+        if (stmt.else) visitStmt(stmt.else);
+        break;
+      case ASTKind.While:
+        visit(stmt.cond);
+        visitStmt(stmt.body);
+        break;
+      case ASTKind.ForOf:
+        visit(stmt.iterable);
+        visitStmt(stmt.body);
+        break;
+      case ASTKind.Try:
+        if (!isError(stmt.body)) visitStmt(stmt.body);
+        visitStmt(stmt.handler);
+        break;
+      case ASTKind.CtxBlock:
+        stmt.fields.forEach(init => !isError(init) && visit(init.value));
+        visitStmt(stmt.body);
+        break;
+    }
+  };
+
+  stmts.forEach(visitStmt);
+  return found;
+}
+
 function isStmt(node: { kind: ASTKind }): node is Stmt {
   switch (node.kind) {
     case ASTKind.Let:
     case ASTKind.Const:
     case ASTKind.Return:
+    case ASTKind.Throw:
     case ASTKind.ExprStmt:
+    case ASTKind.Block:
+    case ASTKind.If:
+    case ASTKind.While:
+    case ASTKind.ForOf:
+    case ASTKind.Try:
+    case ASTKind.CtxBlock:
+    case ASTKind.Drop:
       return true;
   }
   return false;
 }
+
+// a place names a local or a path through fields, e.g. `a` or `this.a`
+export type Place = Identifier | { kind: ASTKind.PlacePath; root: Identifier; fields: Identifier[]; span: Span };
+
 export type TypeExpr =
   | Identifier
-  | { kind: ASTKind.HandleType; unique: boolean; lifetimes: Identifier[]; inner: TypeExpr; span: Span }
+  | { kind: ASTKind.HandleType; unique: boolean; lifetimes: Place[]; inner: TypeExpr; span: Span }
+  | { kind: ASTKind.OwnedType; inner: TypeExpr; span: Span }
+  | { kind: ASTKind.GenericType; base: Identifier; args: TypeArg[]; span: Span }
+  | { kind: ASTKind.ArrayType; element: TypeExpr; span: Span }
+  | { kind: ASTKind.UnionType; types: TypeExpr[]; span: Span }
+  | { kind: ASTKind.IntersectionType; types: TypeExpr[]; span: Span }
+  | { kind: ASTKind.FunctionType; params: Binding[]; returnType: TypeExpr; span: Span }
   | ASTError;
 
+export type PlaceTuple = { kind: ASTKind.PlaceTuple; places: Place[]; span: Span };
+
+export type TypeArg = TypeExpr | PlaceTuple;
+
 function isTypeExpr(node: { kind: ASTKind }): node is TypeExpr {
   switch (node.kind) {
     case ASTKind.Identifier:
     case ASTKind.HandleType:
+    case ASTKind.OwnedType:
+    case ASTKind.GenericType:
+    case ASTKind.ArrayType:
+    case ASTKind.UnionType:
+    case ASTKind.IntersectionType:
+    case ASTKind.FunctionType:
       return true;
   }
   return false;
@@ -589,39 +992,119 @@ export type Binding =
     }
   | ASTError;
 
+// `ctx { name: Type = default }` after a function's return type
+export type CtxSignature = { fields: FieldDecl[]; span: Span };
+
 export type FunctionDecl = {
   kind: ASTKind.FunctionDecl;
   name: Identifier | ASTError;
   params: Binding[];
   returnType?: TypeExpr;
+  throws?: TypeExpr;
+  ctx?: CtxSignature;
   body: Stmt[] | ASTError;
   span: Span;
 };
 
-export type Decl = FunctionDecl | ASTError;
+export enum FieldModifier {
+  None,
+  Read,
+  Private,
+}
+
+export type FieldDecl =
+  | {
+      kind: ASTKind.FieldDecl;
+      modifier: FieldModifier;
+      binding: Binding;
+      init?: Expr;
+      span: Span;
+    }
+  | ASTError;
+
+export type StructDecl = {
+  kind: ASTKind.StructDecl;
+  actor: boolean;
+  name: Identifier | ASTError;
+  fields: FieldDecl[];
+  span: Span;
+};
+
+// `query Actor.name()` and `command Actor.name()` handlers
+export type MessageDecl = {
+  kind: ASTKind.QueryDecl | ASTKind.CommandDecl;
+  receiver: Identifier | ASTError;
+  name: Identifier | ASTError;
+  params: Binding[];
+  returnType?: TypeExpr;
+  throws?: TypeExpr;
+  body: Stmt[] | ASTError;
+  span: Span;
+};
+
+export type Decl = FunctionDecl | StructDecl | MessageDecl | ASTError;
+
+export type Module = {
+  kind: ASTKind.Module;
+  decls: Decl[];
+  span: Span;
+};
 
 // -----------
 
+// closers that are easy to forget, and can be put back when nothing after them could continue
+const insertableClosers = new Map([
+  [TokenKind.Semicolon, ";"],
+  [TokenKind.RParen, ")"],
+]);
+
 class ParserBase {
   public allDiags: Diagnostic[] = [];
   protected token: Token | null = null;
+  // where the last consumed token ended
+  protected previousEnd = 0;
+  protected lookahead: Token[] = [];
   protected src: string;
   protected endOfSrc: number;
 
-  constructor(public diag: Diagnostics, protected tokens: Generator<Token, void, unknown>) {
+  constructor(
+    public diag: Diagnostics,
+    protected tokens: Generator<Token, void, unknown>,
+    endOfSrc = diag.getSource().length
+  ) {
     this.src = diag.getSource();
-    this.endOfSrc = this.src.length;
+    this.endOfSrc = endOfSrc;
     this.next();
   }
 
   protected next() {
-    const { value, done } = this.tokens.next();
-    if (done) {
-      this.token = null;
-    } else {
-      assert(value !== undefined, "value should not be undefined");
-      this.token = value;
+    if (this.token) this.previousEnd = this.token.end;
+    const buffered = this.lookahead.shift();
+    if (buffered) {
+      this.token = buffered;
+      return;
     }
+
+    this.token = this.pull();
+  }
+
+  // peeks `n` tokens past the current one without consuming anything
+  protected peek(n = 1): Token | null {
+    while (this.lookahead.length < n) {
+      const token = this.pull();
+      if (!token) return null;
+      this.lookahead.push(token);
+    }
+    return this.lookahead[n - 1];
+  }
+
+  // the next token from the lexer, reporting what was wrong with it, if anything
+  protected pull(): Token | null {
+    const { value, done } = this.tokens.next();
+    if (done) return null;
+    assert(value !== undefined, "value should not be undefined");
+    if (value.kind === TokenKind.String && value.problem) this.report(value.problem.span, value.problem.message, { code: value.problem.code });
+    return value;
   }
 
   protected eofSpan(): Span {
@@ -633,6 +1116,10 @@ class ParserBase {
     return this.eofSpan();
   }
 
+  protected is(kind: TokenKind): boolean {
+    return this.token?.kind === kind;
+  }
+
   protected consume(kind: TokenKind): boolean {
     if (this.token?.kind === kind) {
       this.next();
@@ -650,19 +1137,44 @@ class ParserBase {
     return null;
   }
 
-  protected expect(kind: TokenKind, forMsg: string): Token | ASTError {
+  protected consumeContextual(keyword: string): boolean {
+    if (this.token?.kind === TokenKind.Identifier && this.src.slice(this.token.start, this.token.end) === keyword) {
+      this.next();
+      return true;
+    }
+    return false;
+  }
+
+  // `insert` is what a fix puts after the previous token, if the expected token is missing
+  protected expect(
+    kind: TokenKind,
+    forMsg: string,
+    insert = this.atLineEnd() ? insertableClosers.get(kind) : undefined,
+  ): Token | ASTError {
+    const details = { code: Code.UnexpectedToken, ...(insert === undefined ? {} : this.insertion(insert)) };
     if (this.token) {
       if (this.token.kind === kind) {
         let token = this.token;
         this.next();
         return token;
       }
-      return this.error(this.span, `expected ${TokenKind[kind]} ${forMsg}, got ${TokenKind[this.token.kind]}`);
+      return this.error(this.span, `expected ${TokenKind[kind]} ${forMsg}, got ${TokenKind[this.token.kind]}`, details);
     } else {
-      return this.error(this.span, `expected ${TokenKind[kind]} ${forMsg}, got <eof>`);
+      return this.error(this.span, `expected ${TokenKind[kind]} ${forMsg}, got <eof>`, details);
     }
   }
 
+  // whether the current token can't be continuing what came before it
+  protected atLineEnd(): boolean {
+    if (!this.token || this.token.kind === TokenKind.Semicolon || this.token.kind === TokenKind.RBrace) return true;
+    return this.src.slice(this.previousEnd, this.token.start).includes("\n");
+  }
+
+  protected insertion(text: string): DiagnosticDetails {
+    const at = { start: this.previousEnd, end: this.previousEnd };
+    return { fixes: [{ title: `insert \`${text.trim()}\``, edits: [{ span: at, text }] }] };
+  }
+
   protected expectIdentifier(): Identifier | ASTError {
     if (this.token) {
       if (this.token.kind === TokenKind.Identifier) {
@@ -670,25 +1182,28 @@ class ParserBase {
         this.next();
         return { kind: ASTKind.Identifier, name: this.src.slice(span.start, span.end), span };
       }
-      return this.error(this.span, `expected identifier, got ${TokenKind[this.token.kind]}`);
+      return this.error(this.span, `expected identifier, got ${TokenKind[this.token.kind]}`, { code: Code.UnexpectedToken });
     } else {
-      return this.error(this.span, `expected identifier, got <eof>`);
+      return this.error(this.span, `expected identifier, got <eof>`, { code: Code.UnexpectedToken });
     }
   }
 
   protected recoverySet: Set<TokenKind> = new Set();
   protected inRecovery = false;
+  protected lastError: ASTError | null = null;
 
-  protected error(span: Span, message: string): ASTError {
-    const diagnostic: Diagnostic = {
-      range: this.diag.getRange(span),
-      severity: Severity.Error,
-      message,
-      source: "the-ceiling",
-    };
+  // reports a diagnostic without entering recovery
+  protected report(span: Span, message: string, details: DiagnosticDetails = {}): Diagnostic {
+    const diagnostic = this.diag.createDiagnostic(span, message, Severity.Error, details);
     this.allDiags.push(diagnostic);
+    return diagnostic;
+  }
+
+  protected error(span: Span, message: string, details: DiagnosticDetails = {}): ASTError {
+    const diagnostic = this.report(span, message, details);
     const fullRecoverySpan = this.recover();
-    return { kind: ASTKind.Error, diagnostic, span: fullRecoverySpan };
+    this.lastError = { kind: ASTKind.Error, diagnostic, span: fullRecoverySpan };
+    return this.lastError;
   }
 
   protected recover(): Span {
@@ -714,13 +1229,16 @@ class ParserBase {
       this.recoverySet.delete(k);
     }
 
-    if (this.inRecoveryFor(out)) {
+    if (this.inRecovery) {
       if (this.token && supported.includes(this.token.kind)) {
-        // can recover from here
+        // can recover from here, keeping whatever was parsed so far
         this.inRecovery = false;
         return out;
-      } else {
-        return out;
+      } else if (!isError(out)) {
+        // a node that only contains an error still has to unwind as one
+        assert(this.lastError !== null, "recovery without an error");
+        const span = hasSpan(out) ? out.span : this.lastError.span;
+        return { kind: ASTKind.Error, diagnostic: this.lastError.diagnostic, span };
       }
     }
 
@@ -750,6 +1268,9 @@ class ParserBase {
   }
 }
 
+// binds looser than every binary operator
+const ASSIGN_PRECEDENCE = 0;
+
 export class Parser extends ParserBase {
   protected parseBinding(): Binding {
     const start = this.startOfSpan;
@@ -786,30 +1307,200 @@ export class Parser extends ParserBase {
 
   protected parseReturn(): Stmt {
     const start = this.startOfSpan;
+    const keyword = this.span;
     this.next(); // skip return
 
+    if (this.is(TokenKind.Semicolon) || this.is(TokenKind.RBrace)) {
+      return { kind: ASTKind.Return, span: keyword };
+    }
+
+    if (this.is(TokenKind.Question)) {
+      const end = this.endOfSpan;
+      this.next(); // skip ?
+      return { kind: ASTKind.Return, condition: true, span: { start, end } };
+    }
+
     const value = this.parseExpr();
     return { kind: ASTKind.Return, value, span: this.backwardExtendNodeSpan(start, value) };
   }
 
-  protected parseBlock(): { stmts: Stmt[]; span: Span } | ASTError {
+  protected parseThrow(): Stmt {
     const start = this.startOfSpan;
-    this.next(); // skip left brace
+    this.next(); // skip throw
+
+    const value = this.parseExpr();
+    return { kind: ASTKind.Throw, value, span: this.backwardExtendNodeSpan(start, value) };
+  }
+
+  protected parseBlock(): Block | ASTError {
+    const start = this.startOfSpan;
+    const lbrace = this.expect(TokenKind.LBrace, "to open block");
+    if (isError(lbrace)) return lbrace;
 
     const stmts: Stmt[] = [];
-    do {
+    while (this.token && this.token.kind !== TokenKind.RBrace) {
       const stmt = this.recovery([TokenKind.Semicolon, TokenKind.RBrace], () => this.parseStmt());
       if (this.inRecoveryFor(stmt)) return stmt;
       stmts.push(stmt);
 
-      this.expect(TokenKind.Semicolon, "to close the statement");
-      this.inRecovery = false; // no need to recover from semicolon
-    } while (this.token && this.token.kind !== TokenKind.RBrace);
+      if (isError(stmt)) {
+        this.consume(TokenKind.Semicolon);
+      } else if (this.requiresSemicolon(stmt)) {
+        this.expect(TokenKind.Semicolon, "to close the statement");
+        this.inRecovery = false; // no need to recover from semicolon
+      }
+    }
 
     const end = this.endOfSpan;
     this.expect(TokenKind.RBrace, "to terminate block");
     this.inRecovery = false;
-    return { stmts, span: { start, end } };
+    return { kind: ASTKind.Block, stmts, span: { start, end } };
+  }
+
+  // block-bodied statements end with their body instead of a semicolon
+  protected requiresSemicolon(stmt: Stmt): boolean {
+    switch (stmt.kind) {
+      case ASTKind.Block:
+      case ASTKind.If:
+      case ASTKind.While:
+      case ASTKind.ForOf:
+      case ASTKind.Try:
+      case ASTKind.CtxBlock:
+        return false;
+    }
+    return true;
+  }
+
+  // a statement in branch or loop body position, along with its semicolon
+  protected parseNestedStmt(): Stmt {
+    const stmt = this.recovery([], () => this.parseStmt());
+    if (this.inRecoveryFor(stmt)) return stmt;
+
+    if (this.requiresSemicolon(stmt)) {
+      const semicolon = this.expect(TokenKind.Semicolon, "to close the statement");
+      if (isError(semicolon)) return semicolon;
+    }
+
+    return stmt;
+  }
+
+  protected parseCondition(what: string): Expr {
+    const lparen = this.expect(TokenKind.LParen, `to open ${what} condition`);
+    if (isError(lparen)) return lparen;
+
+    const cond = this.recovery([TokenKind.RParen], () => this.parseExpr());
+    if (this.inRecoveryFor(cond)) return cond;
+
+    const rparen = this.expect(TokenKind.RParen, `to close ${what} condition`);
+    if (isError(rparen)) return rparen;
+
+    return cond;
+  }
+
+  protected parseIf(): Stmt {
+    const start = this.startOfSpan;
+    this.next(); // skip if
+
+    const cond = this.parseCondition("if");
+    if (this.inRecoveryFor(cond)) return cond;
+
+    const then = this.recovery([TokenKind.Else], () => this.parseNestedStmt());
+    if (this.inRecoveryFor(then)) return then;
+
+    if (this.consume(TokenKind.Else)) {
+      const otherwise = this.parseNestedStmt();
+      if (this.inRecoveryFor(otherwise)) return otherwise;
+      return { kind: ASTKind.If, cond, then, else: otherwise, span: this.backwardExtendNodeSpan(start, otherwise) };
+    }
+
+    return { kind: ASTKind.If, cond, then, span: this.backwardExtendNodeSpan(start, then) };
+  }
+
+  protected parseWhile(): Stmt {
+    const start = this.startOfSpan;
+    this.next(); // skip while
+
+    const cond = this.parseCondition("while");
+    if (this.inRecoveryFor(cond)) return cond;
+
+    const body = this.parseNestedStmt();
+    if (this.inRecoveryFor(body)) return body;
+
+    return { kind: ASTKind.While, cond, body, span: this.backwardExtendNodeSpan(start, body) };
+  }
+
+  protected parseFor(): Stmt {
+    const start = this.startOfSpan;
+    this.next(); // skip for
+
+    const lparen = this.expect(TokenKind.LParen, "to open for loop");
+    if (isError(lparen)) return lparen;
+
+    const isConst = this.consume(TokenKind.Const);
+    if (!isConst) {
+      const let_ = this.expect(TokenKind.Let, "for loop binding");
+      if (isError(let_)) return let_;
+    }
+
+    const binding = this.recovery([TokenKind.RParen], () => this.parseBinding());
+    if (this.inRecoveryFor(binding)) return binding;
+
+    // `of` is only a keyword here
+    if (!this.consumeContextual("of")) {
+      return this.error(this.span, `expected \`of\` in for loop, got ${this.token ? TokenKind[this.token.kind] : "<eof>"}`, {
+        code: Code.UnexpectedToken,
+      });
+    }
+
+    const iterable = this.recovery([TokenKind.RParen], () => this.parseExpr());
+    if (this.inRecoveryFor(iterable)) return iterable;
+
+    const rparen = this.expect(TokenKind.RParen, "to close for loop");
+    if (isError(rparen)) return rparen;
+
+    const body = this.parseNestedStmt();
+    if (this.inRecoveryFor(body)) return body;
+
+    return { kind: ASTKind.ForOf, isConst, binding, iterable, body, span: this.backwardExtendNodeSpan(start, body) };
+  }
+
+  protected parseCtxBlock(): Stmt {
+    const start = this.startOfSpan;
+    this.next(); // skip ctx
+
+    const fields = this.recovery([TokenKind.LBrace], () => this.parseFieldInits(TokenKind.Equals, "ctx fields"));
+    if (this.inRecoveryFor(fields)) return fields;
+    if (isError(fields)) return fields;
+
+    const body = this.parseBlock();
+    if (isError(body)) return body;
+
+    return { kind: ASTKind.CtxBlock, fields: fields.fields, body, span: this.backwardExtendNodeSpan(start, body) };
+  }
+
+  protected parseTry(): Stmt {
+    const start = this.startOfSpan;
+    this.next(); // skip try
+
+    const body = this.recovery([TokenKind.Catch], () => this.parseBlock());
+    if (this.inRecoveryFor(body)) return body;
+
+    const catchKeyword = this.expect(TokenKind.Catch, "after try block");
+    if (isError(catchKeyword)) return catchKeyword;
+
+    let binding = undefined;
+    if (this.consume(TokenKind.LParen)) {
+      binding = this.recovery([TokenKind.RParen], () => this.parseBinding());
+      if (this.inRecoveryFor(binding)) return binding;
+
+      const rparen = this.expect(TokenKind.RParen, "to close catch binding");
+      if (isError(rparen)) return rparen;
+    }
+
+    const handler = this.parseBlock();
+    if (isError(handler)) return handler;
+
+    return { kind: ASTKind.Try, body, binding, handler, span: this.backwardExtendNodeSpan(start, handler) };
   }
 
   protected parseFunction(): FunctionDecl | ASTError {
@@ -819,8 +1510,77 @@ export class Parser extends ParserBase {
     let name = this.recovery([TokenKind.LParen, TokenKind.Colon, TokenKind.LBrace], () => this.expectIdentifier());
     if (this.inRecoveryFor(name)) return name; // not recovering
 
+    const params = this.parseParams("function");
+    if (isError(params)) return params;
+
+    let returnType = undefined;
+    if (this.consume(TokenKind.Colon)) {
+      returnType = this.recovery([TokenKind.LBrace, TokenKind.Throws, TokenKind.Ctx], () => this.parseTypeExpr());
+      if (this.inRecoveryFor(returnType)) return returnType;
+    }
+
+    const throws = this.parseThrows([TokenKind.LBrace, TokenKind.Ctx]);
+    if (throws && this.inRecoveryFor(throws)) return throws;
+
+    let ctx = undefined;
+    if (this.is(TokenKind.Ctx)) {
+      ctx = this.recovery([TokenKind.LBrace], () => this.parseCtxSignature());
+      if (this.inRecoveryFor(ctx)) return ctx;
+    }
+
+    const block = this.parseBlock();
+    if (isError(block)) return block;
+
+    return {
+      kind: ASTKind.FunctionDecl,
+      name,
+      params,
+      returnType,
+      ...(throws ? { throws } : {}),
+      ...(ctx && !isError(ctx) ? { ctx } : {}),
+      body: block.stmts,
+      span: this.backwardExtendNodeSpan(start, block),
+    };
+  }
+
+  // `throws E` after the return type, where `E` is usually a union of error types
+  protected parseThrows(follow: TokenKind[]): TypeExpr | undefined {
+    if (!this.consume(TokenKind.Throws)) return undefined;
+    return this.recovery(follow, () => this.parseTypeExpr());
+  }
+
+  // fields are declared like struct fields, defaults included
+  protected parseCtxSignature(): CtxSignature | ASTError {
+    const start = this.startOfSpan;
+    this.next(); // skip ctx
+
+    const lbrace = this.expect(TokenKind.LBrace, "to open ctx signature");
+    if (isError(lbrace)) return lbrace;
+
+    const fields: FieldDecl[] = [];
+    while (this.token && this.token.kind !== TokenKind.RBrace) {
+      const field = this.recovery([TokenKind.Semicolon, TokenKind.RBrace], () => this.parseField());
+      if (this.inRecoveryFor(field)) return field;
+      if (!isError(field) && field.modifier !== FieldModifier.None) {
+        this.report(field.span, "ctx fields cannot be `read` or `private`", { code: Code.InvalidCtxField });
+      }
+      fields.push(field);
+
+      if (this.is(TokenKind.RBrace)) break;
+      this.expect(TokenKind.Semicolon, "to close the ctx field");
+      this.inRecovery = false; // no need to recover from semicolon
+    }
+
+    const end = this.endOfSpan;
+    this.expect(TokenKind.RBrace, "to terminate ctx signature");
+    this.inRecovery = false;
+
+    return { fields, span: { start, end } };
+  }
+
+  protected parseParams(what: string): Binding[] | ASTError {
     let lparen = this.recovery([TokenKind.Colon, TokenKind.LBrace], () =>
-      this.expect(TokenKind.LParen, "for function parameters")
+      this.expect(TokenKind.LParen, `for ${what} parameters`)
     );
     if (this.inRecoveryFor(lparen)) return lparen;
 
@@ -835,54 +1595,205 @@ export class Parser extends ParserBase {
       } while (this.consume(TokenKind.Comma));
 
       const rparen = this.recovery([TokenKind.Colon, TokenKind.LBrace], () =>
-        this.expect(TokenKind.RParen, "to close function parameters")
+        this.expect(TokenKind.RParen, `to close ${what} parameters`)
       );
       if (this.inRecoveryFor(rparen)) return rparen;
     }
 
+    return params;
+  }
+
+  protected parseMessage(): MessageDecl | ASTError {
+    const start = this.startOfSpan;
+    const isQuery = this.is(TokenKind.Query);
+    const what = isQuery ? "query" : "command";
+    this.next(); // skip query or command
+
+    let receiver = this.recovery([TokenKind.Dot, TokenKind.LParen, TokenKind.LBrace], () => this.expectIdentifier());
+    if (this.inRecoveryFor(receiver)) return receiver;
+
+    const dot = this.recovery([TokenKind.Identifier, TokenKind.LParen, TokenKind.LBrace], () =>
+      this.expect(TokenKind.Dot, `between actor and ${what} name`)
+    );
+    if (this.inRecoveryFor(dot)) return dot;
+
+    let name = this.recovery([TokenKind.LParen, TokenKind.Colon, TokenKind.LBrace], () => this.expectIdentifier());
+    if (this.inRecoveryFor(name)) return name;
+
+    const params = this.parseParams(what);
+    if (isError(params)) return params;
+
+    // commands are fire-and-forget, so nobody would be around to give a borrow back
+    if (!isQuery) {
+      for (const param of params) {
+        if (!isError(param) && param.type?.kind === ASTKind.HandleType) {
+          this.report(param.type.span, "commands cannot accept handle borrows since commands cannot be awaited", {
+            code: Code.CommandBorrow,
+          });
+        }
+      }
+    }
+
     let returnType = undefined;
     if (this.consume(TokenKind.Colon)) {
-      returnType = this.recovery([TokenKind.LBrace], () => this.parseTypeExpr());
+      returnType = this.recovery([TokenKind.LBrace, TokenKind.Throws], () => this.parseTypeExpr());
       if (this.inRecoveryFor(returnType)) return returnType;
     }
 
+    const throws = this.parseThrows([TokenKind.LBrace]);
+    if (throws && this.inRecoveryFor(throws)) return throws;
+
     const block = this.parseBlock();
     if (isError(block)) return block;
 
     return {
-      kind: ASTKind.FunctionDecl,
+      kind: isQuery ? ASTKind.QueryDecl : ASTKind.CommandDecl,
+      receiver,
       name,
       params,
       returnType,
+      ...(throws ? { throws } : {}),
       body: block.stmts,
       span: this.backwardExtendNodeSpan(start, block),
     };
   }
 
+  protected parseField(): FieldDecl {
+    const start = this.startOfSpan;
+
+    let modifier = FieldModifier.None;
+    if (this.consume(TokenKind.Read)) {
+      modifier = FieldModifier.Read;
+    } else if (this.consume(TokenKind.Private)) {
+      modifier = FieldModifier.Private;
+    }
+
+    const binding = this.recovery([TokenKind.Equals], () => this.parseBinding());
+    if (this.inRecoveryFor(binding)) return binding;
+
+    if (this.consume(TokenKind.Equals)) {
+      const init = this.parseExpr();
+      return { kind: ASTKind.FieldDecl, modifier, binding, init, span: this.backwardExtendNodeSpan(start, init) };
+    }
+
+    return { kind: ASTKind.FieldDecl, modifier, binding, span: this.backwardExtendNodeSpan(start, binding) };
+  }
+
+  protected parseStruct(): StructDecl | ASTError {
+    const start = this.startOfSpan;
+    const actor = this.consume(TokenKind.Actor);
+
+    const struct = this.recovery([TokenKind.Identifier, TokenKind.LBrace], () =>
+      this.expect(TokenKind.Struct, actor ? "after actor" : "for struct declaration")
+    );
+    if (this.inRecoveryFor(struct)) return struct;
+
+    let name = this.recovery([TokenKind.LBrace], () => this.expectIdentifier());
+    if (this.inRecoveryFor(name)) return name;
+
+    const lbrace = this.expect(TokenKind.LBrace, "to open struct body");
+    if (isError(lbrace)) return lbrace;
+
+    const fields: FieldDecl[] = [];
+    while (this.token && this.token.kind !== TokenKind.RBrace) {
+      const field = this.recovery([TokenKind.Semicolon, TokenKind.RBrace], () => this.parseField());
+      if (this.inRecoveryFor(field)) return field;
+      fields.push(field);
+
+      // the last field may omit its semicolon
+      if (this.is(TokenKind.RBrace)) break;
+      this.expect(TokenKind.Semicolon, "to close the field");
+      this.inRecovery = false; // no need to recover from semicolon
+    }
+
+    const end = this.endOfSpan;
+    this.expect(TokenKind.RBrace, "to terminate struct body");
+    this.inRecovery = false;
+
+    return { kind: ASTKind.StructDecl, actor, name, fields, span: { start, end } };
+  }
+
+  protected parsePlace(): Place | ASTError {
+    const start = this.startOfSpan;
+
+    const root = this.consumeIdentifier(TokenKind.This) ?? this.expectIdentifier();
+    if (isError(root)) return root;
+
+    const fields: Identifier[] = [];
+    while (this.consume(TokenKind.Dot)) {
+      const field = this.expectIdentifier();
+      if (isError(field)) return field;
+      fields.push(field);
+    }
+
+    if (fields.length === 0) return root;
+    return { kind: ASTKind.PlacePath, root, fields, span: this.backwardExtendNodeSpan(start, fields[fields.length - 1]) };
+  }
+
   protected parseTypeExpr(): TypeExpr {
     const start = this.startOfSpan;
 
+    const first = this.parseIntersectionType();
+    if (isError(first) || !this.is(TokenKind.Pipe)) return first;
+
+    const types = [first];
+    while (this.consume(TokenKind.Pipe)) {
+      const type = this.parseIntersectionType();
+      if (isError(type)) return type;
+      types.push(type);
+    }
+
+    return { kind: ASTKind.UnionType, types, span: this.backwardExtendNodeSpan(start, types[types.length - 1]) };
+  }
+
+  protected parseIntersectionType(): TypeExpr {
+    const start = this.startOfSpan;
+
+    const first = this.parsePrefixType();
+    if (isError(first) || !this.is(TokenKind.Amp)) return first;
+
+    const types = [first];
+    while (this.consume(TokenKind.Amp)) {
+      const type = this.parsePrefixType();
+      if (isError(type)) return type;
+      types.push(type);
+    }
+
+    return { kind: ASTKind.IntersectionType, types, span: this.backwardExtendNodeSpan(start, types[types.length - 1]) };
+  }
+
+  // prefixes bind looser than `[]`, so `handle Actor[]` is a handle to an array
+  protected parsePrefixType(): TypeExpr {
+    const start = this.startOfSpan;
+
     if (!this.token) {
-      return this.error(this.span, "expected type expression, got <eof>");
+      return this.error(this.span, "expected type expression, got <eof>", { code: Code.ExpectedType });
     }
 
     let unique = false;
     switch (this.token.kind) {
+      case TokenKind.Owned: {
+        this.next(); // consume `owned`
+        const inner = this.parsePrefixType();
+        if (isError(inner)) return inner;
+        return { kind: ASTKind.OwnedType, inner, span: this.backwardExtendNodeSpan(start, inner) };
+      }
+
       case TokenKind.Unique:
         unique = true;
       case TokenKind.Handle: {
         this.next(); // consume `unique` or `handle`
         if (unique) {
-          this.expect(TokenKind.Handle, "after unique"); // consume `handle`
+          this.expect(TokenKind.Handle, "after unique", " handle"); // consume `handle`
           this.inRecovery = false; // we're probably okay if we insert synthetic here
         }
 
-        const lifetimes: Identifier[] = [];
+        const lifetimes: Place[] = [];
 
-        // parse lifetime list <a, b, c>
+        // parse lifetime list <a, b, this.c>
         if (this.consume(TokenKind.LAngle)) {
           do {
-            const lifetime = this.expectIdentifier();
+            const lifetime = this.parsePlace();
             if (isError(lifetime)) return lifetime;
             lifetimes.push(lifetime);
           } while (this.consume(TokenKind.Comma));
@@ -891,24 +1802,178 @@ export class Parser extends ParserBase {
           if (isError(rangle)) return rangle;
         }
 
-        const inner = this.parseTypeExpr();
+        const inner = this.parsePrefixType();
         return { kind: ASTKind.HandleType, unique, lifetimes, inner, span: this.backwardExtendNodeSpan(start, inner) };
       }
 
-      case TokenKind.Identifier:
-        return this.expectIdentifier();
+      default:
+        return this.parsePostfixType();
+    }
+  }
+
+  protected parsePostfixType(): TypeExpr {
+    const start = this.startOfSpan;
+
+    let type = this.parsePrimaryType();
+    if (isError(type)) return type;
+
+    while (this.is(TokenKind.LBracket) && this.peek()?.kind === TokenKind.RBracket) {
+      this.next(); // skip [
+      const end = this.endOfSpan;
+      this.next(); // skip ]
+      type = { kind: ASTKind.ArrayType, element: type, span: { start, end } };
+    }
+
+    return type;
+  }
+
+  protected parsePrimaryType(): TypeExpr {
+    const start = this.startOfSpan;
+
+    if (!this.token) {
+      return this.error(this.span, "expected type expression, got <eof>", { code: Code.ExpectedType });
+    }
+
+    switch (this.token.kind) {
+      case TokenKind.Identifier: {
+        const base = this.expectIdentifier();
+        if (isError(base) || !this.consume(TokenKind.LAngle)) return base;
+
+        // empty argument lists are allowed, e.g. `LongestWrapper<>`
+        const args: TypeArg[] = [];
+        if (!this.is(TokenKind.RAngle)) {
+          do {
+            const arg = this.parseTypeArg();
+            if (isError(arg)) return arg;
+            args.push(arg);
+          } while (this.consume(TokenKind.Comma));
+        }
+
+        const end = this.endOfSpan;
+        const rangle = this.expect(TokenKind.RAngle, "to close type arguments");
+        if (isError(rangle)) return rangle;
+
+        return { kind: ASTKind.GenericType, base, args, span: { start, end } };
+      }
+
+      case TokenKind.LParen: {
+        if (this.isFunctionTypeAhead()) return this.parseFunctionType();
+
+        this.next(); // skip (
+        const inner = this.parseTypeExpr();
+        if (isError(inner)) return inner;
+
+        const rparen = this.expect(TokenKind.RParen, "to close parenthesized type");
+        if (isError(rparen)) return rparen;
+        return inner;
+      }
 
       default:
-        return this.error(this.span, `expected type expression, got ${TokenKind[this.token.kind]}`);
+        return this.error(this.span, `expected type expression, got ${TokenKind[this.token.kind]}`, { code: Code.ExpectedType });
+    }
+  }
+
+  protected parseTypeArg(): TypeArg {
+    if (this.is(TokenKind.LParen) && !this.isFunctionTypeAhead() && this.isPlaceTupleAhead()) {
+      return this.parsePlaceTuple();
+    }
+    return this.parseTypeExpr();
+  }
+
+  protected parseFunctionType(): TypeExpr {
+    const start = this.startOfSpan;
+
+    const params = this.parseParams("function type");
+    if (isError(params)) return params;
+
+    const arrow = this.expect(TokenKind.Arrow, "for function type");
+    if (isError(arrow)) return arrow;
+
+    const returnType = this.parseTypeExpr();
+    if (isError(returnType)) return returnType;
+
+    return { kind: ASTKind.FunctionType, params, returnType, span: this.backwardExtendNodeSpan(start, returnType) };
+  }
+
+  // `(a, b)` in a type argument ties the type to several places at once
+  protected parsePlaceTuple(): PlaceTuple | ASTError {
+    const start = this.startOfSpan;
+    this.next(); // skip (
+
+    const places: Place[] = [];
+    if (!this.is(TokenKind.RParen)) {
+      do {
+        const place = this.parsePlace();
+        if (isError(place)) return place;
+        places.push(place);
+      } while (this.consume(TokenKind.Comma));
+    }
+
+    const end = this.endOfSpan;
+    const rparen = this.expect(TokenKind.RParen, "to close place tuple");
+    if (isError(rparen)) return rparen;
+
+    return { kind: ASTKind.PlaceTuple, places, span: { start, end } };
+  }
+
+  // how many tokens ahead the `)` matching the current `(` is
+  protected matchingParenAhead(): number | null {
+    let depth = 1;
+    for (let n = 1; ; n++) {
+      const token = this.peek(n);
+      if (!token) return null;
+      if (token.kind === TokenKind.LParen) depth++;
+      if (token.kind === TokenKind.RParen && --depth === 0) return n;
     }
   }
 
+  protected isFunctionTypeAhead(): boolean {
+    const n = this.matchingParenAhead();
+    return n !== null && this.peek(n + 1)?.kind === TokenKind.Arrow;
+  }
+
+  protected isPlaceTupleAhead(): boolean {
+    const n = this.matchingParenAhead();
+    if (n === null) return false;
+
+    for (let i = 1; i < n; i++) {
+      switch (this.peek(i)?.kind) {
+        case TokenKind.Identifier:
+        case TokenKind.This:
+        case TokenKind.Dot:
+        case TokenKind.Comma:
+          continue;
+      }
+      return false;
+    }
+    return true;
+  }
+
   protected parseExpr(minPrecedence = 0): Expr {
     const start = this.startOfSpan;
     let left = this.parsePrimaryExpr();
 
     // prec climber
     while (this.token) {
+      const compoundOp = this.getCompoundAssignOp(this.token.kind);
+      if (this.token.kind === TokenKind.Equals || compoundOp !== null) {
+        if (ASSIGN_PRECEDENCE < minPrecedence) break;
+
+        if (!this.isAssignTarget(left)) {
+          this.report(left.span, "invalid assignment target", { code: Code.InvalidAssignmentTarget });
+        }
+
+        this.next(); // consume operator
+        // right-associative, so `a = b = c` is `a = (b = c)`
+        const value = this.parseExpr(ASSIGN_PRECEDENCE);
+        const span = this.backwardExtendNodeSpan(start, value);
+        left =
+          compoundOp === null
+            ? { kind: ASTKind.Assign, target: left, value, span }
+            : { kind: ASTKind.CompoundAssign, op: compoundOp, target: left, value, span };
+        continue;
+      }
+
       const op = this.getBinaryOp(this.token.kind);
       if (op === null) break;
 
@@ -927,7 +1992,7 @@ export class Parser extends ParserBase {
     const start = this.startOfSpan;
 
     if (this.token === null) {
-      return this.error(this.span, `expected expression, got <eof>`);
+      return this.error(this.span, `expected expression, got <eof>`, { code: Code.ExpectedExpression });
     }
     switch (this.token.kind) {
       case TokenKind.Minus: {
@@ -935,23 +2000,43 @@ export class Parser extends ParserBase {
         const right = this.parsePrimaryExpr();
         return { kind: ASTKind.Unary, op: UnaryOp.Minus, right, span: this.backwardExtendNodeSpan(start, right) };
       }
+      case TokenKind.Await: {
+        this.next();
+        const value = this.parsePrimaryExpr();
+        return { kind: ASTKind.Await, value, span: this.backwardExtendNodeSpan(start, value) };
+      }
+      case TokenKind.LBracket: {
+        this.next();
+        const elements: Expr[] = [];
+        while (this.token && !this.is(TokenKind.RBracket)) {
+          const element = this.recovery([TokenKind.Comma, TokenKind.RBracket], () => this.parseExpr());
+          if (this.inRecoveryFor(element)) return element;
+          elements.push(element);
+          if (!this.consume(TokenKind.Comma)) break;
+        }
+
+        const end = this.endOfSpan;
+        const rbracket = this.expect(TokenKind.RBracket, "to close array literal");
+        if (isError(rbracket)) return rbracket;
+        return this.parsePostfixExpr({ kind: ASTKind.ArrayLiteral, elements, span: { start, end } }, start);
+      }
       case TokenKind.Number: {
         const value = this.token.value;
         const span = this.token;
         this.next();
-        return { kind: ASTKind.NumberLiteral, value, span };
+        return this.parsePostfixExpr({ kind: ASTKind.NumberLiteral, value, span }, start);
       }
       case TokenKind.String: {
         const value = this.token.value;
         const span = this.token;
         this.next();
-        return { kind: ASTKind.StringLiteral, value, span };
+        return this.parsePostfixExpr({ kind: ASTKind.StringLiteral, value, span }, start);
       }
       case TokenKind.LParen: {
         this.next();
         const expr = this.parseExpr();
         this.expect(TokenKind.RParen, "to close parenthesized expression");
-        return expr;
+        return this.parsePostfixExpr(expr, start);
       }
       case TokenKind.Identifier: {
         const name = this.src.slice(this.token.start, this.token.end);
@@ -962,11 +2047,37 @@ export class Parser extends ParserBase {
       case TokenKind.This: {
         const span = this.token;
         this.next();
-        return { kind: ASTKind.Identifier, name: "this", span };
+        return this.parsePostfixExpr({ kind: ASTKind.Identifier, name: "this", span }, start);
+      }
+      case TokenKind.Ctx: {
+        const span = this.token;
+        this.next();
+        return this.parsePostfixExpr({ kind: ASTKind.Identifier, name: "ctx", span }, start);
+      }
+      case TokenKind.New: {
+        this.next();
+        const type = this.recovery([TokenKind.LParen], () => this.expectIdentifier());
+        if (this.inRecoveryFor(type)) return type;
+        if (isError(type)) return type;
+
+        const lparen = this.expect(TokenKind.LParen, "for constructor arguments");
+        if (isError(lparen)) return lparen;
+
+        const args: Expr[] = [];
+        let end = this.endOfSpan;
+        if (!this.consume(TokenKind.RParen)) {
+          do {
+            args.push(this.parseExpr());
+          } while (this.consume(TokenKind.Comma));
+
+          end = this.endOfSpan;
+          this.expect(TokenKind.RParen, "to close constructor arguments");
+        }
+        return this.parsePostfixExpr({ kind: ASTKind.New, type, args, span: { start, end } }, start);
       }
     }
 
-    return this.error(this.span, `expected expression, got ${TokenKind[this.token.kind]}`);
+    return this.error(this.span, `expected expression, got ${TokenKind[this.token.kind]}`, { code: Code.ExpectedExpression });
   }
 
   protected parsePostfixExpr(expr: Expr, start: number): Expr {
@@ -985,12 +2096,20 @@ export class Parser extends ParserBase {
           this.expect(TokenKind.RParen, "to close function call");
         }
 
-        expr = { kind: ASTKind.Call, callee: expr, args, span: { start, end } };
+        expr = { kind: ASTKind.Call, callee: expr, args, ufcs: false, span: { start, end } };
       } else if (this.token.kind === TokenKind.Dot) {
         this.next();
         const memberIdent = this.expectIdentifier();
         if (isError(memberIdent)) return memberIdent;
 
+        // `handle.reset { ... }` respawns an actor with fresh fields
+        if (memberIdent.name === "reset" && this.isFieldInitsAhead()) {
+          const fields = this.parseFieldInits();
+          if (isError(fields)) return fields;
+          expr = { kind: ASTKind.ResetLiteral, target: expr, fields: fields.fields, span: { start, end: fields.end } };
+          continue;
+        }
+
         // method call sugar, ufcs, whatever
         const currentToken = this.token;
         if (currentToken && currentToken.kind === TokenKind.LParen) {
@@ -1011,12 +2130,37 @@ export class Parser extends ParserBase {
             kind: ASTKind.Call,
             callee: memberIdent,
             args: [expr, ...args],
+            ufcs: true,
             span: { start, end },
           };
         } else {
-          // member access
-          return this.error(this.span, "member access not yet implemented");
+          expr = {
+            kind: ASTKind.MemberAccess,
+            object: expr,
+            member: memberIdent,
+            span: this.backwardExtendNodeSpan(start, memberIdent),
+          };
         }
+      } else if (
+        this.token.kind === TokenKind.LBrace &&
+        expr.kind === ASTKind.Identifier &&
+        expr.name !== "this" &&
+        expr.name !== "ctx" &&
+        this.isFieldInitsAhead()
+      ) {
+        const fields = this.parseFieldInits();
+        if (isError(fields)) return fields;
+        expr = { kind: ASTKind.StructLiteral, type: expr, fields: fields.fields, span: { start, end: fields.end } };
+      } else if (this.token.kind === TokenKind.LBracket) {
+        this.next();
+        const index = this.recovery([TokenKind.RBracket], () => this.parseExpr());
+        if (this.inRecoveryFor(index)) return index;
+
+        const end = this.endOfSpan;
+        const rbracket = this.expect(TokenKind.RBracket, "to close index");
+        if (isError(rbracket)) return rbracket;
+
+        expr = { kind: ASTKind.Index, object: expr, index, span: { start, end } };
       } else {
         break;
       }
@@ -1025,6 +2169,59 @@ export class Parser extends ParserBase {
     return expr;
   }
 
+  // tells `Counter { i: 0 }` apart from a type name followed by a block body, which
+  // always starts with a statement instead of `}` or `name`, `name:` and `name,`
+  protected isFieldInitsAhead(): boolean {
+    if (!this.is(TokenKind.LBrace)) return false;
+
+    const first = this.peek(1);
+    if (first?.kind === TokenKind.RBrace) return true;
+    if (first?.kind !== TokenKind.Identifier) return false;
+
+    const second = this.peek(2);
+    return (
+      second?.kind === TokenKind.Colon || second?.kind === TokenKind.Comma || second?.kind === TokenKind.RBrace
+    );
+  }
+
+  // struct literals separate names from values with `:`, ctx blocks with `=`
+  protected parseFieldInits(
+    separator = TokenKind.Colon,
+    what = "struct literal",
+  ): { fields: FieldInit[]; end: number } | ASTError {
+    const lbrace = this.expect(TokenKind.LBrace, `to open ${what}`);
+    if (isError(lbrace)) return lbrace;
+
+    const fields: FieldInit[] = [];
+    while (this.token && this.token.kind !== TokenKind.RBrace) {
+      const field = this.recovery([TokenKind.Comma, TokenKind.RBrace], () => this.parseFieldInit(separator));
+      if (this.inRecoveryFor(field)) return field;
+      fields.push(field);
+      if (!this.consume(TokenKind.Comma)) break;
+    }
+
+    const end = this.endOfSpan;
+    const rbrace = this.expect(TokenKind.RBrace, `to close ${what}`);
+    if (isError(rbrace)) return rbrace;
+
+    return { fields, end };
+  }
+
+  protected parseFieldInit(separator: TokenKind): FieldInit {
+    const start = this.startOfSpan;
+
+    const name = this.recovery([separator], () => this.expectIdentifier());
+    if (this.inRecoveryFor(name)) return name;
+
+    if (this.consume(separator)) {
+      const value = this.parseExpr();
+      return { name, value, shorthand: false, span: this.backwardExtendNodeSpan(start, value) };
+    }
+
+    if (isError(name)) return name;
+    return { name, value: { ...name }, shorthand: true, span: name.span };
+  }
+
   protected getBinaryOp(kind: TokenKind): BinaryOp | null {
     switch (kind) {
       case TokenKind.Plus:
@@ -1043,10 +2240,47 @@ export class Parser extends ParserBase {
         return BinaryOp.And;
       case TokenKind.PipePipe:
         return BinaryOp.Or;
+      case TokenKind.LAngle:
+        return BinaryOp.Less;
+      case TokenKind.RAngle:
+        return BinaryOp.Greater;
+      case TokenKind.LAngleEquals:
+        return BinaryOp.LessEquals;
+      case TokenKind.RAngleEquals:
+        return BinaryOp.GreaterEquals;
+      case TokenKind.Percent:
+        return BinaryOp.Modulo;
+    }
+    return null;
+  }
+
+  protected getCompoundAssignOp(kind: TokenKind): BinaryOp | null {
+    switch (kind) {
+      case TokenKind.PlusEquals:
+        return BinaryOp.Plus;
+      case TokenKind.MinusEquals:
+        return BinaryOp.Minus;
+      case TokenKind.StarEquals:
+        return BinaryOp.Multiply;
+      case TokenKind.SlashEquals:
+        return BinaryOp.Divide;
+      case TokenKind.PercentEquals:
+        return BinaryOp.Modulo;
     }
     return null;
   }
 
+  protected isAssignTarget(expr: Expr): boolean {
+    switch (expr.kind) {
+      case ASTKind.Identifier:
+      case ASTKind.MemberAccess:
+      case ASTKind.Index:
+      case ASTKind.Error:
+        return true;
+    }
+    return false;
+  }
+
   protected getBinaryPrecedence(op: BinaryOp): number {
     switch (op) {
       case BinaryOp.Or:
@@ -1056,18 +2290,24 @@ export class Parser extends ParserBase {
       case BinaryOp.Equals:
       case BinaryOp.NotEquals:
         return 3;
+      case BinaryOp.Less:
+      case BinaryOp.Greater:
+      case BinaryOp.LessEquals:
+      case BinaryOp.GreaterEquals:
+        return 4;
       case BinaryOp.Plus:
       case BinaryOp.Minus:
-        return 4;
+        return 5;
       case BinaryOp.Multiply:
       case BinaryOp.Divide:
-        return 5;
+      case BinaryOp.Modulo:
+        return 6;
     }
   }
 
   protected parseStmt(): Stmt {
     if (this.token === null) {
-      return this.error(this.span, `expected statement, got <eof>`);
+      return this.error(this.span, `expected statement, got <eof>`, { code: Code.ExpectedStatement });
     }
     let isConst = false;
     switch (this.token.kind) {
@@ -1077,6 +2317,22 @@ export class Parser extends ParserBase {
         return this.parseLocal(isConst);
       case TokenKind.Return:
         return this.parseReturn();
+      case TokenKind.Throw:
+        return this.parseThrow();
+      case TokenKind.If:
+        return this.parseIf();
+      case TokenKind.While:
+        return this.parseWhile();
+      case TokenKind.For:
+        return this.parseFor();
+      case TokenKind.Try:
+        return this.parseTry();
+      case TokenKind.LBrace:
+        return this.parseBlock();
+      case TokenKind.Ctx:
+        // `ctx.value = 1` is an expression, `ctx { value = 2 } { ... }` a block
+        if (this.peek()?.kind === TokenKind.LBrace) return this.parseCtxBlock();
+        break;
     }
 
     const start = this.startOfSpan;
@@ -1086,12 +2342,73 @@ export class Parser extends ParserBase {
 
   public parseDeclaration(): Decl {
     if (this.token === null) {
-      return this.error(this.span, `expected declaration, got <eof>`);
+      return this.error(this.span, `expected declaration, got <eof>`, { code: Code.ExpectedDeclaration });
     }
     switch (this.token.kind) {
       case TokenKind.Function:
         return this.parseFunction();
+      case TokenKind.Actor:
+      case TokenKind.Struct:
+        return this.parseStruct();
+      case TokenKind.Query:
+      case TokenKind.Command:
+        return this.parseMessage();
+    }
+    return this.error(this.span, `expected declaration, got ${TokenKind[this.token.kind]}`, { code: Code.ExpectedDeclaration });
+  }
+  // parses a whole island, which should hold exactly one declaration
+  public parseIsland(): Decl {
+    const decl = this.parseDeclaration();
+    if (!isError(decl) && this.token) {
+      this.error(this.span, `unexpected ${TokenKind[this.token.kind]} after declaration`, { code: Code.UnexpectedToken });
     }
-    return this.error(this.span, `expected declaration, got ${TokenKind[this.token.kind]}`);
+    return decl;
+  }
+}
+
+export interface ParsedModule {
+  module: Module;
+  diagnostics: Diagnostics;
+  allDiags: Diagnostic[];
+}
+
+// parses one island, or whatever is between two of them; null for a gap with nothing in it
+export function parseRange(
+  diagnostics: Diagnostics,
+  start: number,
+  end: number,
+  gap = false,
+): { decl: Decl; allDiags: Diagnostic[] } | null {
+  const src = diagnostics.getSource();
+  // anything between islands is not a declaration, so let the parser complain about it
+  if (gap && new Lexer(src, start, end).run().next().done) return null;
+
+  const parser = new Parser(diagnostics, new Lexer(src, start, end).run(), end);
+  return { decl: parser.parseIsland(), allDiags: parser.allDiags };
+}
+
+export function parseModule(uri: string, src: string): ParsedModule {
+  const diagnostics = new Diagnostics(uri, src);
+  const decls: Decl[] = [];
+  const allDiags: Diagnostic[] = [];
+
+  function push(parsed: { decl: Decl; allDiags: Diagnostic[] } | null) {
+    if (!parsed) return;
+    decls.push(parsed.decl);
+    allDiags.push(...parsed.allDiags);
   }
+
+  let p = 0;
+  for (const island of new IslandScanner(src).scanIslands()) {
+    push(parseRange(diagnostics, p, island.start, true));
+    push(parseRange(diagnostics, island.start, island.end));
+    p = island.end;
+  }
+  push(parseRange(diagnostics, p, src.length, true));
+
+  return {
+    module: { kind: ASTKind.Module, decls, span: { start: 0, end: src.length } },
+    diagnostics,
+    allDiags,
+  };
 }
@@ -0,0 +1,1000 @@
+import { Code, Diagnostic, DiagnosticDetails, Diagnostics, Severity, Span } from "./diagnostics.js";
+import { CtxInference, inferCtx, isCtx } from "./ctx.js";
+import { checkEffects, Effects } from "./effects.js";
+import { Definition, DefinitionKind, Resolution } from "./resolve.js";
+import {
+  ASTKind,
+  Binding,
+  BinaryOp,
+  containsAwait,
+  Decl,
+  Expr,
+  FieldInit,
+  FunctionDecl,
+  isError,
+  MessageDecl,
+  Module,
+  Stmt,
+  StructDecl,
+  TypeArg,
+  TypeExpr,
+} from "./syntax.js";
+
+// Types and constraint solving follow Parreaux's "The Simple Essence of Algebraic Subtyping",
+// the core of MLscript: every unknown is a variable with lower and upper bounds, and
+// constraining `a <: b` propagates bounds until only concrete types meet. Top-level
+// functions are monomorphic for now.
+
+export enum TypeKind {
+  Primitive,
+  Any,
+  Function,
+  Record,
+  Struct,
+  Handle,
+  Generic,
+  Union,
+  Intersection,
+  Variable,
+}
+
+export interface TypeVariable {
+  kind: TypeKind.Variable;
+  id: number;
+  lowerBounds: SimpleType[];
+  upperBounds: SimpleType[];
+}
+
+export type SimpleType =
+  | { kind: TypeKind.Primitive; name: string }
+  | { kind: TypeKind.Any }
+  | { kind: TypeKind.Function; params: SimpleType[]; result: SimpleType }
+  | { kind: TypeKind.Record; fields: Map<string, SimpleType>; mutable: boolean }
+  | { kind: TypeKind.Struct; name: string; actor: boolean }
+  | { kind: TypeKind.Handle; actor: string; unique: boolean }
+  | { kind: TypeKind.Generic; name: string; args: SimpleType[] }
+  | { kind: TypeKind.Union; types: SimpleType[] }
+  | { kind: TypeKind.Intersection; types: SimpleType[] }
+  | TypeVariable;
+
+const number: SimpleType = { kind: TypeKind.Primitive, name: "number" };
+const string: SimpleType = { kind: TypeKind.Primitive, name: "string" };
+const boolean: SimpleType = { kind: TypeKind.Primitive, name: "boolean" };
+const voidType: SimpleType = { kind: TypeKind.Primitive, name: "void" };
+const errorType: SimpleType = { kind: TypeKind.Primitive, name: "Error" };
+const any: SimpleType = { kind: TypeKind.Any };
+const stringOrNumber: SimpleType = { kind: TypeKind.Union, types: [string, number] };
+
+// builtin generics and whether their arguments are covariant
+const builtinGenerics = new Map([
+  ["Array", { arity: 1, covariant: false }],
+  ["Set", { arity: 1, covariant: false }],
+  ["Map", { arity: 2, covariant: false }],
+  ["Promise", { arity: 1, covariant: true }],
+]);
+
+// the native methods a primitive receiver has, for UFCS calls nothing in scope handles
+const nativeMethods = new Map<string, object>([
+  ["number", Number.prototype],
+  ["string", String.prototype],
+  ["boolean", Boolean.prototype],
+]);
+
+function promise(inner: SimpleType): SimpleType {
+  return { kind: TypeKind.Generic, name: "Promise", args: [inner] };
+}
+
+function array(inner: SimpleType): SimpleType {
+  return { kind: TypeKind.Generic, name: "Array", args: [inner] };
+}
+
+// prints a type, expanding variables into the union (positive) or intersection
+// (negative) of their bounds
+export function showType(type: SimpleType, positive = true, inProgress = new Set<TypeVariable>()): string {
+  switch (type.kind) {
+    case TypeKind.Primitive:
+      return type.name;
+    case TypeKind.Any:
+      return "any";
+    case TypeKind.Function: {
+      const params = type.params.map(p => showType(p, !positive, inProgress));
+      return `(${params.join(", ")}) => ${showType(type.result, positive, inProgress)}`;
+    }
+    case TypeKind.Record: {
+      const fields = [...type.fields].map(([name, t]) => `${name}: ${showType(t, positive, inProgress)}`);
+      return `{ ${fields.join("; ")} }`;
+    }
+    case TypeKind.Struct:
+      return type.name;
+    case TypeKind.Handle:
+      return `${type.unique ? "unique " : ""}handle ${type.actor}`;
+    case TypeKind.Generic:
+      return `${type.name}<${type.args.map(a => showType(a, positive, inProgress)).join(", ")}>`;
+    case TypeKind.Union:
+    case TypeKind.Intersection: {
+      const members = [...new Set(type.types.map(t => showType(t, positive, inProgress)))];
+      return members.join(type.kind === TypeKind.Union ? " | " : " & ");
+    }
+    case TypeKind.Variable: {
+      const name = `'t${type.id}`;
+      const bounds = positive ? type.lowerBounds : type.upperBounds;
+      if (bounds.length === 0 || inProgress.has(type)) return name;
+
+      inProgress.add(type);
+      const members = [...new Set(bounds.map(t => showType(t, positive, inProgress)))];
+      inProgress.delete(type);
+      return members.join(positive ? " | " : " & ");
+    }
+  }
+}
+
+// the first concrete lower bound of a type, looking through variables
+export function concreteType(type: SimpleType, seen = new Set<SimpleType>()): SimpleType | null {
+  if (type.kind !== TypeKind.Variable) return type;
+  if (seen.has(type)) return null;
+  seen.add(type);
+  for (const lower of type.lowerBounds) {
+    const found = concreteType(lower, seen);
+    if (found) return found;
+  }
+  return null;
+}
+
+export interface Typing {
+  types: Map<object, SimpleType>; // inferred types of expressions, bindings and declarations
+  ctx: CtxInference;
+  ctxTypes: Map<FunctionDecl | MessageDecl, Map<string, SimpleType>>; // the type of each body's ctx fields
+  effects: Effects;
+  allDiags: Diagnostic[];
+}
+
+export class TypeChecker {
+  public allDiags: Diagnostic[] = [];
+  public types = new Map<object, SimpleType>();
+
+  protected defTypes = new Map<Definition, SimpleType>();
+  protected structFields = new Map<string, Map<string, SimpleType>>();
+  protected structDecls = new Map<string, StructDecl>();
+  protected cache = new Map<SimpleType, Set<SimpleType>>();
+  protected reported = new Set<string>();
+  protected nextId = 0;
+  protected returnType: SimpleType = voidType;
+  // what async functions return before it is wrapped in a promise
+  protected asyncResults = new Map<FunctionDecl | MessageDecl, SimpleType>();
+  protected body: FunctionDecl | MessageDecl | null = null;
+  protected ctx: CtxInference;
+  protected ctxTypes = new Map<FunctionDecl | MessageDecl, Map<string, SimpleType>>();
+  // the conditions of the enclosing `if`s, for `return ?`
+  protected conditions: SimpleType[] = [];
+
+  constructor(protected diag: Diagnostics, protected module: Module, protected resolution: Resolution) {
+    this.ctx = inferCtx(diag, module, resolution);
+    this.allDiags.push(...this.ctx.allDiags);
+  }
+
+  protected report(span: Span, message: string, details: DiagnosticDetails) {
+    // a bad constraint can propagate through many bounds, but it's one mistake
+    const key = `${span.start}:${span.end}:${message}`;
+    if (this.reported.has(key)) return;
+    this.reported.add(key);
+    this.allDiags.push(this.diag.createDiagnostic(span, message, Severity.Error, details));
+  }
+
+  protected fresh(): TypeVariable {
+    return { kind: TypeKind.Variable, id: this.nextId++, lowerBounds: [], upperBounds: [] };
+  }
+
+  protected mismatch(lhs: SimpleType, rhs: SimpleType, span: Span) {
+    this.report(span, `type mismatch: expected \`${showType(rhs, false)}\`, found \`${showType(lhs)}\``, {
+      code: Code.TypeMismatch,
+      fixes: this.awaitFix(lhs, rhs, span),
+    });
+  }
+
+  // a query's reply where its value was wanted, when the span is the call itself
+  protected awaitFix(lhs: SimpleType, rhs: SimpleType, span: Span): DiagnosticDetails["fixes"] {
+    const isPromise = (type: SimpleType) => type.kind === TypeKind.Generic && type.name === "Promise";
+    if (!isPromise(lhs) || isPromise(rhs) || rhs.kind === TypeKind.Record) return [];
+    const src = this.diag.getSource();
+    if (!src.slice(span.start, span.end).endsWith(")")) return [];
+
+    // `await` binds looser than member access, indexing and calls
+    const edits = /^\s*[.[(]/.test(src.slice(span.end))
+      ? [
+          { span: { start: span.start, end: span.start }, text: "(await " },
+          { span: { start: span.end, end: span.end }, text: ")" },
+        ]
+      : [{ span: { start: span.start, end: span.start }, text: "await " }];
+    return [{ title: "wrap the call in `await`", edits }];
+  }
+
+  // whether two concrete types could be related, used to pick union and intersection members
+  protected sameHead(lhs: SimpleType, rhs: SimpleType): boolean {
+    if (lhs.kind !== rhs.kind) return false;
+    switch (lhs.kind) {
+      case TypeKind.Primitive:
+        return lhs.name === (rhs as typeof lhs).name;
+      case TypeKind.Struct:
+        return lhs.name === (rhs as typeof lhs).name;
+      case TypeKind.Handle:
+        return lhs.actor === (rhs as typeof lhs).actor;
+      case TypeKind.Generic:
+        return lhs.name === (rhs as typeof lhs).name;
+    }
+    return true;
+  }
+
+  public constrain(lhs: SimpleType, rhs: SimpleType, span: Span): void {
+    if (lhs === rhs) return;
+
+    if (lhs.kind === TypeKind.Variable || rhs.kind === TypeKind.Variable) {
+      let seen = this.cache.get(lhs);
+      if (!seen) {
+        seen = new Set();
+        this.cache.set(lhs, seen);
+      }
+      if (seen.has(rhs)) return;
+      seen.add(rhs);
+    }
+
+    if (lhs.kind === TypeKind.Any || rhs.kind === TypeKind.Any) return;
+
+    if (lhs.kind === TypeKind.Variable) {
+      lhs.upperBounds.push(rhs);
+      for (const lower of [...lhs.lowerBounds]) {
+        this.constrain(lower, rhs, span);
+      }
+      return;
+    }
+
+    if (rhs.kind === TypeKind.Variable) {
+      rhs.lowerBounds.push(lhs);
+      for (const upper of [...rhs.upperBounds]) {
+        this.constrain(lhs, upper, span);
+      }
+      return;
+    }
+
+    if (lhs.kind === TypeKind.Union) {
+      for (const member of lhs.types) {
+        this.constrain(member, rhs, span);
+      }
+      return;
+    }
+
+    if (rhs.kind === TypeKind.Intersection) {
+      for (const member of rhs.types) {
+        this.constrain(lhs, member, span);
+      }
+      return;
+    }
+
+    if (rhs.kind === TypeKind.Union) {
+      const member = rhs.types.find(t => this.sameHead(lhs, t));
+      if (!member) return this.mismatch(lhs, rhs, span);
+      return this.constrain(lhs, member, span);
+    }
+
+    if (lhs.kind === TypeKind.Intersection) {
+      const member = lhs.types.find(t => this.sameHead(t, rhs));
+      if (!member) return this.mismatch(lhs, rhs, span);
+      return this.constrain(member, rhs, span);
+    }
+
+    switch (lhs.kind) {
+      case TypeKind.Primitive:
+        if (rhs.kind === TypeKind.Primitive && rhs.name === lhs.name) return;
+        break;
+
+      case TypeKind.Function:
+        if (rhs.kind !== TypeKind.Function) break;
+        if (lhs.params.length !== rhs.params.length) {
+          this.report(span, `expected ${lhs.params.length} arguments, found ${rhs.params.length}`, { code: Code.ArgumentCount });
+          return;
+        }
+        lhs.params.forEach((param, i) => this.constrain(rhs.params[i], param, span));
+        this.constrain(lhs.result, rhs.result, span);
+        return;
+
+      case TypeKind.Record:
+        if (rhs.kind !== TypeKind.Record) break;
+        return this.constrainFields(lhs.fields, rhs, "record", span);
+
+      case TypeKind.Struct:
+        if (rhs.kind === TypeKind.Struct && rhs.name === lhs.name) return;
+        if (rhs.kind === TypeKind.Record) {
+          return this.constrainFields(this.structFields.get(lhs.name) ?? new Map(), rhs, `\`${lhs.name}\``, span);
+        }
+        break;
+
+      case TypeKind.Handle:
+        if (rhs.kind === TypeKind.Handle && rhs.actor === lhs.actor) return;
+        if (rhs.kind === TypeKind.Record) {
+          this.report(span, `cannot access fields of \`${showType(lhs)}\`, send it a query instead`, {
+            code: Code.ActorFieldAccess,
+            notes: ["an actor's fields live in its own worker, so only its queries and commands can reach them"],
+          });
+          return;
+        }
+        break;
+
+      case TypeKind.Generic: {
+        if (rhs.kind !== TypeKind.Generic || rhs.name !== lhs.name || rhs.args.length !== lhs.args.length) break;
+        const covariant = builtinGenerics.get(lhs.name)?.covariant ?? false;
+        lhs.args.forEach((arg, i) => {
+          this.constrain(arg, rhs.args[i], span);
+          if (!covariant) this.constrain(rhs.args[i], arg, span);
+        });
+        return;
+      }
+    }
+
+    this.mismatch(lhs, rhs, span);
+  }
+
+  protected constrainFields(fields: Map<string, SimpleType>, rhs: SimpleType & { kind: TypeKind.Record }, what: string, span: Span) {
+    for (const [name, expected] of rhs.fields) {
+      const actual = fields.get(name);
+      if (!actual) {
+        const known = [...fields.keys()].map(field => `\`${field}\``);
+        this.report(span, `${what} has no field \`${name}\``, {
+          code: Code.UnknownField,
+          notes: known.length > 0 ? [`${what} has ${known.join(", ")}`] : [],
+        });
+        continue;
+      }
+      this.constrain(actual, expected, span);
+      if (rhs.mutable) this.constrain(expected, actual, span);
+    }
+  }
+
+  // --- annotations ---
+
+  protected fromTypeExpr(type: TypeExpr | TypeArg): SimpleType {
+    switch (type.kind) {
+      case ASTKind.Identifier: {
+        const def = this.resolution.references.get(type);
+        if (!def) return any;
+        switch (def.kind) {
+          case DefinitionKind.Struct:
+            return { kind: TypeKind.Struct, name: def.name, actor: false };
+          case DefinitionKind.Actor:
+            // outside of its own handlers, an actor is only ever reachable through a handle
+            return { kind: TypeKind.Handle, actor: def.name, unique: false };
+          case DefinitionKind.BuiltinType:
+            return this.builtinType(def.name, [], type.span);
+        }
+        return any;
+      }
+
+      case ASTKind.HandleType: {
+        const inner = this.fromTypeExpr(type.inner);
+        if (inner.kind === TypeKind.Handle) return { ...inner, unique: type.unique };
+        if (inner.kind !== TypeKind.Any) {
+          this.report(type.inner.span, `\`handle\` requires an actor type, found \`${showType(inner)}\``, { code: Code.TypeMismatch });
+        }
+        return any;
+      }
+
+      case ASTKind.OwnedType:
+        return this.fromTypeExpr(type.inner); // ownership is the borrow checker's business
+
+      case ASTKind.GenericType: {
+        // place tuples only say what a value borrows from
+        const args = type.args.filter(arg => arg.kind !== ASTKind.PlaceTuple).map(arg => this.fromTypeExpr(arg));
+        const def = this.resolution.references.get(type.base);
+        if (def?.kind === DefinitionKind.BuiltinType) return this.builtinType(def.name, args, type.span);
+
+        const base = this.fromTypeExpr(type.base);
+        if (args.length > 0) this.report(type.span, `\`${type.base.name}\` does not take type arguments`, { code: Code.TypeArgumentCount });
+        return base;
+      }
+
+      case ASTKind.ArrayType:
+        return array(this.fromTypeExpr(type.element));
+
+      case ASTKind.UnionType:
+        return { kind: TypeKind.Union, types: type.types.map(t => this.fromTypeExpr(t)) };
+
+      case ASTKind.IntersectionType:
+        return { kind: TypeKind.Intersection, types: type.types.map(t => this.fromTypeExpr(t)) };
+
+      case ASTKind.FunctionType:
+        return {
+          kind: TypeKind.Function,
+          params: type.params.map(p => (isError(p) || !p.type ? any : this.fromTypeExpr(p.type))),
+          result: this.fromTypeExpr(type.returnType),
+        };
+    }
+
+    return any;
+  }
+
+  protected builtinType(name: string, args: SimpleType[], span: Span): SimpleType {
+    switch (name) {
+      case "number":
+      case "string":
+      case "boolean":
+      case "void":
+        return { kind: TypeKind.Primitive, name };
+      case "Error":
+        return errorType;
+    }
+
+    const generic = builtinGenerics.get(name);
+    if (!generic) return any;
+
+    if (args.length === 0) {
+      args = Array.from({ length: generic.arity }, () => any);
+    } else if (args.length !== generic.arity) {
+      this.report(span, `\`${name}\` takes ${generic.arity} type arguments, found ${args.length}`, { code: Code.TypeArgumentCount });
+      return any;
+    }
+    return { kind: TypeKind.Generic, name, args };
+  }
+
+  protected annotationOrFresh(type?: TypeExpr): SimpleType {
+    return type ? this.fromTypeExpr(type) : this.fresh();
+  }
+
+  // --- declarations ---
+
+  public check(): Typing {
+    // signatures first, so bodies can refer to anything
+    for (const decl of this.module.decls) {
+      if (decl.kind === ASTKind.StructDecl) this.declareStruct(decl);
+    }
+    for (const decl of this.module.decls) {
+      switch (decl.kind) {
+        case ASTKind.FunctionDecl:
+        case ASTKind.QueryDecl:
+        case ASTKind.CommandDecl:
+          this.declareSignature(decl);
+      }
+    }
+
+    for (const decl of this.module.decls) {
+      this.checkDecl(decl);
+    }
+
+    // what a `throw` throws is only known once everything is checked
+    const effects = checkEffects(this.diag, this.module, this.resolution, this.types);
+    this.allDiags.push(...effects.allDiags);
+
+    return { types: this.types, ctx: this.ctx, ctxTypes: this.ctxTypes, effects, allDiags: this.allDiags };
+  }
+
+  protected declareStruct(decl: StructDecl) {
+    if (isError(decl.name)) return;
+    const fields = new Map<string, SimpleType>();
+    this.structFields.set(decl.name.name, fields);
+    this.structDecls.set(decl.name.name, decl);
+
+    for (const field of decl.fields) {
+      if (isError(field) || isError(field.binding) || isError(field.binding.name)) continue;
+      const type = this.annotationOrFresh(field.binding.type);
+      fields.set(field.binding.name.name, type);
+      this.types.set(field.binding, type);
+
+      const def = this.resolution.references.get(field.binding.name);
+      if (def) this.defTypes.set(def, type);
+    }
+  }
+
+  protected declareSignature(decl: FunctionDecl | MessageDecl) {
+    const params = decl.params.map(param => {
+      if (isError(param)) return any;
+      const type = this.annotationOrFresh(param.type);
+      this.types.set(param, type);
+      if (!isError(param.name)) {
+        const def = this.resolution.references.get(param.name);
+        if (def) this.defTypes.set(def, type);
+      }
+      return type;
+    });
+
+    // a function that awaits is async, so its callers get a promise of what it returns
+    const result = this.annotationOrFresh(decl.returnType);
+    const async = decl.kind === ASTKind.FunctionDecl && !isError(decl.body) && containsAwait(decl.body);
+    if (async) this.asyncResults.set(decl, result);
+    const type: SimpleType = { kind: TypeKind.Function, params, result: async ? promise(result) : result };
+    this.types.set(decl, type);
+    if (decl.throws) this.types.set(decl.throws, this.fromTypeExpr(decl.throws));
+
+    const def = isError(decl.name) ? undefined : this.resolution.references.get(decl.name);
+    if (def) this.defTypes.set(def, type);
+  }
+
+  protected checkDecl(decl: Decl) {
+    switch (decl.kind) {
+      case ASTKind.StructDecl: {
+        if (isError(decl.name)) return;
+        const fields = this.structFields.get(decl.name.name)!;
+        for (const field of decl.fields) {
+          if (isError(field) || !field.init || isError(field.binding) || isError(field.binding.name)) continue;
+          this.constrain(this.checkExpr(field.init), fields.get(field.binding.name.name)!, field.init.span);
+        }
+        break;
+      }
+
+      case ASTKind.FunctionDecl:
+      case ASTKind.QueryDecl:
+      case ASTKind.CommandDecl: {
+        const type = this.types.get(decl);
+        if (type?.kind !== TypeKind.Function || isError(decl.body)) return;
+
+        this.returnType = this.asyncResults.get(decl) ?? type.result;
+        this.body = decl;
+        for (const field of this.ctx.accepts.get(decl)?.values() ?? []) {
+          if (field.decl?.init) this.constrain(this.checkExpr(field.decl.init), this.ctxField(field.name), field.decl.init.span);
+        }
+        this.checkStmts(decl.body);
+        if (!decl.body.some(stmt => this.containsReturn(stmt))) {
+          this.constrain(voidType, this.returnType, decl.span);
+        }
+        break;
+      }
+    }
+  }
+
+  protected containsReturn(stmt: Stmt): boolean {
+    switch (stmt.kind) {
+      case ASTKind.Return:
+      case ASTKind.Throw:
+        return true;
+      case ASTKind.Block:
+        return stmt.stmts.some(s => this.containsReturn(s));
+      case ASTKind.If:
+        return this.containsReturn(stmt.then) || (stmt.else !== undefined && this.containsReturn(stmt.else));
+      case ASTKind.While:
+      case ASTKind.ForOf:
+        return this.containsReturn(stmt.body);
+      case ASTKind.Try:
+        return (!isError(stmt.body) && this.containsReturn(stmt.body)) || this.containsReturn(stmt.handler);
+      case ASTKind.CtxBlock:
+        return this.containsReturn(stmt.body);
+    }
+    return false;
+  }
+
+  // --- ctx ---
+
+  // the type of a field of the current body's ctx, as declared or inferred from its uses
+  protected ctxField(name: string, body = this.body): SimpleType {
+    if (!body) return any;
+    let fields = this.ctxTypes.get(body);
+    if (!fields) {
+      fields = new Map();
+      this.ctxTypes.set(body, fields);
+    }
+
+    let type = fields.get(name);
+    if (!type) {
+      const declared = this.ctx.accepts.get(body)?.get(name)?.decl;
+      type = declared && !isError(declared.binding) && declared.binding.type ? this.fromTypeExpr(declared.binding.type) : this.fresh();
+      fields.set(name, type);
+    }
+    return type;
+  }
+
+  // --- statements ---
+
+  protected checkStmts(stmts: Stmt[]) {
+    for (const stmt of stmts) {
+      this.checkStmt(stmt);
+    }
+  }
+
+  protected bind(binding: Binding, type: SimpleType, span: Span) {
+    if (isError(binding)) return;
+
+    let bound = type;
+    if (binding.type) {
+      bound = this.fromTypeExpr(binding.type);
+      this.constrain(type, bound, span);
+    }
+
+    this.types.set(binding, bound);
+    if (!isError(binding.name)) {
+      const def = this.resolution.references.get(binding.name);
+      if (def) this.defTypes.set(def, bound);
+    }
+  }
+
+  protected checkStmt(stmt: Stmt) {
+    switch (stmt.kind) {
+      case ASTKind.Let:
+      case ASTKind.Const:
+        this.bind(stmt.binding, this.checkExpr(stmt.init), stmt.init.span);
+        break;
+      case ASTKind.Return: {
+        const condition = stmt.condition ? (this.conditions[this.conditions.length - 1] ?? any) : undefined;
+        const value = condition ?? (stmt.value ? this.checkExpr(stmt.value) : voidType);
+        this.constrain(value, this.returnType, stmt.value?.span ?? stmt.span);
+        break;
+      }
+      case ASTKind.Throw:
+        this.checkExpr(stmt.value);
+        break;
+      case ASTKind.ExprStmt:
+        this.checkExpr(stmt.expr);
+        break;
+      case ASTKind.Block:
+        this.checkStmts(stmt.stmts);
+        break;
+      case ASTKind.If:
+        this.conditions.push(this.checkExpr(stmt.cond)); // conditions go by truthiness
+        this.checkStmt(stmt.then);
+        if (stmt.else) this.checkStmt(stmt.else);
+        this.conditions.pop();
+        break;
+      case ASTKind.While:
+        this.checkExpr(stmt.cond);
+        this.checkStmt(stmt.body);
+        break;
+      case ASTKind.ForOf: {
+        const element = this.fresh();
+        this.constrain(this.checkExpr(stmt.iterable), array(element), stmt.iterable.span);
+        this.bind(stmt.binding, element, stmt.iterable.span);
+        this.checkStmt(stmt.body);
+        break;
+      }
+      case ASTKind.Try:
+        if (!isError(stmt.body)) this.checkStmt(stmt.body);
+        if (stmt.binding) this.bind(stmt.binding, any, stmt.handler.span);
+        this.checkStmt(stmt.handler);
+        break;
+      case ASTKind.CtxBlock:
+        for (const field of stmt.fields) {
+          if (isError(field)) continue;
+          const value = this.checkExpr(field.value);
+          if (!isError(field.name)) this.constrain(value, this.ctxField(field.name.name), field.value.span);
+        }
+        this.checkStmt(stmt.body);
+        break;
+    }
+  }
+
+  // --- expressions ---
+
+  protected checkExpr(expr: Expr): SimpleType {
+    const type = this.inferExpr(expr);
+    this.types.set(expr, type);
+    return type;
+  }
+
+  protected typeOfDefinition(def: Definition | undefined): SimpleType {
+    if (!def) return any;
+    switch (def.kind) {
+      case DefinitionKind.This:
+        if (!def.owner) return any;
+        return { kind: TypeKind.Struct, name: def.owner.name, actor: def.owner.kind === DefinitionKind.Actor };
+      case DefinitionKind.Builtin:
+        switch (def.name) {
+          case "true":
+          case "false":
+            return boolean;
+          case "drop":
+            return { kind: TypeKind.Function, params: [any], result: voidType };
+        }
+        return any;
+    }
+    return this.defTypes.get(def) ?? any;
+  }
+
+  protected inferExpr(expr: Expr): SimpleType {
+    switch (expr.kind) {
+      case ASTKind.Identifier:
+        return this.typeOfDefinition(this.resolution.references.get(expr));
+
+      case ASTKind.NumberLiteral:
+        return number;
+
+      case ASTKind.StringLiteral:
+        return string;
+
+      case ASTKind.Unary:
+        this.constrain(this.checkExpr(expr.right), number, expr.right.span);
+        return number;
+
+      case ASTKind.Binary: {
+        const left = this.checkExpr(expr.left);
+        const right = this.checkExpr(expr.right);
+        switch (expr.op) {
+          case BinaryOp.Equals:
+          case BinaryOp.NotEquals:
+            return boolean;
+          case BinaryOp.And:
+          case BinaryOp.Or:
+            this.constrain(left, boolean, expr.left.span);
+            this.constrain(right, boolean, expr.right.span);
+            return boolean;
+          case BinaryOp.Less:
+          case BinaryOp.Greater:
+          case BinaryOp.LessEquals:
+          case BinaryOp.GreaterEquals:
+            this.constrain(left, number, expr.left.span);
+            this.constrain(right, number, expr.right.span);
+            return boolean;
+          case BinaryOp.Plus:
+            return this.checkPlus(left, expr.left.span, right, expr.right.span);
+        }
+        this.constrain(left, number, expr.left.span);
+        this.constrain(right, number, expr.right.span);
+        return number;
+      }
+
+      case ASTKind.Call:
+        return this.inferCall(expr);
+
+      case ASTKind.MemberAccess: {
+        if (isCtx(expr.object, this.resolution)) return this.ctxField(expr.member.name);
+        const object = this.checkExpr(expr.object);
+        if (object.kind === TypeKind.Any) return any;
+        if (this.isUnresolvedThisField(expr)) return any; // already reported
+
+        const field = this.fresh();
+        this.constrain(object, { kind: TypeKind.Record, fields: new Map([[expr.member.name, field]]), mutable: false }, expr.span);
+        return field;
+      }
+
+      case ASTKind.Index:
+        return this.checkIndex(expr);
+
+      case ASTKind.Assign: {
+        const value = this.checkExpr(expr.value);
+        this.constrain(value, this.checkTarget(expr.target), expr.value.span);
+        return value;
+      }
+
+      case ASTKind.CompoundAssign: {
+        const target = this.checkExpr(expr.target);
+        const value = this.checkExpr(expr.value);
+        let result = number;
+        if (expr.op === BinaryOp.Plus) {
+          result = this.checkPlus(target, expr.target.span, value, expr.value.span);
+        } else {
+          this.constrain(target, number, expr.target.span);
+          this.constrain(value, number, expr.value.span);
+        }
+        this.constrain(result, this.checkTarget(expr.target), expr.target.span);
+        return result;
+      }
+
+      case ASTKind.ArrayLiteral: {
+        const element = this.fresh();
+        for (const item of expr.elements) {
+          this.constrain(this.checkExpr(item), element, item.span);
+        }
+        return array(element);
+      }
+
+      case ASTKind.StructLiteral: {
+        const def = this.resolution.references.get(expr.type);
+        if (!def) {
+          expr.fields.forEach(field => !isError(field) && this.checkExpr(field.value));
+          return any;
+        }
+        this.checkFieldInits(def.name, expr.fields, expr.span);
+        return { kind: TypeKind.Struct, name: def.name, actor: def.kind === DefinitionKind.Actor };
+      }
+
+      case ASTKind.ResetLiteral: {
+        const target = this.checkExpr(expr.target);
+        const handle = concreteType(target);
+        if (handle?.kind === TypeKind.Handle) {
+          this.checkFieldInits(handle.actor, expr.fields, expr.span);
+        } else {
+          if (handle && handle.kind !== TypeKind.Any) {
+            this.report(expr.target.span, `only handles can be reset, found \`${showType(handle)}\``, { code: Code.TypeMismatch });
+          }
+          expr.fields.forEach(field => !isError(field) && this.checkExpr(field.value));
+        }
+        return target;
+      }
+
+      case ASTKind.Await: {
+        const value = this.checkExpr(expr.value);
+        if (value.kind === TypeKind.Any) return any;
+        const result = this.fresh();
+        this.constrain(value, promise(result), expr.value.span);
+        return result;
+      }
+
+      case ASTKind.New: {
+        expr.args.forEach(arg => this.checkExpr(arg));
+        const generic = builtinGenerics.get(expr.type.name);
+        if (generic && this.resolution.references.get(expr.type)?.kind === DefinitionKind.Builtin) {
+          return { kind: TypeKind.Generic, name: expr.type.name, args: Array.from({ length: generic.arity }, () => this.fresh()) };
+        }
+        return expr.type.name === "Error" ? errorType : any;
+      }
+    }
+
+    return any;
+  }
+
+  // `+` concatenates once either side is known to be a string, and adds otherwise
+  protected checkPlus(left: SimpleType, leftSpan: Span, right: SimpleType, rightSpan: Span): SimpleType {
+    const isString = (type: SimpleType) => {
+      const concrete = concreteType(type);
+      return concrete?.kind === TypeKind.Primitive && concrete.name === "string";
+    };
+    const concatenates = isString(left) || isString(right);
+    this.constrain(left, concatenates ? stringOrNumber : number, leftSpan);
+    this.constrain(right, concatenates ? stringOrNumber : number, rightSpan);
+    return concatenates ? string : number;
+  }
+
+  protected isUnresolvedThisField(expr: Expr & { kind: ASTKind.MemberAccess }): boolean {
+    return (
+      expr.object.kind === ASTKind.Identifier &&
+      this.resolution.references.get(expr.object)?.kind === DefinitionKind.This &&
+      !this.resolution.references.has(expr.member)
+    );
+  }
+
+  // the type an assignment target accepts
+  protected checkTarget(target: Expr): SimpleType {
+    switch (target.kind) {
+      case ASTKind.MemberAccess: {
+        if (isCtx(target.object, this.resolution)) return this.ctxField(target.member.name);
+        const object = this.checkExpr(target.object);
+        if (object.kind === TypeKind.Any || this.isUnresolvedThisField(target)) return any;
+        const field = this.fresh();
+        this.constrain(object, { kind: TypeKind.Record, fields: new Map([[target.member.name, field]]), mutable: true }, target.span);
+        return field;
+      }
+      case ASTKind.Index:
+        return this.checkIndex(target);
+    }
+    return this.checkExpr(target);
+  }
+
+  // maps are indexed by their keys, anything else is an array indexed by number
+  protected checkIndex(expr: Expr & { kind: ASTKind.Index }): SimpleType {
+    const object = this.checkExpr(expr.object);
+    const index = this.checkExpr(expr.index);
+    const map = concreteType(object);
+    if (map?.kind === TypeKind.Generic && map.name === "Map") {
+      this.constrain(index, map.args[0], expr.index.span);
+      return map.args[1];
+    }
+
+    this.constrain(index, number, expr.index.span);
+    if (object.kind === TypeKind.Any) return any;
+    const element = this.fresh();
+    this.constrain(object, array(element), expr.object.span);
+    return element;
+  }
+
+  protected checkFieldInits(struct: string, inits: FieldInit[], span: Span) {
+    const fields = this.structFields.get(struct) ?? new Map<string, SimpleType>();
+    const given = new Set<string>();
+
+    for (const init of inits) {
+      if (isError(init)) continue;
+      const value = this.checkExpr(init.value);
+      if (isError(init.name)) continue;
+
+      given.add(init.name.name);
+      const field = fields.get(init.name.name);
+      if (field) this.constrain(value, field, init.value.span);
+    }
+
+    const decl = this.structDecls.get(struct);
+    for (const field of decl?.fields ?? []) {
+      if (isError(field) || field.init || isError(field.binding) || isError(field.binding.name)) continue;
+      if (!given.has(field.binding.name.name)) {
+        this.report(span, `missing field \`${field.binding.name.name}\` in \`${struct}\``, {
+          code: Code.MissingField,
+          labels: [{ span: field.span, message: "declared here without a default" }],
+        });
+      }
+    }
+  }
+
+  protected inferCall(call: Expr & { kind: ASTKind.Call }): SimpleType {
+    const args = call.args.map(arg => this.checkExpr(arg));
+    const candidates = this.resolution.callees.get(call) ?? [];
+
+    if (call.callee.kind !== ASTKind.Identifier || candidates.length === 0) {
+      if (call.callee.kind !== ASTKind.Identifier) {
+        return this.applyFunction(this.checkExpr(call.callee), args, call.args, call.span);
+      }
+
+      // `Actor { ... }.start()` spawns an actor
+      const receiver = call.ufcs && args.length > 0 ? concreteType(args[0]) : null;
+      const { name } = call.callee;
+      if (name === "start" && args.length === 1 && receiver?.kind === TypeKind.Struct && receiver.actor) {
+        return promise({ kind: TypeKind.Handle, actor: receiver.name, unique: false });
+      }
+
+      const missing = receiver && this.missingMethod(receiver, name);
+      if (missing) this.report(call.callee.span, missing, { code: Code.UnknownMethod });
+      return any; // native method
+    }
+
+    const callee = this.pickCandidate(call, candidates, args);
+    if (!callee) return any;
+
+    if (callee.kind === DefinitionKind.Query || callee.kind === DefinitionKind.Command) {
+      const method = this.defTypes.get(callee);
+      if (method?.kind !== TypeKind.Function || !callee.owner) return any;
+
+      // the receiver is a handle, the rest are the message's arguments
+      this.constrain(args[0], { kind: TypeKind.Handle, actor: callee.owner.name, unique: false }, call.args[0].span);
+      const result = this.applyFunction(method, args.slice(1), call.args.slice(1), call.span);
+      return callee.kind === DefinitionKind.Query ? promise(result) : voidType;
+    }
+
+    // the caller's ctx fields flow into the callee's
+    const callee_ = callee.node as FunctionDecl | undefined;
+    for (const name of this.ctx.passes.get(call) ?? []) {
+      if (callee_) this.constrain(this.ctxField(name), this.ctxField(name, callee_), call.span);
+    }
+
+    const type = this.typeOfDefinition(callee);
+    this.types.set(call.callee, type);
+    return this.applyFunction(type, args, call.args, call.span);
+  }
+
+  // why a receiver can't have a native method of that name, if it can't
+  protected missingMethod(receiver: SimpleType, name: string): string | null {
+    switch (receiver.kind) {
+      case TypeKind.Handle:
+        return `actor \`${receiver.actor}\` has no query or command \`${name}\``;
+      case TypeKind.Struct:
+        if (this.structFields.get(receiver.name)?.has(name)) return null; // a function stored in a field
+        return `\`${receiver.name}\` has no field \`${name}\`, and no function of that name is in scope`;
+      case TypeKind.Primitive: {
+        const methods = nativeMethods.get(receiver.name);
+        if (!methods || name in methods) return null;
+        return `\`${receiver.name}\` has no method \`${name}\`, and no function of that name is in scope`;
+      }
+    }
+    return null;
+  }
+
+  // several actors may handle a message with the same name, so look at the receiver
+  protected pickCandidate(call: Expr & { kind: ASTKind.Call }, candidates: Definition[], args: SimpleType[]): Definition | null {
+    if (candidates.length === 1) return candidates[0];
+
+    const receiver = args.length > 0 ? concreteType(args[0]) : null;
+    if (receiver?.kind === TypeKind.Handle) {
+      const method = candidates.find(c => c.owner?.name === receiver.actor);
+      if (method) return method;
+    }
+
+    const functions = candidates.filter(c => c.kind === DefinitionKind.Function);
+    if (functions.length === 1) return functions[0];
+
+    const names = candidates.map(c => (c.owner ? `${c.owner.name}.${c.name}` : c.name)).join(", ");
+    this.report(call.callee.span, `ambiguous call, could be any of ${names}`, {
+      code: Code.AmbiguousCall,
+      labels: candidates.flatMap(c => (c.span ? [{ span: c.span, message: "could be this" }] : [])),
+    });
+    return null;
+  }
+
+  protected applyFunction(callee: SimpleType, args: SimpleType[], argExprs: Expr[], span: Span): SimpleType {
+    if (callee.kind === TypeKind.Any) return any;
+    if (callee.kind === TypeKind.Function) {
+      if (callee.params.length !== args.length) {
+        this.report(span, `expected ${callee.params.length} arguments, found ${args.length}`, { code: Code.ArgumentCount });
+      } else {
+        // known signatures can blame the offending argument
+        callee.params.forEach((param, i) => this.constrain(args[i], param, argExprs[i].span));
+      }
+      return callee.result;
+    }
+
+    const result = this.fresh();
+    this.constrain(callee, { kind: TypeKind.Function, params: args, result }, span);
+    return result;
+  }
+}
+
+export function typecheck(diag: Diagnostics, module: Module, resolution: Resolution): Typing {
+  return new TypeChecker(diag, module, resolution).check();
+}
@@ -0,0 +1,169 @@
+import { expect, it, describe } from "vitest";
+import { borrowChecked } from "./pipeline.js";
+
+function borrowckSrc(src: string) {
+  const { diagnostics, borrowCheck } = borrowChecked(src);
+  return borrowCheck.allDiags.map(
+    d => `${src.slice(diagnostics.offsetAt(d.range.start), diagnostics.offsetAt(d.range.end))}: ${d.message}`,
+  );
+}
+
+const longest = `
+actor struct Actor { }
+
+function longest(cond: boolean, x: handle Actor, y: handle Actor): handle<x, y> Actor {
+  if (cond) {
+    return x;
+  } else {
+    return y;
+  }
+}
+
+function same(x: handle Actor): handle<x> Actor {
+  return x;
+}
+`;
+
+describe("borrow checker", () => {
+  it("accepts the place-annotated examples", () => {
+    const src = `${longest}
+struct Return {
+  a: Actor;
+  b: Actor;
+  z: handle<this.a, this.b> Actor;
+}
+
+function makeAndExtend(): handle Actor {
+  const a = await Actor {}.start();
+  const b = await Actor {}.start();
+  const z: handle<a, b> Actor = longest(true, a, b);
+  return a;
+}
+
+function makeAndExtendDependent1(): Return {
+  const a = await Actor {}.start();
+  const b = await Actor {}.start();
+  const z: handle<a, b> Actor = longest(true, a, b);
+
+  return Return { a, b, z };
+}
+`;
+    expect(borrowckSrc(src)).toEqual([]);
+  });
+
+  it("rejects leaking owned actors through a borrow", () => {
+    const src = `${longest}
+struct LongestWrapper {
+  z: handle Actor;
+}
+
+function makeAndExtendDependent2(): LongestWrapper {
+  const a = await Actor {}.start();
+  const b = await Actor {}.start();
+  const z: LongestWrapper<(a, b)> = LongestWrapper { z: longest(true, a, b) };
+
+  return z;
+}
+
+function returnsBorrow(): handle Actor {
+  const a = await Actor {}.start();
+  return same(a);
+}
+`;
+    expect(borrowckSrc(src)).toMatchSnapshot();
+  });
+
+  it("checks declared place sets", () => {
+    const src = `${longest}
+function narrow(x: handle Actor, y: handle Actor): handle<x> Actor {
+  return longest(true, x, y);
+}
+
+function ownedResult(x: handle Actor): handle Actor {
+  return x;
+}
+
+function local(x: handle Actor, y: handle Actor) {
+  const z: handle<x> Actor = longest(false, x, y);
+}
+`;
+    expect(borrowckSrc(src)).toMatchSnapshot();
+  });
+
+  it("rejects using borrows after their owner is gone", () => {
+    const src = `${longest}
+function take(a: owned Actor) { }
+
+function moved() {
+  const a = await Actor {}.start();
+  const z = same(a);
+  take(a);
+  same(z);
+  take(a);
+}
+
+function dropped() {
+  const a = await Actor {}.start();
+  const z = same(a);
+  drop(a);
+  same(z);
+}
+
+function scoped(cond: boolean) {
+  let z = await Actor {}.start();
+  if (cond) {
+    const a = await Actor {}.start();
+    z = same(a);
+  }
+  same(z);
+}
+`;
+    expect(borrowckSrc(src)).toMatchSnapshot();
+  });
+
+  it("only resets a handle in place", () => {
+    const src = `
+actor struct C { n: number; }
+query C.get(): number { return this.n; }
+function keep(c: handle C): handle<c> C { return c; }
+
+function m2(): number {
+  const c = await C { n: 1 }.start();
+  const z = keep(c);
+  const c3 = c.reset { n: 3 };
+  return await z.get();
+}
+
+function m3(): number {
+  let c = await C { n: 1 }.start();
+  const z = keep(c);
+  c = c.reset { n: 3 };
+  return await z.get();
+}
+`;
+    expect(borrowckSrc(src)).toEqual(["c.reset { n: 3 }: a reset has to be assigned back to what it resets, like `c = c.reset { ... }`"]);
+  });
+
+  it("rejects copying and sending unique handles", () => {
+    const src = `
+actor struct RiskyWorker { }
+query RiskyWorker.doRiskyThing(): number { return 1; }
+command RiskyWorker.adopt(other: RiskyWorker) { }
+
+actor struct Supervisor {
+  worker: unique handle RiskyWorker;
+}
+
+command Supervisor.monitor(): void {
+  try {
+    await this.worker.doRiskyThing();
+  } catch (e) {
+    this.worker = this.worker.reset { };
+  }
+  const copy = this.worker;
+  this.worker.adopt(this.worker);
+}
+`;
+    expect(borrowckSrc(src)).toMatchSnapshot();
+  });
+});
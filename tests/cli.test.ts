@@ -0,0 +1,143 @@
+import { expect, it, describe, beforeEach, afterEach } from "vitest";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { main } from "../src/cli.js";
+
+let dir: string;
+
+// runs the command line, with colors stripped from what it prints
+function run(...argv: string[]) {
+  let stdout = "";
+  let stderr = "";
+  const code = main(argv, { stdout: text => (stdout += text), stderr: text => (stderr += text) });
+  const plain = (text: string) => text.replace(/\x1b\[\d+m/g, "").replaceAll(dir, "<dir>");
+  return { code, stdout: plain(stdout), stderr: plain(stderr) };
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "ceiling-cli-"));
+  mkdirSync(join(dir, "src", "nested"), { recursive: true });
+  writeFileSync(join(dir, "src", "main.ceiling"), "function main() {\n  console.log(twice(2));\n}\n");
+  writeFileSync(join(dir, "src", "nested", "twice.ceiling"), "function twice(x: number): number {\n  return x * 2;\n}\n");
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("ceilingc", () => {
+  it("builds directories into --outDir", () => {
+    writeFileSync(join(dir, "src", "main.ceiling"), "function main() {\n  console.log(2);\n}\n");
+    expect(run("build", join(dir, "src"), "--outDir", join(dir, "out"), "--sourceMap")).toEqual({ code: 0, stdout: "", stderr: "" });
+
+    expect(readFileSync(join(dir, "out", "nested", "twice.ts"), "utf8")).toContain("export function twice(x: number): number {");
+    expect(readFileSync(join(dir, "out", "main.ts"), "utf8")).toContain("//# sourceMappingURL=main.ts.map");
+    const map = JSON.parse(readFileSync(join(dir, "out", "main.ts.map"), "utf8"));
+    expect(map.sources).toEqual(["../src/main.ceiling"]);
+  });
+
+  it("builds next to the sources by default", () => {
+    expect(run(join(dir, "src", "nested", "twice.ceiling")).code).toBe(0);
+    expect(existsSync(join(dir, "src", "nested", "twice.ts"))).toBe(true);
+  });
+
+  it("reports errors and skips files that have them", () => {
+    const result = run("build", join(dir, "src"), "--outDir", join(dir, "out"));
+    expect(result.code).toBe(1);
+    expect(result.stderr).toMatchSnapshot();
+    expect(existsSync(join(dir, "out", "main.ts"))).toBe(false);
+    expect(existsSync(join(dir, "out", "nested", "twice.ts"))).toBe(true);
+  });
+
+  it("checks without emitting", () => {
+    writeFileSync(join(dir, "src", "main.ceiling"), "function main() {\n  console.log(2);\n}\n");
+    expect(run("check", join(dir, "src")).code).toBe(0);
+    expect(existsSync(join(dir, "src", "main.ts"))).toBe(false);
+  });
+
+  it("dumps the syntax tree", () => {
+    const result = run("ast", join(dir, "src", "nested", "twice.ceiling"));
+    expect(result.code).toBe(0);
+    const ast = JSON.parse(result.stdout);
+    expect(ast.kind).toBe("Module");
+    expect(ast.decls[0].kind).toBe("FunctionDecl");
+    expect(ast.decls[0].name).toEqual({ kind: "Identifier", name: "twice", span: { start: 9, end: 14 } });
+  });
+
+  it("reports strings that never end", () => {
+    writeFileSync(join(dir, "src", "main.ceiling"), 'function main() {\n  console.log("hi);\n}\n');
+    for (const command of ["check", "build", "ast"]) {
+      const result = run(command, join(dir, "src", "main.ceiling"), "--no-color");
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain("error[E0001]: unterminated string literal\n --> <dir>/src/main.ceiling:2:15\n");
+    }
+  });
+
+  it("takes options from the project file and flags", () => {
+    writeFileSync(join(dir, "ceiling.json"), `{ "maxErrors": 1, "colour": false }`);
+    writeFileSync(join(dir, "src", "nested", "twice.ceiling"), "function twice(x: number): number {\n  return y;\n}\n");
+    const project = ["--project", join(dir, "ceiling.json")];
+
+    const result = run("check", join(dir, "src"), ...project);
+    expect(result.code).toBe(1);
+    expect(result.stderr).toMatchSnapshot();
+
+    // colors are off before anything is printed
+    let stderr = "";
+    main(["check", join(dir, "src"), ...project, "--no-color", "--maxErrors", "0"], {
+      stdout: () => {},
+      stderr: text => (stderr += text),
+    });
+    expect(stderr).not.toContain("\x1b[");
+    expect(stderr).toContain("2 errors in 2 files");
+  });
+
+  it("rejects invalid options", () => {
+    writeFileSync(join(dir, "ceiling.json"), `{ "target": "deno" }`);
+    const result = run("check", join(dir, "src"), "--project", join(dir, "ceiling.json"), "--maxErrors", "lots");
+    expect(result.code).toBe(2);
+    expect(result.stderr).toContain('error: `target` must be one of "browser", "node"');
+    expect(result.stderr).toContain("ceilingc: `--maxErrors` must be a whole number\n");
+  });
+
+  it("writes diagnostics for tools", () => {
+    const json = run("check", join(dir, "src"), "--format", "json");
+    expect(json.code).toBe(1);
+    expect(json.stdout.trimEnd().split("\n").map(line => JSON.parse(line))).toMatchObject([
+      { uri: "<dir>/src/main.ceiling", code: "E0103", message: "unknown name `twice`", severity: 1 },
+    ]);
+
+    const sarif = run("check", join(dir, "src"), "--format", "sarif");
+    expect(sarif.code).toBe(1);
+    const log = JSON.parse(sarif.stdout);
+    expect(log.runs[0].results).toMatchObject([
+      {
+        ruleId: "E0103",
+        level: "error",
+        locations: [{ physicalLocation: { artifactLocation: { uri: "<dir>/src/main.ceiling" }, region: { startLine: 2 } } }],
+      },
+    ]);
+
+    // problems with the options stay out of the log
+    const bad = run("check", join(dir, "src"), "--format", "sarif", "--maxErrors", "lots");
+    expect(bad.code).toBe(2);
+    expect(bad.stderr).toBe("ceilingc: `--maxErrors` must be a whole number\n");
+    expect(JSON.parse(bad.stdout).runs[0].results).toEqual([]);
+  });
+
+  it("applies fixes with --fix", () => {
+    writeFileSync(join(dir, "src", "main.ceiling"), "function main() {\n  let x = 1\n  console.log(x\n}\n");
+    const result = run("check", join(dir, "src"), "--fix");
+    expect(result).toEqual({ code: 0, stdout: "", stderr: "fixed 3 problems in <dir>/src/main.ceiling\n" });
+    expect(readFileSync(join(dir, "src", "main.ceiling"), "utf8")).toBe("function main() {\n  let x = 1;\n  console.log(x);\n}\n");
+  });
+
+  it("rejects bad usage", () => {
+    expect(run().code).toBe(2);
+    expect(run("build", "--nope", join(dir, "src")).code).toBe(2);
+    expect(run("check", join(dir, "missing")).stderr).toBe(
+      "ceilingc: ENOENT: no such file or directory, stat '<dir>/missing'\n",
+    );
+  });
+});
@@ -0,0 +1,268 @@
+import { expect, it, describe } from "vitest";
+import { generate } from "../src/codegen.js";
+import { Target } from "../src/options.js";
+import { checked } from "./pipeline.js";
+
+function generateSrc(src: string, target?: Target) {
+  const { module, resolution, typing, borrowCheck, bodies } = checked(src);
+  return generate(module, resolution, typing, borrowCheck, bodies, undefined, target);
+}
+
+describe("code generation", () => {
+  it("emits structs and functions", () => {
+    const src = `
+struct Point {
+  x: number;
+  y: number = 0;
+}
+
+function length(p: Point): number {
+  return p.x * p.x + p.y * p.y;
+}
+
+function main() {
+  const p = Point { x: 1 };
+  let total = 0;
+  for (const n of [1, 2, 3]) {
+    total += n;
+  }
+  if (p.x == 1 && total != 0) {
+    console.log(p.length());
+  } else if (total > 5) {
+    console.log((1 - 2) * 3);
+  } else {
+    console.log(-total, "done");
+  }
+}
+`;
+    expect(generateSrc(src)).toMatchSnapshot();
+  });
+
+  it("lowers actor structs to runtime classes", () => {
+    const src = `
+actor struct Counter {
+  private count: number = 0;
+  step: number;
+}
+
+query Counter.get(): number {
+  return this.count;
+}
+
+command Counter.add(n: number) {
+  this.count += n * this.step;
+}
+
+function main() {
+  const counter = await Counter { step: 2 }.start();
+  counter.add(3);
+  console.log(await counter.get());
+}
+`;
+    expect(generateSrc(src)).toMatchSnapshot();
+  });
+
+  it("installs worker_threads for the node target", () => {
+    const src = `
+actor struct Counter { }
+
+function main() {
+  const counter = await Counter {}.start();
+}
+`;
+    expect(generateSrc(src, "node").split("\n").slice(0, 5)).toEqual([
+      `import { Actor, drop, setPlatform, spawn } from "the-ceiling/runtime";`,
+      `import { nodePlatform } from "the-ceiling/runtime/node";`,
+      "",
+      "setPlatform(nodePlatform);",
+      "",
+    ]);
+    expect(generateSrc("function main() { }", "node")).toBe("export function main() {\n}\n");
+  });
+
+  it("renames runtime imports that the program declares too", () => {
+    const src = `
+actor struct Actor { }
+
+function spawn(): number {
+  return 1;
+}
+
+function main() {
+  const worker = await Actor {}.start();
+  const setPlatform = spawn();
+}
+`;
+    const out = generateSrc(src, "node");
+    expect(out.split("\n").slice(0, 5)).toEqual([
+      `import { Actor as $Actor, drop, setPlatform as $setPlatform, spawn as $spawn } from "the-ceiling/runtime";`,
+      `import { nodePlatform } from "the-ceiling/runtime/node";`,
+      "",
+      "$setPlatform(nodePlatform);",
+      "",
+    ]);
+    expect(out).toContain("export class Actor extends $Actor {\n  static readonly module = import.meta.url;\n  static readonly messages = {} as const;");
+    expect(out).toContain("const worker = await $spawn(new Actor({}));");
+    expect(out).toContain("const setPlatform = spawn();");
+  });
+
+  it("emits inserted drops and resets", () => {
+    const src = `
+actor struct RiskyWorker { }
+query RiskyWorker.doRiskyThing(): number { return 1; }
+
+actor struct Supervisor {
+  worker: unique handle RiskyWorker;
+}
+
+command Supervisor.monitor(): void {
+  try {
+    await this.worker.doRiskyThing();
+  } catch (e) {
+    this.worker = this.worker.reset { };
+  }
+}
+
+function same(x: handle RiskyWorker): handle<x> RiskyWorker {
+  return x;
+}
+
+function main(cond: boolean) {
+  const a = await RiskyWorker {}.start();
+  const b = await RiskyWorker {}.start();
+  const z = same(a);
+  drop(b);
+  if (cond) {
+    return;
+  }
+  z.doRiskyThing();
+}
+`;
+    expect(generateSrc(src)).toMatchSnapshot();
+  });
+
+  it("renames locals that shadow a handle dropped in their scope", () => {
+    const src = `
+actor struct Counter { n: number = 0; }
+query Counter.get(): number { return this.n; }
+
+struct Box { a: number; }
+
+function f(c: boolean): number {
+  let a = await Counter {}.start();
+  if (c) {
+    let a = 5;
+    for (const a of [a]) {
+      console.log(a);
+    }
+    return Box { a }.a;
+  }
+  return await a.get();
+}
+`;
+    const f = generateSrc(src).split("export async function f")[1];
+    expect(f).toContain("if (c) {\n      drop(a);\n      let a$1 = 5;\n      for (const a$2 of [a$1]) {\n        console.log(a$2);");
+    expect(f).toContain("return new Box({ a: a$1 }).a;");
+  });
+
+  it("moves handles into the actors they are sent to", () => {
+    const src = `
+actor struct DataProcessor {
+  private results: handle ResultsActor;
+}
+
+command DataProcessor.process(data: number[]) {
+  let sum = 0;
+  for (const n of data) {
+    sum += n;
+  }
+  this.results.store(sum);
+}
+
+command DataProcessor.replace(results: owned ResultsActor) {
+  this.results = results;
+}
+
+actor struct ResultsActor {
+  private totals: number[] = [];
+}
+
+command ResultsActor.store(value: number): void {
+  this.totals.push(value);
+}
+
+function main() {
+  const results = await ResultsActor { }.start();
+  const processor = await DataProcessor { results }.start();
+  processor.process([1, 2, 3, 4, 5]);
+  const other = await ResultsActor { }.start();
+  processor.replace(other);
+}
+`;
+    const main = generateSrc(src).split("export async function main")[1];
+    expect(main).toContain("const processor = await spawn(new DataProcessor({ results: move(results) }));");
+    expect(main).toContain('processor.command("replace", move(other));');
+    expect(main).not.toContain("drop(results)");
+  });
+
+  it("lowers ctx to explicit parameters", () => {
+    const src = `
+function main() {
+  ctx.value = 1;
+  console.log(ctx.value);
+  localSetTo2();
+  ctx { value = 2 } {
+    console.log(ctx.value);
+    ctx { value = ctx.value + 1 } {
+      localSetTo2();
+    }
+  }
+  console.log(fibMemo(10));
+}
+
+function localSetTo2() ctx { value: number } {
+  console.log(ctx.value);
+  ctx.value = 2;
+  console.log(ctx.value);
+}
+
+function fibMemo(n: number): number ctx { memo: Map<number, number> = new Map() } {
+  if (n <= 1) return n;
+  if (ctx.memo[n]) return ?; // shorthand for condition
+
+  const result = fibMemo(n - 1) + fibMemo(n - 2);
+  ctx.memo[n] = result;
+
+  return result;
+}
+`;
+    expect(generateSrc(src)).toMatchSnapshot();
+  });
+
+  it("emits throws and returned conditions", () => {
+    const src = `
+struct ParseError {
+  message: string;
+}
+
+function parse(s: string): number throws ParseError {
+  if (s == "") {
+    throw ParseError { message: "empty" };
+  }
+  return 1;
+}
+
+function cached(memo: Map<string, number>, s: string): number {
+  if (memo.get(s)) return ?;
+  else if (s == "x") return 0;
+  else if (memo.get("default")) return ?;
+  try {
+    return parse(s);
+  } catch (e) {
+    return 0;
+  }
+}
+`;
+    expect(generateSrc(src)).toMatchSnapshot();
+  });
+});
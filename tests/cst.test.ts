@@ -0,0 +1,96 @@
+import { expect, it, describe } from "vitest";
+import { buildCST, commentsOf, CSTNode, isToken, printCST, tokensOf } from "../src/cst.js";
+import { ASTKind, parseModule, TokenKind } from "../src/syntax.js";
+
+const src = `// counters count
+actor struct Counter {
+  read i: number; // never negative
+}
+
+/* queries are
+   request-response */
+query Counter.increment(): number {
+  this.i += 1; /* bump */
+  return this.i;
+}
+\r
+function main() {
+  const counter = await Counter { i: 0 }.start();
+  console.log(await counter.increment()); // 1
+}
+// the end`;
+
+function cstSrc(src: string) {
+  return buildCST(parseModule("test.ceiling", src));
+}
+
+// the tree as nested AST kinds, with tokens as their text
+function outline(node: CSTNode): unknown[] {
+  return node.children.map(child => (isToken(child) ? child.text : [ASTKind[child.kind], ...outline(child)]));
+}
+
+describe("concrete syntax tree", () => {
+  it("prints back the exact source", () => {
+    expect(printCST(cstSrc(src))).toBe(src);
+    // even when it doesn't parse
+    const broken = "function f( { let = ; } /* open\nactor struct";
+    expect(printCST(cstSrc(broken))).toBe(broken);
+    expect(printCST(cstSrc(""))).toBe("");
+  });
+
+  it("follows the AST", () => {
+    const parsed = parseModule("test.ceiling", "function f(x: number) { return x; }");
+    const tree = buildCST(parsed);
+    expect(outline(tree)).toEqual([
+      [
+        "FunctionDecl",
+        "function",
+        ["Identifier", "f"],
+        "(",
+        // bindings aren't AST nodes of their own
+        ["Identifier", "x"],
+        ":",
+        ["Identifier", "number"],
+        ")",
+        "{",
+        ["Return", "return", ["Identifier", "x"]],
+        ";",
+        "}",
+      ],
+      "",
+    ]);
+    expect((tree.children[0] as CSTNode).node).toBe(parsed.module.decls[0]);
+  });
+
+  it("keeps comments with the tokens around them", () => {
+    const tree = cstSrc(src);
+    expect(commentsOf(tree).map(c => c.text)).toEqual([
+      "// counters count",
+      "// never negative",
+      "/* queries are\n   request-response */",
+      "/* bump */",
+      "// 1",
+      "// the end",
+    ]);
+
+    const [counter, increment] = tree.children as CSTNode[];
+    expect(commentsOf(counter).map(c => c.text)).toEqual(["// counters count", "// never negative"]);
+    expect(commentsOf(increment).map(c => c.text)).toEqual(["/* queries are\n   request-response */", "/* bump */"]);
+
+    const last = [...tokensOf(tree)].pop()!;
+    expect(last.kind).toBe(TokenKind.EndOfFile);
+    expect(commentsOf(last).map(c => c.text)).toEqual(["// the end"]);
+  });
+
+  it("rewrites without losing comments", () => {
+    const tree = cstSrc(src);
+    for (const token of tokensOf(tree)) {
+      if (token.kind === TokenKind.Identifier && token.text === "Counter") token.text = "Tally";
+      // reindent with tabs
+      for (const trivia of token.leading) {
+        if (trivia.kind === TokenKind.Whitespace) trivia.text = trivia.text.replace(/ {2}/g, "\t");
+      }
+    }
+    expect(printCST(tree)).toBe(src.replaceAll("Counter", "Tally").replace(/\n {2}(?! )/g, "\n\t"));
+  });
+});
@@ -0,0 +1,138 @@
+import { expect, it, describe } from "vitest";
+import { isError } from "../src/syntax.js";
+import { inferCtx } from "../src/ctx.js";
+import { resolved } from "./pipeline.js";
+
+function inferSrc(src: string) {
+  const { module, diagnostics, resolution } = resolved(src);
+  expect(resolution.allDiags.map(d => d.message)).toEqual([]);
+  return inferCtx(diagnostics, module, resolution);
+}
+
+// what each function takes from its callers, `?` marking fields with defaults
+function accepted(src: string) {
+  const inference = inferSrc(src);
+  return {
+    accepts: Object.fromEntries(
+      [...inference.accepts].map(([decl, fields]) => [
+        isError(decl.name) ? "" : decl.name.name,
+        [...fields.values()].map(field => `${field.name}${field.required ? "" : "?"}`),
+      ]),
+    ),
+    diags: inference.allDiags.map(d => d.message),
+  };
+}
+
+describe("ctx inference", () => {
+  it("accepts the README examples", () => {
+    const src = `
+function main() {
+  ctx.value = 1;
+  console.log(ctx.value);
+  localSetTo2();
+  ctx { value = 2 } {
+    console.log(ctx.value);
+  }
+}
+
+function localSetTo2() ctx { value: number } {
+  console.log(ctx.value);
+  ctx.value = 2;
+  console.log(ctx.value);
+}
+
+function fibMemo(n: number): number ctx { memo: Map<number, number> = new Map() } {
+  if (n <= 1) return n;
+  if (ctx.memo[n]) return ?; // shorthand for condition
+
+  const result = fibMemo(n - 1) + fibMemo(n - 2);
+  ctx.memo[n] = result;
+
+  return result;
+}
+`;
+    expect(accepted(src)).toEqual({
+      accepts: { main: [], localSetTo2: ["value"], fibMemo: ["memo?"] },
+      diags: [],
+    });
+  });
+
+  it("infers requirements through call chains", () => {
+    const src = `
+function outer() {
+  ctx.depth = 0;
+  middle();
+}
+
+function middle() {
+  inner();
+}
+
+function inner() {
+  console.log(ctx.depth, ctx.name);
+}
+
+function even(n: number): boolean {
+  if (n == 0) return ctx.parity;
+  return odd(n - 1);
+}
+
+function odd(n: number): boolean {
+  return even(n - 1);
+}
+`;
+    expect(accepted(src)).toEqual({
+      accepts: { outer: ["name"], middle: ["depth", "name"], inner: ["depth", "name"], even: ["parity"], odd: ["parity"] },
+      diags: [],
+    });
+  });
+
+  it("only passes along fields that are set", () => {
+    const src = `
+function caller() {
+  show();
+  if (true) {
+    ctx.label = "a";
+  } else {
+    ctx.label = "b";
+  }
+  show();
+  while (true) {
+    ctx.count = 1;
+  }
+  show();
+}
+
+function show() ctx { label: string = ""; count: number = 0 } {
+  console.log(ctx.label, ctx.count);
+}
+`;
+    const inference = inferSrc(src);
+    expect([...inference.passes.values()]).toEqual([[], ["label"], ["label"]]);
+  });
+
+  it("reports fields that are never set", () => {
+    const src = `
+actor struct Counter { }
+
+query Counter.get(): number {
+  return ctx.count;
+}
+
+function declared() ctx { a: number } {
+  console.log(ctx.b);
+}
+
+function other() {
+  ctx { a = 1 } {
+    declared();
+  }
+  declared();
+}
+`;
+    expect(accepted(src).diags).toEqual([
+      "`ctx.count` is never set here, and queries and commands start with an empty ctx",
+      "`ctx.b` is never set here, and `declared`'s ctx signature does not declare it",
+    ]);
+  });
+});
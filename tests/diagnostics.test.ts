@@ -0,0 +1,130 @@
+import { expect, it, describe } from "vitest";
+import { Code, Diagnostics, Severity } from "../src/diagnostics.js";
+import { compile } from "../src/compile.js";
+
+const src = `actor struct Actor { }
+
+function same(x: handle Actor): handle<x> Actor {
+  return x;
+}
+
+function main() {
+  const a = await Actor {}.start();
+  const z = same(a);
+  drop(a);
+  same(z);
+}
+`;
+
+// the span of the `n`th `needle`
+function span(needle: string, n = 0) {
+  let start = -1;
+  for (let i = 0; i <= n; i++) start = src.indexOf(needle, start + 1);
+  return { start, end: start + needle.length };
+}
+
+describe("diagnostics", () => {
+  const diagnostics = new Diagnostics("test.ceiling", src);
+
+  it("only carries the details it was given", () => {
+    expect(Object.keys(diagnostics.createDiagnostic(span("a"), "plain"))).toEqual(["range", "severity", "message", "source"]);
+    expect(
+      diagnostics.createDiagnostic(span("z"), "detailed", Severity.Error, {
+        code: Code.BorrowOutlivesPlace,
+        labels: [{ span: span("drop(a)"), message: "dropped here" }],
+        notes: [],
+      }),
+    ).toMatchObject({
+      code: "E0406",
+      relatedInformation: [{ location: { uri: "test.ceiling", range: diagnostics.getRange(span("drop(a)")) }, message: "dropped here" }],
+    });
+  });
+
+  it("renders labels, notes and help without colors", () => {
+    const diag = diagnostics.createDiagnostic(span("z)"), "`z` borrows from `a`, which has been dropped", Severity.Error, {
+      code: Code.BorrowOutlivesPlace,
+      label: "borrow later used here",
+      labels: [
+        { span: span("same(a)"), message: "`z` borrows `a` here" },
+        { span: span("drop(a)"), message: "`a` dropped here while `z` still borrows it" },
+      ],
+      notes: ["handles are dropped when their owner is"],
+      help: ["move `drop(a)` after the last use of `z`"],
+    });
+    const output = diagnostics.formatDiagnostic(diag, false);
+    expect(output).not.toContain("\x1b[");
+    expect(output).toMatchSnapshot();
+  });
+
+  it("colors by severity", () => {
+    const warning = diagnostics.formatDiagnostic(diagnostics.createDiagnostic(span("a"), "careful", Severity.Warning));
+    expect(warning.split("\n")[0]).toBe("\x1b[1m\x1b[33mwarning\x1b[0m\x1b[1m: careful\x1b[0m");
+    const hint = diagnostics.formatDiagnostic(diagnostics.createDiagnostic(span("a"), "psst", Severity.Hint), false);
+    expect(hint.split("\n")[0]).toBe("hint: psst");
+  });
+
+  it("draws ranges over several lines", () => {
+    const body = { start: src.indexOf("{\n  const"), end: src.length - 1 };
+    const diag = diagnostics.createDiagnostic(body, "this body is too long", Severity.Error, {
+      label: "spans all of this",
+      labels: [{ span: span("main"), message: "in this function" }],
+    });
+    expect(diagnostics.formatDiagnostic(diag, false)).toMatchSnapshot();
+
+    const statements = { start: span("const a").start, end: span("same(z)").end };
+    const four = diagnostics.createDiagnostic(statements, "these statements", Severity.Error, { label: "all four" });
+    expect(diagnostics.formatDiagnostic(four, false)).toMatchSnapshot();
+  });
+
+  it("points into other files", () => {
+    const other = new Diagnostics("actor.ceiling", "actor struct Actor {\n  count: number;\n}\n");
+    const diag = {
+      ...diagnostics.createDiagnostic(span("Actor", 2), "`Actor` has no field `x`", Severity.Error, { code: Code.UnknownField }),
+      relatedInformation: [
+        { location: { uri: "actor.ceiling", range: other.getRange({ start: 13, end: 18 }) }, message: "`Actor` declared here" },
+      ],
+    };
+    expect(diagnostics.formatDiagnostic(diag, false, uri => (uri === "actor.ceiling" ? other : undefined))).toMatchSnapshot();
+    expect(diagnostics.formatDiagnostic(diag, false)).toContain("::: actor.ceiling:1:14: `Actor` declared here");
+  });
+
+  it("applies fixes that don't overlap", () => {
+    const fix = (start: number, end: number, newText: string) => ({
+      ...diagnostics.createDiagnostic({ start, end }, "fixable", Severity.Error, {
+        fixes: [{ title: "fix it", edits: [{ span: { start, end }, text: newText }] }],
+      }),
+    });
+    const { text, applied } = new Diagnostics("test.ceiling", "abcdef").applyFixes([
+      fix(1, 3, "X"),
+      fix(2, 4, "Y"), // overlaps the first
+      fix(5, 5, "!"),
+      fix(5, 5, "?"), // would go in either order
+      diagnostics.createDiagnostic({ start: 0, end: 1 }, "unfixable"),
+    ]);
+    expect({ text, applied }).toEqual({ text: "aXde!f", applied: 2 });
+  });
+
+  it("suggests `await` and lifetimes", () => {
+    const fixed = (src: string) => {
+      const { allDiags, diagnostics } = compile("test.ceiling", src);
+      return diagnostics.applyFixes(allDiags).text;
+    };
+    const counter = "actor struct Counter { n: number = 0; }\nquery Counter.get(): number { return this.n; }\n";
+    expect(fixed(`${counter}function f(c: handle Counter): number { return c.get(); }`)).toContain("return await c.get();");
+    expect(fixed(`${counter}function f(c: handle Counter): number { return c.get()[0]; }`)).toContain(
+      "return (await c.get())[0];",
+    );
+    expect(fixed(`${counter}function f(c: handle Counter): handle Counter { return c; }`)).toContain(
+      "function f(c: handle Counter): handle<c> Counter",
+    );
+    expect(fixed(`${counter}function f(c: handle Counter, d: handle Counter): handle<c> Counter { return d; }`)).toContain(
+      "handle<c, d> Counter",
+    );
+  });
+
+  it("labels where borrowed places died", () => {
+    const { allDiags, diagnostics } = compile("test.ceiling", src);
+    expect(allDiags.map(d => [d.code, d.message])).toEqual([[Code.BorrowOutlivesPlace, "`z` borrows from `a`, which has been dropped"]]);
+    expect(diagnostics.formatDiagnostic(allDiags[0], false)).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,103 @@
+import { expect, it, describe } from "vitest";
+import { SourceDocument, TextEdit } from "../src/document.js";
+import { parseModule } from "../src/syntax.js";
+
+const src = `struct Point {
+  x: number;
+  y: number;
+}
+
+function length(p: Point): number {
+  return p.x * p.x + p.y * p.y;
+}
+
+actor struct Counter {
+  count: number = 0;
+}
+
+query Counter.get(): number {
+  return this.count;
+}
+
+function main() {
+  console.log(length(Point { x: 1, y: 2 }));
+}
+`;
+
+// edits the document and checks it against parsing the new text from scratch
+function editSrc(doc: SourceDocument, edit: TextEdit) {
+  const parsed = doc.edit(edit);
+  const full = parseModule("test.ceiling", doc.getText());
+  expect(parsed.module).toEqual(full.module);
+  expect(parsed.allDiags).toEqual(full.allDiags);
+  return doc.reparsed.map(span => doc.getText().slice(span.start, span.end).split("\n")[0]);
+}
+
+function replace(doc: SourceDocument, needle: string, text: string): TextEdit {
+  const start = doc.getText().indexOf(needle);
+  return { start, end: start + needle.length, text };
+}
+
+describe("incremental parsing", () => {
+  it("re-parses only the islands around an edit", () => {
+    const doc = new SourceDocument("test.ceiling", src);
+    const before = doc.parse().module.decls;
+
+    expect(editSrc(doc, replace(doc, "this.count", "this.count + 1"))).toEqual(["query Counter.get(): number {"]);
+    const after = doc.parse().module.decls;
+    expect(after.map((decl, i) => decl === before[i])).toEqual([true, true, true, false, true]);
+
+    // lines added above only move everything
+    expect(editSrc(doc, { start: 0, end: 0, text: "\n\n" })).toEqual([]);
+    expect(doc.parse().module.decls.every((decl, i) => decl === after[i])).toBe(true);
+  });
+
+  it("splits and merges islands", () => {
+    const doc = new SourceDocument("test.ceiling", src);
+    expect(editSrc(doc, replace(doc, "  return p.x", "}\nfunction inner() {\n  return p.x"))).toEqual([
+      "function length(p: Point): number {",
+      "function inner() {",
+    ]);
+    expect(doc.parse().module.decls).toHaveLength(6);
+
+    editSrc(doc, replace(doc, "}\nfunction inner() {\n", ""));
+    editSrc(doc, replace(doc, "count: number = 0;\n}", "count: number = 0;\n"));
+    expect(doc.parse().module.decls).toHaveLength(5);
+  });
+
+  it("moves diagnostics with their islands", () => {
+    const doc = new SourceDocument("test.ceiling", src.replace("return this.count;", "return this.count +;"));
+    expect(doc.parse().allDiags.map(d => d.range.start.line)).toEqual([14]);
+
+    editSrc(doc, { start: 0, end: 0, text: "struct Empty { }\n" });
+    expect(doc.parse().allDiags.map(d => d.range.start.line)).toEqual([15]);
+
+    // same length, one line fewer
+    editSrc(doc, replace(doc, "  x: number;\n", "  x: number;  "));
+    expect(doc.parse().allDiags.map(d => d.range.start.line)).toEqual([14]);
+
+    editSrc(doc, replace(doc, "+;", ";"));
+    expect(doc.parse().allDiags).toEqual([]);
+  });
+
+  it("matches a full parse over many edits", () => {
+    const pieces = [
+      ...["function ", "f() ", "{ ", "} ", "actor ", "struct ", "S ", "x: number; ", "return 1; ", "(", ")", "\n", ";"],
+      ...["// ", "/* ", "*/ "],
+    ];
+    const doc = new SourceDocument("test.ceiling", src);
+
+    // a fixed sequence of random-looking edits, including ones that tear islands apart
+    let seed = 1;
+    const random = (n: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % n;
+    };
+    for (let i = 0; i < 300; i++) {
+      const length = doc.getText().length;
+      const start = random(length + 1);
+      const end = Math.min(length, start + random(12));
+      editSrc(doc, { start, end, text: random(3) === 0 ? "" : pieces[random(pieces.length)] });
+    }
+  });
+});
@@ -0,0 +1,153 @@
+import { expect, it, describe } from "vitest";
+import { isError } from "../src/syntax.js";
+import { typed } from "./pipeline.js";
+
+// what each function, query and command may throw, and what the checks report
+function effectsSrc(src: string) {
+  const { typing } = typed(src);
+
+  return {
+    throws: Object.fromEntries(
+      [...typing.effects.throws].map(([decl, names]) => [isError(decl.name) ? "" : decl.name.name, [...names]]),
+    ),
+    diagnostics: typing.allDiags.map(d => d.message),
+  };
+}
+
+describe("effects", () => {
+  it("infers what escapes undeclared functions", () => {
+    const src = `
+struct ParseError { message: string; }
+
+function parse(s: string): number throws ParseError {
+  if (s == "") throw ParseError { message: "empty" };
+  return 1;
+}
+
+function twice(s: string): number {
+  return parse(s) + parse(s);
+}
+
+function again(s: string): number {
+  return twice(s);
+}
+
+function safe(s: string): number {
+  try {
+    return twice(s);
+  } catch (e) {
+    return 0;
+  }
+}
+
+function fails() {
+  throw new Error("no");
+}
+`;
+    expect(effectsSrc(src)).toEqual({
+      throws: { parse: ["ParseError"], twice: ["ParseError"], again: ["ParseError"], safe: [], fails: ["Error"] },
+      diagnostics: [],
+    });
+  });
+
+  it("infers through recursion", () => {
+    const src = `
+function even(n: number): boolean {
+  if (n == 0) return true;
+  return odd(n - 1);
+}
+
+function odd(n: number): boolean {
+  if (n < 0) throw new Error("negative");
+  return even(n - 1);
+}
+`;
+    expect(effectsSrc(src).throws).toEqual({ even: ["Error"], odd: ["Error"] });
+  });
+
+  it("reports throws that are neither caught nor declared", () => {
+    const src = `
+struct ParseError { }
+struct IOError { }
+
+function load(): string throws IOError {
+  throw IOError {};
+}
+
+function parse(): number throws ParseError {
+  load();
+  throw new Error("bad");
+}
+
+function both(): number throws ParseError | IOError {
+  load();
+  return parse();
+}
+
+actor struct Reader { }
+
+query Reader.get(): string {
+  return load();
+}
+
+command Reader.poke() throws IOError {
+  load();
+}
+`;
+    expect(effectsSrc(src).diagnostics).toEqual([
+      "`load` may throw `IOError`, which is neither caught nor declared",
+      "`Error` is thrown here, which is neither caught nor declared",
+      "`load` may throw `IOError`, which is neither caught nor declared",
+    ]);
+  });
+
+  it("rethrows what a try body throws", () => {
+    const src = `
+struct E1 { }
+
+function a(): number throws E1 {
+  throw E1 {};
+}
+
+function rethrow(): number {
+  try {
+    return a();
+  } catch (e) {
+    throw e;
+  }
+}
+
+actor struct Reader { }
+
+query Reader.get(): number {
+  return rethrow();
+}
+`;
+    expect(effectsSrc(src)).toEqual({
+      throws: { a: ["E1"], rethrow: ["E1"], get: [] },
+      diagnostics: ["`rethrow` may throw `E1`, which is neither caught nor declared"],
+    });
+  });
+
+  it("returns conditions with `return ?`", () => {
+    const src = `
+function lookup(memo: Map<number, number>, n: number): number {
+  if (memo.get(n)) return ?;
+  return 0;
+}
+
+function loose(): number {
+  return ?;
+}
+`;
+    expect(effectsSrc(src)).toEqual({
+      throws: { lookup: [], loose: [] },
+      diagnostics: ["`return ?` returns the condition of the enclosing `if`, but there is none"],
+    });
+  });
+
+  it("checks the type of returned conditions", () => {
+    const src = `function f(s: string): number { if (s) return ?; return 0; }`;
+    expect(effectsSrc(src).diagnostics).toEqual(["type mismatch: expected `number`, found `string`"]);
+  });
+});
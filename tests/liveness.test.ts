@@ -0,0 +1,208 @@
+import { expect, it, describe } from "vitest";
+import { ASTKind, Expr, isError, Stmt } from "../src/syntax.js";
+import { checked } from "./pipeline.js";
+
+// an outline of the lowered statements, with source text for everything but drops
+function outline(src: string, stmts: Stmt[], indent = ""): string[] {
+  const text = (node: { span: { start: number; end: number } }) => src.slice(node.span.start, node.span.end);
+  const expr = (e: Expr) => (e.kind === ASTKind.Identifier && e.name.startsWith("$") ? e.name : text(e));
+
+  return stmts.flatMap(stmt => {
+    switch (stmt.kind) {
+      case ASTKind.Drop:
+        return [`${indent}drop(${stmt.target.name})`];
+      case ASTKind.Const:
+        if (!isError(stmt.binding) && !isError(stmt.binding.name) && stmt.binding.name.name === "$ret") {
+          return [`${indent}const $ret = ${expr(stmt.init)}`];
+        }
+        return [indent + text(stmt)];
+      case ASTKind.Return:
+        return [`${indent}return${stmt.value ? ` ${expr(stmt.value)}` : ""}`];
+      case ASTKind.Throw:
+        return [`${indent}throw ${expr(stmt.value)}`];
+      case ASTKind.Block:
+        return outline(src, stmt.stmts, indent);
+      case ASTKind.If:
+        return [
+          `${indent}if ${text(stmt.cond)}`,
+          ...outline(src, [stmt.then], indent + "  "),
+          ...(stmt.else ? [`${indent}else`, ...outline(src, [stmt.else], indent + "  ")] : []),
+        ];
+      case ASTKind.While:
+        return [`${indent}while ${text(stmt.cond)}`, ...outline(src, [stmt.body], indent + "  ")];
+      case ASTKind.Try:
+        return [
+          `${indent}try`,
+          ...(isError(stmt.body) ? [] : outline(src, [stmt.body], indent + "  ")),
+          `${indent}catch`,
+          ...outline(src, [stmt.handler], indent + "  "),
+        ];
+    }
+    return [indent + text(stmt)];
+  });
+}
+
+function lowerSrc(src: string) {
+  const lowered: Record<string, string[]> = {};
+  for (const [decl, body] of checked(src).bodies) {
+    if (!isError(decl.name)) lowered[decl.name.name] = outline(src, body);
+  }
+  return lowered;
+}
+
+const prelude = `
+actor struct Actor { }
+query Actor.ping(): number { return 1; }
+
+function same(x: handle Actor): handle<x> Actor {
+  return x;
+}
+
+function consume(x: owned Actor) { }
+`;
+
+describe("drop insertion", () => {
+  it("drops after the last use of an owner or its dependents", () => {
+    const src = `${prelude}
+function main() {
+  const a = await Actor {}.start();
+  const b = await Actor {}.start();
+  const z = same(a);
+  b.ping();
+  z.ping();
+  console.log(1);
+}
+`;
+    expect(lowerSrc(src).main).toEqual([
+      "const a = await Actor {}.start()",
+      "try",
+      "  const b = await Actor {}.start()",
+      "  try",
+      "    const z = same(a)",
+      "    b.ping()",
+      "    drop(b)",
+      "    z.ping()",
+      "    drop(a)",
+      "    console.log(1)",
+      "  catch",
+      "    drop(b)",
+      "    throw $e",
+      "catch",
+      "  drop(a)",
+      "  throw $e",
+    ]);
+  });
+
+  it("keeps a reset handle owned", () => {
+    const src = `${prelude}
+function main() {
+  let a = await Actor {}.start();
+  a = a.reset { };
+  a.ping();
+  console.log(1);
+}
+`;
+    expect(lowerSrc(src).main).toEqual([
+      "let a = await Actor {}.start()",
+      "try",
+      "  a = a.reset { }",
+      "  a.ping()",
+      "  drop(a)",
+      "  console.log(1)",
+      "catch",
+      "  drop(a)",
+      "  throw $e",
+    ]);
+  });
+
+  it("does not drop moved or explicitly dropped handles", () => {
+    const src = `${prelude}
+function main() {
+  const a = await Actor {}.start();
+  const b = await Actor {}.start();
+  consume(a);
+  drop(b);
+}
+
+function unused(x: owned Actor) {
+  console.log(1);
+}
+`;
+    expect(lowerSrc(src)).toMatchSnapshot();
+  });
+
+  it("drops on every branch", () => {
+    const src = `${prelude}
+function main(cond: boolean) {
+  const a = await Actor {}.start();
+  if (cond) {
+    consume(a);
+  }
+  while (cond) {
+    const b = await Actor {}.start();
+    b.ping();
+  }
+}
+`;
+    expect(lowerSrc(src).main).toMatchSnapshot();
+  });
+
+  it("drops before early returns", () => {
+    const src = `${prelude}
+function early(cond: boolean): number {
+  const a = await Actor {}.start();
+  const b = await Actor {}.start();
+  if (cond) {
+    return await a.ping();
+  }
+  b.ping();
+  return 2;
+}
+
+function moves(): handle Actor {
+  const a = await Actor {}.start();
+  const b = await Actor {}.start();
+  return a;
+}
+`;
+    expect(lowerSrc(src)).toMatchSnapshot();
+  });
+
+  it("keeps handles alive for catch handlers", () => {
+    const src = `${prelude}
+function main() {
+  const a = await Actor {}.start();
+  const b = await Actor {}.start();
+  try {
+    b.ping();
+  } catch (e) {
+    a.ping();
+  }
+}
+`;
+    expect(lowerSrc(src).main).toMatchSnapshot();
+  });
+
+  it("drops what a throw leaves owned", () => {
+    const src = `${prelude}
+function tryit(): number {
+  const a = await Actor {}.start();
+  try {
+    const v = await a.ping();
+    return v;
+  } catch (e) {
+    return 0;
+  }
+}
+
+function uncaught(x: owned Actor) {
+  const b = await Actor {}.start();
+  b.ping();
+  x.ping();
+  throw 1;
+}
+`;
+    const { tryit, uncaught } = lowerSrc(src);
+    expect({ tryit, uncaught }).toMatchSnapshot();
+  });
+});
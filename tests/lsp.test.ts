@@ -0,0 +1,181 @@
+import { expect, it, describe } from "vitest";
+import { PassThrough } from "node:stream";
+import { LanguageServer, listen, Message } from "../src/lsp.js";
+
+const uri = "file:///test.ceiling";
+
+// a server with `src` open, and a way to ask it things
+function openSrc(src: string) {
+  const sent: Message[] = [];
+  const server = new LanguageServer(message => sent.push(message));
+  server.receive({ jsonrpc: "2.0", method: "textDocument/didOpen", params: { textDocument: { uri, text: src } } });
+
+  let id = 0;
+  const request = (method: string, params: object) => {
+    server.receive({ jsonrpc: "2.0", id: ++id, method, params: { textDocument: { uri }, ...params } });
+    return sent.find(m => m.id === id);
+  };
+  return { server, sent, request };
+}
+
+// where the `n`th `needle` in `src` starts
+function at(src: string, needle: string, n = 0) {
+  let offset = -1;
+  for (let i = 0; i <= n; i++) offset = src.indexOf(needle, offset + 1);
+  const lines = src.slice(0, offset).split("\n");
+  return { line: lines.length - 1, character: lines[lines.length - 1].length };
+}
+
+const counter = `actor struct Counter {
+  count: number = 0;
+}
+
+query Counter.get(): number {
+  return this.count;
+}
+
+function same(c: handle Counter): handle<c> Counter {
+  return c;
+}
+
+function main() {
+  const counter = await Counter {}.start();
+  const borrowed = same(counter);
+  console.log(await borrowed.get());
+}
+`;
+
+describe("language server", () => {
+  it("publishes diagnostics as documents change", () => {
+    const { server, sent } = openSrc("function main() {\n  missing();\n}\n");
+    const change = (...contentChanges: object[]) =>
+      server.receive({ jsonrpc: "2.0", method: "textDocument/didChange", params: { textDocument: { uri }, contentChanges } });
+    change({ range: { start: { line: 1, character: 2 }, end: { line: 1, character: 9 } }, text: "main" });
+    change(
+      { text: "function main() { }\n" },
+      { range: { start: { line: 0, character: 18 }, end: { line: 0, character: 18 } }, text: "nope(); " },
+    );
+    server.receive({ jsonrpc: "2.0", method: "textDocument/didClose", params: { textDocument: { uri } } });
+
+    expect(sent.map(m => (m.params as { diagnostics: { message: string }[] }).diagnostics.map(d => d.message))).toEqual([
+      ["unknown name `missing`"],
+      [],
+      ["unknown name `nope`"],
+      [],
+    ]);
+    expect(sent[0].params).toMatchObject({
+      uri,
+      diagnostics: [{ range: { start: { line: 1, character: 2 }, end: { line: 1, character: 9 } }, severity: 1, source: "the-ceiling" }],
+    });
+  });
+
+  it("survives a bad notification", () => {
+    const { server, sent, request } = openSrc(counter);
+    const change = (params: object) => server.receive({ jsonrpc: "2.0", method: "textDocument/didChange", params });
+    // an opening quote, before its closing one is typed
+    change({ textDocument: { uri }, contentChanges: [{ range: { start: at(counter, "0;"), end: at(counter, "0;") }, text: '"' }] });
+    const { diagnostics } = sent[sent.length - 1].params as { diagnostics: { message: string }[] };
+    expect(diagnostics.map(d => d.message)).toEqual([
+      "unterminated string literal",
+      "type mismatch: expected `number`, found `string`",
+    ]);
+
+    change({ textDocument: { uri } });
+    expect(sent[sent.length - 1]).toMatchObject({ method: "window/logMessage", params: { type: 1 } });
+    expect(request("textDocument/documentSymbol", {})?.result).toHaveLength(3);
+
+    // a ranged edit means nothing without the text it was made to
+    const published = sent.length;
+    const other = "file:///other.ceiling";
+    change({ textDocument: { uri: other }, contentChanges: [{ range: { start: at(counter, "0;"), end: at(counter, "0;") }, text: "1" }] });
+    expect(sent.slice(published)).toMatchObject([
+      { method: "window/logMessage", params: { type: 1, message: `textDocument/didChange failed: \`${other}\` was changed without being opened` } },
+    ]);
+  });
+
+  it("shows types and lifetimes on hover", () => {
+    const { request } = openSrc(counter);
+    const hover = (needle: string, n?: number) =>
+      (request("textDocument/hover", { position: at(counter, needle, n) })?.result as { contents: { value: string } } | null)
+        ?.contents.value;
+
+    expect(hover("counter", 0)).toMatchSnapshot();
+    expect(hover("borrowed")).toMatchSnapshot();
+    expect(hover("same", 1)).toMatchSnapshot();
+    expect(hover("count")).toMatchSnapshot();
+    expect(hover("get", 1)).toMatchSnapshot();
+    expect(request("textDocument/hover", { position: at(counter, "await") })?.result).toBeNull();
+  });
+
+  it("goes to definitions", () => {
+    const { request } = openSrc(counter);
+    const definition = (needle: string, n?: number) =>
+      request("textDocument/definition", { position: at(counter, needle, n) })?.result as { range: { start: object } } | null;
+
+    expect(definition("borrowed", 1)?.range.start).toEqual(at(counter, "borrowed"));
+    expect(definition("Counter", 3)?.range.start).toEqual(at(counter, "Counter"));
+    expect(definition("c;")?.range.start).toEqual(at(counter, "c: handle"));
+    expect(definition("console")).toBeNull();
+  });
+
+  it("lists document symbols", () => {
+    const { request } = openSrc(counter);
+    type Symbol = { name: string; detail?: string; kind: number; children?: Symbol[] };
+    const outline = (symbols: Symbol[]): unknown[] =>
+      symbols.map(({ name, detail, kind, children }) => [name, detail, kind, ...(children ? [outline(children)] : [])]);
+
+    expect(outline(request("textDocument/documentSymbol", {})?.result as Symbol[])).toEqual([
+      ["Counter", "actor", 5, [["count", undefined, 8], ["get", "query", 6]]],
+      ["same", expect.any(String), 12],
+      ["main", expect.any(String), 12],
+    ]);
+  });
+
+  it("offers fixes as code actions", () => {
+    const src = "function main() {\n  let x = 1\n}\n";
+    const { request } = openSrc(src);
+    const actions = request("textDocument/codeAction", {
+      range: { start: at(src, "}"), end: at(src, "}") },
+      context: { diagnostics: [] },
+    })?.result;
+    expect(actions).toMatchObject([
+      {
+        title: "insert `;`",
+        kind: "quickfix",
+        isPreferred: true,
+        edit: { changes: { [uri]: [{ range: { start: at(src, "\n}"), end: at(src, "\n}") }, newText: ";" }] } },
+      },
+    ]);
+    expect(request("textDocument/codeAction", { range: { start: at(src, "main"), end: at(src, "main") } })?.result).toEqual([]);
+  });
+
+  it("frames messages on streams", async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    let exitCode: number | undefined;
+    listen(input, output, code => (exitCode = code));
+
+    const frame = (message: object) => {
+      const body = JSON.stringify(message);
+      return `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`;
+    };
+    const initialize = frame({ jsonrpc: "2.0", id: 1, method: "initialize", params: {} });
+    // split mid-message, as pipes do
+    input.write(initialize.slice(0, 10));
+    input.write(initialize.slice(10) + frame({ jsonrpc: "2.0", id: 2, method: "nope" }) + "Content-Length: 5\r\n\r\n{ no ");
+    input.write(frame({ jsonrpc: "2.0", id: 3, method: "shutdown" }) + frame({ jsonrpc: "2.0", method: "exit" }));
+    await new Promise(resolve => setImmediate(resolve));
+
+    const replies = String(output.read())
+      .split(/Content-Length: \d+\r\n\r\n/)
+      .filter(body => body)
+      .map(body => JSON.parse(body));
+    expect(replies.map(r => [r.id, r.result?.serverInfo?.name ?? r.result, r.error?.code])).toEqual([
+      [1, "the-ceiling", undefined],
+      [2, undefined, -32601],
+      [null, undefined, -32700],
+      [3, null, undefined],
+    ]);
+    expect(exitCode).toBe(0);
+  });
+});
@@ -0,0 +1,96 @@
+import { expect, it, describe } from "vitest";
+import { Severity } from "../src/diagnostics.js";
+import { applyFlags, createOptions, parseOptions } from "../src/options.js";
+import { compile } from "../src/compile.js";
+
+// what a `ceiling.json` sets, and where each complaint about it points
+function optionsSrc(src: string) {
+  const { options, allDiags } = parseOptions("ceiling.json", src);
+  return {
+    options: { ...options },
+    diagnostics: allDiags.map(d => {
+      const { line, character } = d.range.start;
+      return `${line + 1}:${character + 1} ${d.severity === Severity.Error ? "error" : "warning"}: ${d.message}`;
+    }),
+  };
+}
+
+describe("options", () => {
+  it("has defaults", () => {
+    expect({ ...createOptions() }).toEqual({
+      strictness: "error",
+      target: "browser",
+      sourceMap: false,
+      color: true,
+      format: "text",
+      maxErrors: 0,
+    });
+  });
+
+  it("loads a project file", () => {
+    const src = `{
+  "strictness": "warning",
+  "target": "node",
+  "maxErrors": 10
+}`;
+    expect(optionsSrc(src)).toEqual({
+      options: { strictness: "warning", target: "node", sourceMap: false, color: true, format: "text", maxErrors: 10 },
+      diagnostics: [],
+    });
+  });
+
+  it("reports unknown and mistyped keys", () => {
+    const src = `{
+  "target": "deno",
+  "colour": false,
+  "sourceMap": "yes",
+  "maxErrors": -1,
+  "color": false
+}`;
+    expect(optionsSrc(src)).toEqual({
+      options: { strictness: "error", target: "browser", sourceMap: false, color: false, format: "text", maxErrors: 0 },
+      diagnostics: [
+        '2:3 error: `target` must be one of "browser", "node"',
+        "3:3 warning: unknown option `colour`",
+        "4:3 error: `sourceMap` must be true or false",
+        "5:3 error: `maxErrors` must be a whole number",
+      ],
+    });
+  });
+
+  it("reports files that aren't options", () => {
+    expect(optionsSrc(`{ "target": "node", }`).diagnostics).toEqual([
+      "1:21 error: invalid JSON: Expected double-quoted property name",
+    ]);
+    expect(optionsSrc(`["target"]`).diagnostics).toEqual(["1:1 error: `ceiling.json` must contain an object"]);
+  });
+
+  it("applies flags over the project file", () => {
+    const { options } = parseOptions("ceiling.json", `{ "target": "node", "maxErrors": 3 }`);
+    expect(applyFlags(options, { maxErrors: "5", sourceMap: true, strictness: "lax", outDir: "out" })).toEqual([
+      '`--strictness` must be one of "error", "warning", "off"',
+    ]);
+    expect({ ...options }).toEqual({ strictness: "error", target: "node", sourceMap: true, color: true, format: "text", maxErrors: 5 });
+  });
+
+  it("relaxes the borrow checker", () => {
+    const src = `
+actor struct Counter { }
+
+function take(c: owned Counter) { }
+
+function main() {
+  const c = await Counter {}.start();
+  take(c);
+  take(c);
+}
+`;
+    const severities = (strictness: "error" | "warning" | "off") => {
+      const { allDiags, code } = compile("test.ceiling", src, { emit: true, strictness });
+      return { severities: allDiags.map(d => d.severity), emitted: code !== undefined };
+    };
+    expect(severities("error")).toEqual({ severities: [Severity.Error], emitted: false });
+    expect(severities("warning")).toEqual({ severities: [Severity.Warning], emitted: true });
+    expect(severities("off")).toEqual({ severities: [], emitted: true });
+  });
+});
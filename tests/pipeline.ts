@@ -0,0 +1,44 @@
+import { expect } from "vitest";
+import { Diagnostic } from "../src/diagnostics.js";
+import { parseModule } from "../src/syntax.js";
+import { resolve } from "../src/resolve.js";
+import { typecheck } from "../src/typecheck.js";
+import { borrowck } from "../src/borrowck.js";
+import { insertDrops } from "../src/liveness.js";
+
+// Runs a source through the passes a test needs. Every pass before the last has to be clean,
+// so that a test only sees what the pass it is about reports.
+
+function expectClean(diags: Diagnostic[]) {
+  expect(diags.map(d => d.message)).toEqual([]);
+}
+
+export function parsed(src: string, uri = "test.ceiling") {
+  const { module, diagnostics, allDiags } = parseModule(uri, src);
+  expectClean(allDiags);
+  return { module, diagnostics };
+}
+
+export function resolved(src: string, uri?: string) {
+  const { module, diagnostics } = parsed(src, uri);
+  return { module, diagnostics, resolution: resolve(diagnostics, module) };
+}
+
+export function typed(src: string, uri?: string) {
+  const { module, diagnostics, resolution } = resolved(src, uri);
+  expectClean(resolution.allDiags);
+  return { module, diagnostics, resolution, typing: typecheck(diagnostics, module, resolution) };
+}
+
+export function borrowChecked(src: string, uri?: string) {
+  const { module, diagnostics, resolution, typing } = typed(src, uri);
+  expectClean(typing.allDiags);
+  return { module, diagnostics, resolution, typing, borrowCheck: borrowck(diagnostics, module, resolution, typing) };
+}
+
+// everything up to code generation, with drops inserted
+export function checked(src: string, uri?: string) {
+  const { module, diagnostics, resolution, typing, borrowCheck } = borrowChecked(src, uri);
+  expectClean(borrowCheck.allDiags);
+  return { module, diagnostics, resolution, typing, borrowCheck, bodies: insertDrops(module, resolution, borrowCheck) };
+}
@@ -0,0 +1,87 @@
+import { expect, it, describe } from "vitest";
+import { Code, Diagnostics, Severity } from "../src/diagnostics.js";
+import { compile } from "../src/compile.js";
+import { createSarifLog, formatJSONLine, Reported } from "../src/report.js";
+
+const src = `actor struct Actor { }
+
+function same(x: handle Actor): handle<x> Actor {
+  return x;
+}
+
+function main() {
+  const a = await Actor {}.start();
+  const z = same(a);
+  drop(a);
+  same(z);
+}
+`;
+
+function reportedSrc(uri: string, src: string): Reported[] {
+  const { allDiags, diagnostics } = compile(uri, src);
+  return allDiags.map(diag => ({ diag, diagnostics }));
+}
+
+describe("machine-readable diagnostics", () => {
+  it("writes one JSON object per line", () => {
+    const [reported] = reportedSrc("test.ceiling", src);
+    const line = formatJSONLine(reported);
+    expect(line.endsWith("\n")).toBe(true);
+    expect(line.slice(0, -1)).not.toContain("\n");
+    expect(JSON.parse(line)).toEqual({ uri: "test.ceiling", ...reported.diag });
+  });
+
+  it("writes a SARIF log with rules, levels and snippets", () => {
+    const log = createSarifLog(reportedSrc("test.ceiling", src));
+    const [run] = log.runs;
+    expect(log.version).toBe("2.1.0");
+    expect(run.tool.driver.rules).toContainEqual({ id: Code.BorrowOutlivesPlace, name: "BorrowOutlivesPlace" });
+
+    const [result] = run.results;
+    expect(run.tool.driver.rules[result.ruleIndex!].id).toBe(result.ruleId);
+    expect(result).toMatchSnapshot();
+  });
+
+  it("gives syntax errors rules", () => {
+    const log = createSarifLog(reportedSrc("test.ceiling", `function f() { return "oops; }`));
+    expect(log.runs[0].results.map(result => result.ruleId)).toEqual([Code.UnterminatedString, Code.UnexpectedToken, Code.UnexpectedToken]);
+  });
+
+  it("maps severities to levels", () => {
+    const diagnostics = new Diagnostics("ceiling.json", `{ "colour": false }`);
+    const levels = [Severity.Error, Severity.Warning, Severity.Information, Severity.Hint].map(severity => {
+      const diag = diagnostics.createDiagnostic({ start: 2, end: 10 }, "unknown option `colour`", severity);
+      return createSarifLog([{ diag, diagnostics }]).runs[0].results[0];
+    });
+    expect(levels.map(result => result.level)).toEqual(["error", "warning", "note", "note"]);
+    // problems with the options have no code, and so no rule
+    expect(levels[0]).not.toHaveProperty("ruleId");
+    expect(levels[0].locations[0].physicalLocation.region).toEqual({
+      startLine: 1,
+      startColumn: 3,
+      endLine: 1,
+      endColumn: 11,
+      snippet: { text: '"colour"' },
+    });
+  });
+
+  it("reads other files' snippets through `files`", () => {
+    const diagnostics = new Diagnostics("main.ceiling", "const a = 1;\n");
+    const other = new Diagnostics("other.ceiling", "const a = 2;\n");
+    const diag = {
+      ...diagnostics.createDiagnostic({ start: 6, end: 7 }, "duplicate definition of `a`"),
+      relatedInformation: [
+        { location: { uri: "other.ceiling", range: other.getRange({ start: 6, end: 7 }) }, message: "first defined here" },
+      ],
+    };
+    const related = (files?: (uri: string) => Diagnostics | undefined) =>
+      createSarifLog([{ diag, diagnostics }], files).runs[0].results[0].relatedLocations![0].physicalLocation;
+
+    expect(related().region.snippet).toBeUndefined();
+    expect(related(uri => (uri === "other.ceiling" ? other : undefined))).toMatchObject({
+      artifactLocation: { uri: "other.ceiling" },
+      region: { snippet: { text: "a" } },
+      contextRegion: { snippet: { text: "const a = 2;" } },
+    });
+  });
+});
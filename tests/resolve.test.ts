@@ -0,0 +1,165 @@
+import { expect, it, describe } from "vitest";
+import { DefinitionKind } from "../src/resolve.js";
+import { resolved } from "./pipeline.js";
+
+function resolveSrc(src: string) {
+  const { resolution } = resolved(src);
+
+  const references = [...resolution.references.entries()]
+    .sort(([a], [b]) => a.span.start - b.span.start)
+    .map(([ident, def]) => {
+      const defined = def.span ? `@${def.span.start}` : "";
+      return `${ident.name}@${ident.span.start} -> ${DefinitionKind[def.kind]} ${def.name}${defined}`;
+    });
+
+  return {
+    references,
+    diagnostics: resolution.allDiags.map(d => d.message),
+  };
+}
+
+describe("resolver", () => {
+  it("binds params, locals and functions", () => {
+    const src = `
+function square(x: number): number {
+  return x * x;
+}
+
+function main() {
+  const y = 2;
+  return y.square().square();
+}
+`;
+    expect(resolveSrc(src)).toMatchSnapshot();
+  });
+
+  it("binds this and fields in message handlers", () => {
+    const src = `
+actor struct Counter {
+  read i: number;
+}
+
+query Counter.increment(): number {
+  this.i += 1;
+  return this.i;
+}
+
+function spawn() {
+  const counter = await Counter { i: 0 }.start();
+  return counter.increment();
+}
+`;
+    expect(resolveSrc(src)).toMatchSnapshot();
+  });
+
+  it("resolves place lifetimes", () => {
+    const src = `
+struct Return {
+  a: Actor;
+  b: Actor;
+  z: handle<this.a, this.b> Actor;
+}
+
+actor struct Actor {
+}
+
+function longest(cond: boolean, x: handle Actor, y: handle Actor): handle<x, y> Actor {
+  if (cond) {
+    return x;
+  } else {
+    return y;
+  }
+}
+`;
+    expect(resolveSrc(src)).toMatchSnapshot();
+  });
+
+  it("falls back to native methods for unknown UFCS callees", () => {
+    expect(resolveSrc("function f(xs: number[]) { xs.push(1); console.log(xs); }").diagnostics).toEqual([]);
+  });
+
+  it("reports unknown names and types", () => {
+    expect(resolveSrc("function f(x: Nope) { return y + missing(x); }").diagnostics).toEqual([
+      "unknown type `Nope`",
+      "unknown name `y`",
+      "unknown name `missing`",
+    ]);
+  });
+
+  it("reports duplicate bindings", () => {
+    const src = `
+function f(a: number, a: number) {
+  let b = 1;
+  let b = 2;
+}
+
+function f() { }
+
+struct S { x: number; x: number; }
+`;
+    expect(resolveSrc(src).diagnostics).toEqual([
+      "duplicate binding `f`",
+      "duplicate field `x`",
+      "duplicate binding `a`",
+      "duplicate binding `b`",
+    ]);
+  });
+
+  it("reports shadowed and reassigned consts", () => {
+    const src = `
+function f() {
+  const x = 1;
+  if (x) {
+    let x = 2;
+  }
+  x = 3;
+}
+`;
+    expect(resolveSrc(src).diagnostics).toEqual(["cannot shadow const `x`", "cannot assign to `x`"]);
+  });
+
+  it("scopes block bindings", () => {
+    expect(resolveSrc("function f() { { let x = 1; } return x; }").diagnostics).toEqual(["unknown name `x`"]);
+  });
+
+  it("checks fields, receivers and this", () => {
+    const src = `
+struct Plain { x: number; }
+actor struct Counter { i: number; }
+
+query Plain.get() { return 1; }
+query Missing.get() { return 1; }
+query Counter.get() { return this.j; }
+
+function f() {
+  const c = Counter { i: 0, k: 1 };
+  return this;
+}
+`;
+    expect(resolveSrc(src).diagnostics).toEqual([
+      "`Plain` is not an actor, so it cannot handle messages",
+      "unknown actor `Missing`",
+      "`Counter` has no field `j`",
+      "`Counter` has no field `k`",
+      "`this` is only available in queries, commands and struct fields",
+    ]);
+  });
+
+  it("checks ctx uses and signatures", () => {
+    const src = `
+struct S {
+  x: number = ctx.value;
+}
+
+function f() ctx { a: number; a: string } {
+  const whole = ctx;
+  return ctx.a;
+}
+`;
+    expect(resolveSrc(src).diagnostics).toEqual([
+      "`ctx` is only available in functions, queries and commands",
+      "duplicate ctx field `a`",
+      "`ctx` can only be used through its fields, like `ctx.value`",
+    ]);
+  });
+});
@@ -0,0 +1,240 @@
+import { expect, it, describe, beforeAll, afterAll, vi } from "vitest";
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync, mkdirSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import ts from "typescript";
+import { generate } from "../src/codegen.js";
+import { checked } from "./pipeline.js";
+
+// worker threads can't load typescript, so the runtime and the compiled actors are
+// transpiled into a scratch directory and imported from there
+let dir: string;
+let runtime: typeof import("../src/runtime/index.js");
+let actors: Record<string, any>;
+
+function transpile(src: string) {
+  return ts.transpileModule(src, { compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 } })
+    .outputText;
+}
+
+function compile(src: string) {
+  const { module, resolution, typing, borrowCheck, bodies } = checked(src, "actors.ceiling");
+  return generate(module, resolution, typing, borrowCheck, bodies);
+}
+
+const actorsSrc = `
+actor struct Counter {
+  private count: number = 0;
+}
+
+query Counter.get(): number {
+  return this.count;
+}
+
+command Counter.add(n: number) {
+  this.count += n;
+}
+
+query Counter.broken(): number {
+  return this.count.toFixed(1000).length;
+}
+
+actor struct Relay {
+  counter: handle Counter;
+}
+
+query Relay.total(): number {
+  return await this.counter.get();
+}
+
+command Relay.bump() {
+  this.counter.add(10);
+}
+
+actor struct Owner {
+  relay: handle Relay;
+}
+
+command Owner.bump() {
+  this.relay.bump();
+}
+
+actor struct Parent { }
+
+query Parent.child(): number {
+  const counter = await Counter {}.start();
+  counter.add(5);
+  return await counter.get();
+}
+
+actor struct RiskyWorker {
+  fragile: boolean;
+}
+
+query RiskyWorker.doRiskyThing(): number {
+  if (this.fragile) {
+    return this.fragile.toString().repeat(-1).length;
+  }
+  return 1;
+}
+
+actor struct Supervisor {
+  worker: unique handle RiskyWorker;
+}
+
+command Supervisor.hire(fragile: boolean) {
+  this.worker = await RiskyWorker { fragile }.start();
+}
+
+query Supervisor.monitor(): number {
+  try {
+    return await this.worker.doRiskyThing();
+  } catch (e) {
+    this.worker = this.worker.reset { fragile: false };
+  }
+  return await this.worker.doRiskyThing();
+}
+
+// the README's shape, where the supervisor is given a worker spawned somewhere else
+function supervise(): number {
+  const worker = await RiskyWorker { fragile: true }.start();
+  const supervisor = await Supervisor { worker }.start();
+  const first = await supervisor.monitor();
+  return first + await supervisor.monitor();
+}
+`;
+
+beforeAll(async () => {
+  dir = mkdtempSync(join(tmpdir(), "ceiling-runtime-"));
+  mkdirSync(join(dir, "runtime"));
+  const runtimeDir = new URL("../src/runtime/", import.meta.url);
+  for (const file of readdirSync(runtimeDir)) {
+    const js = transpile(readFileSync(new URL(file, runtimeDir), "utf8"));
+    writeFileSync(join(dir, "runtime", file.replace(/\.ts$/, ".js")), js);
+  }
+  writeFileSync(join(dir, "actors.js"), transpile(compile(actorsSrc).replace("the-ceiling/runtime", "./runtime/index.js")));
+
+  runtime = await import(pathToFileURL(join(dir, "runtime", "index.js")).href);
+  const { nodePlatform } = await import(pathToFileURL(join(dir, "runtime", "node.js")).href);
+  runtime.setPlatform(nodePlatform);
+  actors = await import(pathToFileURL(join(dir, "actors.js")).href);
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("worker runtime", () => {
+  it("answers queries and handles commands in order", async () => {
+    const counter = await runtime.spawn(new actors.Counter({}));
+    for (let i = 0; i < 100; i++) {
+      counter.command("add", 1);
+    }
+    expect(await counter.query("get")).toBe(100);
+    runtime.drop(counter);
+  });
+
+  it("rejects bad messages without killing the actor", async () => {
+    const counter = await runtime.spawn(new actors.Counter({}));
+    await expect(counter.query("add", 1)).rejects.toThrow("`Counter` has no query `add`");
+    expect(await counter.query("get")).toBe(0);
+    runtime.drop(counter);
+  });
+
+  it("faults the handle that sent a bad command", async () => {
+    const counter = await runtime.spawn(new actors.Counter({}));
+    const relay = await runtime.spawn(new actors.Relay({ counter }));
+    counter.command("get");
+    await expect(counter.query("get")).rejects.toThrow("`Counter` has no command `get`");
+    expect(counter.getFault()?.message).toBe("`Counter` has no command `get`");
+
+    // the actor and everyone else's handles carry on
+    relay.command("bump");
+    expect(await relay.query("total")).toBe(10);
+    expect(counter.reset({})).toBe(counter);
+    expect(await counter.query("get")).toBe(0);
+    runtime.drop([relay, counter]);
+  });
+
+  it("faults handles when an actor crashes", async () => {
+    const counter = await runtime.spawn(new actors.Counter({}));
+    const relay = await runtime.spawn(new actors.Relay({ counter }));
+    counter.command("add", 1);
+
+    const crash = counter.query("broken");
+    const queued = counter.query("get");
+    await expect(crash).rejects.toBeInstanceOf(runtime.ActorCrashed);
+    await expect(crash).rejects.toThrow("actor `Counter` crashed: ");
+    await expect(queued).rejects.toBe(counter.getFault());
+    await expect(counter.query("get")).rejects.toBe(counter.getFault());
+    // the relay's own handle to the counter is faulted too, and the relay doesn't catch that
+    await expect(relay.query("total")).rejects.toThrow("actor `Relay` crashed: actor `Counter` crashed: ");
+
+    expect(counter.reset({})).toBe(counter);
+    expect(counter.getFault()).toBe(null);
+    expect(await counter.query("get")).toBe(0);
+    runtime.drop([relay, counter]);
+  });
+
+  it("lets supervisors reset their workers", async () => {
+    const supervisor = await runtime.spawn(new actors.Supervisor({}));
+    supervisor.command("hire", true);
+    expect(await supervisor.query("monitor")).toBe(1);
+    expect(await supervisor.query("monitor")).toBe(1);
+    runtime.drop(supervisor);
+  });
+
+  it("tells borrowers when their actor is reset away", async () => {
+    const counter = await runtime.spawn(new actors.Counter({}));
+    const relay = await runtime.spawn(new actors.Relay({ counter }));
+    counter.command("add", 1);
+    expect(counter.reset({})).toBe(counter);
+
+    // the relay's handle still points at the old worker, which is gone
+    await expect(relay.query("total")).rejects.toThrow("actor `Relay` crashed: actor was dropped");
+    expect(await counter.query("get")).toBe(0);
+    runtime.drop([relay, counter]);
+  });
+
+  it("lets supervisors reset workers they were given", async () => {
+    expect(await actors.supervise()).toBe(2);
+  });
+
+  it("passes handles between actors", async () => {
+    const counter = await runtime.spawn(new actors.Counter({}));
+    const relay = await runtime.spawn(new actors.Relay({ counter }));
+    counter.command("add", 1);
+    relay.command("bump");
+    expect(await relay.query("total")).toBe(11);
+    expect(await counter.query("get")).toBe(11);
+
+    const parent = await runtime.spawn(new actors.Parent({}));
+    expect(await parent.query("child")).toBe(5);
+    runtime.drop([relay, counter, parent]);
+  });
+
+  it("finishes its messages and drops what it owns when dropped", async () => {
+    const counter = await runtime.spawn(new actors.Counter({}));
+    const relay = await runtime.spawn(new actors.Relay({ counter }));
+    const owner = await runtime.spawn(new actors.Owner({ relay: runtime.move(relay) }));
+    owner.command("bump");
+    owner.command("bump");
+    runtime.drop(owner);
+
+    // the relay was moved, so it goes with its owner, but only after both bumps got to it
+    await vi.waitFor(() => expect(relay.query("total")).rejects.toThrow("actor was dropped"));
+    await vi.waitFor(async () => expect(await counter.query("get")).toBe(20));
+    expect(() => relay.reset({ counter })).toThrow("only the owning handle can reset an actor");
+    runtime.drop(counter);
+  });
+
+  it("rejects pending and later messages after a drop", async () => {
+    const counter = await runtime.spawn(new actors.Counter({}));
+    const pending = counter.query("get");
+    runtime.drop(counter);
+    await expect(pending).rejects.toThrow("actor was dropped");
+    await expect(counter.query("get")).rejects.toThrow("handle used after drop");
+    expect(() => counter.command("add", 1)).toThrow("handle used after drop");
+  });
+});
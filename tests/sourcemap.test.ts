@@ -0,0 +1,70 @@
+import { expect, it, describe } from "vitest";
+import { generate } from "../src/codegen.js";
+import { decodeVLQ, encodeVLQ, SourceMapWriter } from "../src/sourcemap.js";
+import { checked } from "./pipeline.js";
+
+// every mapping as `generated text -> source text`, starting at the mapped positions
+function mappedSnippets(src: string) {
+  const { module, diagnostics, resolution, typing, borrowCheck, bodies } = checked(src);
+  const writer = new SourceMapWriter("test.ts", "test.ceiling", diagnostics);
+  const code = generate(module, resolution, typing, borrowCheck, bodies, writer);
+  const map = writer.toJSON();
+
+  const generatedLines = code.split("\n");
+  const sourceLines = src.split("\n");
+  const snippets: string[] = [];
+  let sourceLine = 0;
+  let sourceColumn = 0;
+  let name = 0;
+  map.mappings.split(";").forEach((line, generatedLine) => {
+    let generatedColumn = 0;
+    for (const segment of line ? line.split(",") : []) {
+      const fields = decodeVLQ(segment);
+      generatedColumn += fields[0];
+      sourceLine += fields[2];
+      sourceColumn += fields[3];
+      const generated = generatedLines[generatedLine].slice(generatedColumn, generatedColumn + 12);
+      const source = sourceLines[sourceLine].slice(sourceColumn, sourceColumn + 12);
+      if (fields.length > 4) name += fields[4];
+      snippets.push(`${generated} -> ${source}${fields.length > 4 ? ` (${map.names[name]})` : ""}`);
+    }
+  });
+  return snippets;
+}
+
+describe("source maps", () => {
+  it("encodes VLQs", () => {
+    expect([0, 1, -1, 15, 16, -16, 123, 1000000].map(encodeVLQ)).toEqual([
+      "A",
+      "C",
+      "D",
+      "e",
+      "gB",
+      "hB",
+      "2H",
+      "gkh9B",
+    ]);
+    for (const value of [0, 1, -1, 31, -32, 4096, -123456]) {
+      expect(decodeVLQ(encodeVLQ(value))).toEqual([value]);
+    }
+    expect(decodeVLQ("AAgBC")).toEqual([0, 0, 16, 1]);
+  });
+
+  it("maps generated code back to the source", () => {
+    const src = `
+actor struct Counter {
+  count: number = 0;
+}
+
+command Counter.add(n: number) {
+  this.count += n;
+}
+
+function main() {
+  const counter = await Counter {}.start();
+  counter.add(3);
+}
+`;
+    expect(mappedSnippets(src)).toMatchSnapshot();
+  });
+});
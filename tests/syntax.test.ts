@@ -1,5 +1,5 @@
 import { expect, it, describe } from "vitest";
-import { Lexer, TokenKind, Parser, ASTKind } from "../src/syntax.js";
+import { Lexer, TokenKind, Parser, ASTKind, IslandScanner, parseModule } from "../src/syntax.js";
 import { Diagnostics } from "../src/diagnostics.js";
 
 interface ReadableToken {
@@ -53,6 +53,21 @@ describe("lexer", () => {
     expect(lex("'a\\nb'")).toMatchSnapshot();
   });
 
+  it("recovers from bad strings", () => {
+    // an unterminated string stops at the end of its line
+    expect(lex('let s = "open;\nlet t = 1;').map(t => t.source)).toEqual(["let", "s", "=", '"open;', "let", "t", "=", "1", ";"]);
+    expect(lex("'\\u{110000}\\x4g\\u12'")).toEqual([{ kind: "String", source: "'\\u{110000}\\x4g\\u12'", value: "g" }]);
+
+    const problems = (src: string) => parseModule("test.ceiling", src).allDiags.map(d => d.message);
+    expect(problems('function f() { return "\\xyz"; }\nfunction g() { return "abc; }\n')).toEqual([
+      "invalid hex escape",
+      "unterminated string literal",
+      // the string took the rest of the line
+      "expected Semicolon to close the statement, got <eof>",
+      "expected RBrace to terminate block, got <eof>",
+    ]);
+  });
+
   it("whitespace and newlines", () => {
     expect(lex("\n\t  let   x=1\n\n")).toMatchSnapshot();
   });
@@ -78,36 +93,68 @@ describe("lexer", () => {
 });
 
 // Parser tests
+// messy reflection helper
+function cleanAST(obj: any): any {
+  if (obj === null || obj === undefined) return obj;
+  if (typeof obj !== "object") return obj;
+  if (Array.isArray(obj)) return obj.map(cleanAST);
+
+  const cleaned: any = {};
+  for (const [key, value] of Object.entries(obj)) {
+    if (key === "span" || key === "start" || key === "end") continue; // removing spans
+    if (key === "kind" && typeof value === "number") {
+      cleaned[key] = ASTKind[value];
+    } else {
+      cleaned[key] = cleanAST(value);
+    }
+  }
+  return cleaned;
+}
+
 function parse(src: string) {
   const diagnostics = new Diagnostics("test.ceiling", src);
   const lexer = new Lexer(src);
   const parser = new Parser(diagnostics, lexer.run());
   const decl = parser.parseDeclaration();
 
-  // messy reflection helper
-  function cleanAST(obj: any): any {
-    if (obj === null || obj === undefined) return obj;
-    if (typeof obj !== "object") return obj;
-    if (Array.isArray(obj)) return obj.map(cleanAST);
-
-    const cleaned: any = {};
-    for (const [key, value] of Object.entries(obj)) {
-      if (key === "span" || key === "start" || key === "end") continue; // removing spans
-      if (key === "kind" && typeof value === "number") {
-        cleaned[key] = ASTKind[value];
-      } else {
-        cleaned[key] = cleanAST(value);
-      }
-    }
-    return cleaned;
-  }
-
   return {
     ast: cleanAST(decl),
     diagnostics: parser.allDiags.map(d => d.message),
   };
 }
 
+describe("trivia", () => {
+  it("skips comments", () => {
+    expect(lex("a // b\n/* c */ d/e//f")).toEqual([
+      { kind: "Identifier", source: "a" },
+      { kind: "Identifier", source: "d" },
+      { kind: "Slash", source: "/" },
+      { kind: "Identifier", source: "e" },
+    ]);
+    // unterminated, so it runs to the end
+    expect(lex("a /* b")).toEqual([{ kind: "Identifier", source: "a" }]);
+  });
+
+  it("attaches trivia to tokens", () => {
+    const src = "// head\nlet x = 1; // one\r\n  /* two */ y\n";
+    const text = (t: { start: number; end: number }) => src.slice(t.start, t.end);
+    const tokens = [...new Lexer(src).runWithTrivia()].map(token => [
+      text(token),
+      token.leading.map(t => `${TokenKind[t.kind]} ${JSON.stringify(text(t))}`),
+      token.trailing.map(t => `${TokenKind[t.kind]} ${JSON.stringify(text(t))}`),
+    ]);
+    expect(tokens).toEqual([
+      ["let", ['LineComment "// head"', 'Newline "\\n"'], ['Whitespace " "']],
+      ["x", [], ['Whitespace " "']],
+      ["=", [], ['Whitespace " "']],
+      ["1", [], []],
+      [";", [], ['Whitespace " "', 'LineComment "// one"']],
+      ["y", ['Newline "\\r\\n"', 'Whitespace "  "', 'BlockComment "/* two */"', 'Whitespace " "'], []],
+      ["", ['Newline "\\n"'], []],
+    ]);
+  });
+});
+
 describe("parser", () => {
   it("simple function with no params", () => {
     expect(parse("function foo() { return 42; }")).toMatchSnapshot();
@@ -177,3 +224,312 @@ describe("parser", () => {
     expect(parse("function test() { return (1 + 2) * 3; }")).toMatchSnapshot();
   });
 });
+
+describe("struct declarations", () => {
+  it("actor struct with read field", () => {
+    expect(parse("actor struct Counter { read i: number; }")).toMatchSnapshot();
+  });
+
+  it("plain struct", () => {
+    expect(parse("struct Point { x: number; y: number; }")).toMatchSnapshot();
+  });
+
+  it("private field with default initializer", () => {
+    expect(parse("actor struct ResultsActor { private total: number = 0; }")).toMatchSnapshot();
+  });
+
+  it("unique handle field", () => {
+    expect(parse("actor struct Supervisor { worker: unique handle RiskyWorker; }")).toMatchSnapshot();
+  });
+
+  it("place lifetime field", () => {
+    expect(parse("struct Return { a: Actor; b: Actor; z: handle<this.a, this.b> Actor; }")).toMatchSnapshot();
+  });
+
+  it("last field without semicolon", () => {
+    expect(parse("struct Empty { x: number }")).toMatchSnapshot();
+  });
+
+  it("recovers from a malformed field", () => {
+    expect(parse("struct Broken { : number; y: number; }")).toMatchSnapshot();
+  });
+
+  it("missing struct keyword after actor", () => {
+    expect(parse("actor Counter { i: number; }")).toMatchSnapshot();
+  });
+});
+
+describe("message handlers", () => {
+  it("query with return type", () => {
+    expect(parse("query Counter.increment(): number { return 1; }")).toMatchSnapshot();
+  });
+
+  it("command with parameters", () => {
+    expect(parse("command ResultsActor.store(value: number): void { store(value); }")).toMatchSnapshot();
+  });
+
+  it("query accepting a handle borrow", () => {
+    expect(parse("query Pool.add(worker: handle Worker) { return worker; }")).toMatchSnapshot();
+  });
+
+  it("command rejects handle borrows", () => {
+    expect(parse("command Pool.add(worker: handle Worker) { return worker; }")).toMatchSnapshot();
+  });
+
+  it("missing dot between actor and name", () => {
+    expect(parse("query Counter increment() { return 1; }")).toMatchSnapshot();
+  });
+});
+
+describe("modules", () => {
+  function parseAll(src: string) {
+    const { module, allDiags } = parseModule("test.ceiling", src);
+    return {
+      ast: cleanAST(module),
+      diagnostics: allDiags.map(d => d.message),
+    };
+  }
+
+  it("multiple declarations", () => {
+    const src = `
+actor struct Counter {
+  read i: number;
+}
+
+query Counter.increment(): number {
+  return 1;
+}
+
+function square(x: number) {
+  return x * x;
+}
+`;
+    expect(parseAll(src)).toMatchSnapshot();
+  });
+
+  it("keeps going after a malformed island", () => {
+    const src = `
+function broken( {
+  return 1;
+
+struct Point { x: number; }
+`;
+    expect(parseAll(src)).toMatchSnapshot();
+  });
+
+  it("reports tokens outside of declarations", () => {
+    expect(parseAll("let x = 1; function f() { return x; }")).toMatchSnapshot();
+  });
+
+  it("island scanner keeps malformed islands", () => {
+    const src = "function a() { return 1; function b() { return 2; }";
+    expect(new IslandScanner(src).scan()).toEqual(["function a() { return 1;", "function b() { return 2; }"]);
+  });
+});
+
+describe("control flow", () => {
+  it("if/else with blocks", () => {
+    const src = `function longest(cond: boolean, x: handle Actor, y: handle Actor): handle<x, y> Actor {
+      if (cond) {
+        return x;
+      } else {
+        return y;
+      }
+    }`;
+    expect(parse(src)).toMatchSnapshot();
+  });
+
+  it("if without braces", () => {
+    expect(parse("function f(n: number) { if (n) return n; return 0; }")).toMatchSnapshot();
+  });
+
+  it("else if chain", () => {
+    expect(parse("function f() { if (a) { return 1; } else if (b) { return 2; } else return 3; }")).toMatchSnapshot();
+  });
+
+  it("while loop", () => {
+    expect(parse("function f() { while (running) { step(); } }")).toMatchSnapshot();
+  });
+
+  it("for...of loop", () => {
+    expect(parse("function f(xs: number) { for (const x of xs) consume(x); }")).toMatchSnapshot();
+  });
+
+  it("try/catch", () => {
+    expect(parse("function f() { try { risky(); } catch (e) { recover(e); } }")).toMatchSnapshot();
+  });
+
+  it("nested and empty blocks", () => {
+    expect(parse("function f() { { let x = 1; { } } return; }")).toMatchSnapshot();
+  });
+
+  it("missing semicolon inside if body", () => {
+    expect(parse("function f() { if (a) { return 1 } return 2; }")).toMatchSnapshot();
+  });
+
+  it("for loop without of", () => {
+    expect(parse("function f() { for (const x in xs) { } return 1; }")).toMatchSnapshot();
+  });
+});
+
+describe("member access and assignment", () => {
+  it("lexes compound assignment operators", () => {
+    expect(lex("a += 1; b -= 2; c *= 3; d /= 4; e %= 5; f <= g >= h;")).toMatchSnapshot();
+  });
+
+  it("counter increment", () => {
+    expect(parse("query Counter.increment(): number { this.i += 1; return this.i; }")).toMatchSnapshot();
+  });
+
+  it("index assignment", () => {
+    expect(parse("function f(n: number) { ctx.memo[n] = result; }")).toMatchSnapshot();
+  });
+
+  it("assignment is right-associative", () => {
+    expect(parse("function f() { a = b = c; }")).toMatchSnapshot();
+  });
+
+  it("assignment binds looser than binary operators", () => {
+    expect(parse("function f() { total -= a * b + 1; }")).toMatchSnapshot();
+  });
+
+  it("relational operators", () => {
+    expect(parse("function f(n: number) { return n <= 1 == n < 2; }")).toMatchSnapshot();
+  });
+
+  it("member call on member access", () => {
+    expect(parse("function f() { this.results.store(sum); }")).toMatchSnapshot();
+  });
+
+  it("invalid assignment target", () => {
+    expect(parse("function f() { a + b = c; }")).toMatchSnapshot();
+  });
+});
+
+describe("struct literals and spawning", () => {
+  it("awaited spawn", () => {
+    expect(parse("function f() { const counterHandle = await Counter { i: 0 }.start(); }")).toMatchSnapshot();
+  });
+
+  it("shorthand fields and empty literal", () => {
+    expect(parse("function f() { const processor = await DataProcessor { results }.start(); return Actor {}; }")).toMatchSnapshot();
+  });
+
+  it("reset literal", () => {
+    expect(parse("command Supervisor.monitor(): void { this.worker = this.worker.reset { attempts: 0, }; }")).toMatchSnapshot();
+  });
+
+  it("array literal", () => {
+    expect(parse("function f() { processor.process([1, 2, 3]); }")).toMatchSnapshot();
+  });
+
+  it("type name followed by a block is not a literal", () => {
+    expect(parse("function f() { if (ready) { go(); } while (x) { y = 1; } }")).toMatchSnapshot();
+  });
+
+  it("nested struct literal", () => {
+    expect(parse("function f() { return LongestWrapper { z: longest(true, a, b) }; }")).toMatchSnapshot();
+  });
+});
+
+describe("type expressions", () => {
+  it("generic application with handles", () => {
+    expect(parse("function first(arr: Array<handle Actor>): handle<arr> Actor { return arr; }")).toMatchSnapshot();
+  });
+
+  it("nested generics", () => {
+    expect(parse("struct Memo { memo: Map<number, Array<number>>; }")).toMatchSnapshot();
+  });
+
+  it("array suffixes", () => {
+    expect(parse("command DataProcessor.process(data: number[][]) { }")).toMatchSnapshot();
+  });
+
+  it("unions and intersections", () => {
+    expect(parse("struct U { x: number | string & Named | (A | B)[]; }")).toMatchSnapshot();
+  });
+
+  it("function types", () => {
+    expect(parse("struct F { f: (a: number, b: number) => number; g: () => void; }")).toMatchSnapshot();
+  });
+
+  it("tuple place arguments", () => {
+    expect(parse("function f() { const z: LongestWrapper<(a, b)> = w; return z; }")).toMatchSnapshot();
+  });
+
+  it("empty type arguments", () => {
+    expect(parse("function f(): LongestWrapper<> { return z; }")).toMatchSnapshot();
+  });
+
+  it("owned handles", () => {
+    expect(parse("command Pool.adopt(worker: owned handle Worker) { }")).toMatchSnapshot();
+  });
+
+  it("unclosed type arguments", () => {
+    expect(parse("struct S { x: Map<number; }")).toMatchSnapshot();
+  });
+});
+
+describe("ctx", () => {
+  it("signature with defaults", () => {
+    expect(parse("function fibMemo(n: number): number ctx { memo: Map<number, number> = new Map(); depth: number } { }")).toMatchSnapshot();
+  });
+
+  it("fields and blocks", () => {
+    expect(parse("function main() { ctx.value = 1; ctx { value = 2, other } { log(ctx.value); } }")).toMatchSnapshot();
+  });
+
+  it("read fields", () => {
+    expect(parse("function f() ctx { read value: number } { }").diagnostics).toEqual([
+      "ctx fields cannot be `read` or `private`",
+    ]);
+  });
+});
+
+describe("effects", () => {
+  it("throws clauses", () => {
+    expect(parse("function parse(s: string): number throws ParseError | IOError ctx { depth: number } { }")).toMatchSnapshot();
+    expect(parse("query Reader.get() throws IOError { }")).toMatchSnapshot();
+  });
+
+  it("throw and return ?", () => {
+    expect(parse("function f(x) { if (x) return ?; throw new Error(\"no\"); }")).toMatchSnapshot();
+  });
+});
+
+describe("recovery", () => {
+  it("unwinds partial nodes containing errors", () => {
+    expect(parseModule("test.ceiling", "function f() { let x = (1; return x; }").allDiags.map(d => d.message)).toEqual([
+      "expected RParen to close parenthesized expression, got Semicolon",
+    ]);
+    expect(parseModule("test.ceiling", "function f() { if (a) foo(1; }").allDiags.map(d => d.message)).toEqual([
+      "expected RParen to close function call, got Semicolon",
+    ]);
+  });
+
+  it("skips ctx blocks when looking for the next declaration", () => {
+    expect(parseModule("test.ceiling", "function f() { ctx { value = (1 } { } }\nfunction g() { }").allDiags.map(d => d.message)).toEqual([
+      "expected RParen to close parenthesized expression, got RBrace",
+    ]);
+  });
+});
+
+describe("fixes", () => {
+  // the source once every fix the parser suggests is applied, as `--fix` does
+  const fixSrc = (src: string): string => {
+    const { diagnostics, allDiags } = parseModule("test.ceiling", src);
+    const { text, applied } = diagnostics.applyFixes(allDiags);
+    return applied > 0 ? fixSrc(text) : text;
+  };
+
+  it("puts back forgotten closers at the end of a line", () => {
+    expect(fixSrc("function f() {\n  let x = 1\n  return x\n}")).toBe("function f() {\n  let x = 1;\n  return x;\n}");
+    expect(fixSrc("function f() {\n  g(1, 2;\n}")).toBe("function f() {\n  g(1, 2);\n}");
+    // `g(1 2)` is missing something, but not necessarily a `)`
+    expect(parseModule("test.ceiling", "function f() { g(1 2); }").allDiags[0].fixes).toBeUndefined();
+  });
+
+  it("inserts `handle` after `unique`", () => {
+    expect(fixSrc("struct S { w: unique Worker; }")).toBe("struct S { w: unique handle Worker; }");
+  });
+});
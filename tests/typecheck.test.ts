@@ -0,0 +1,199 @@
+import { expect, it, describe } from "vitest";
+import { ASTKind, isError } from "../src/syntax.js";
+import { showType } from "../src/typecheck.js";
+import { typed } from "./pipeline.js";
+
+function typecheckSrc(src: string) {
+  const { module, diagnostics, typing } = typed(src);
+
+  const signatures = module.decls.flatMap(decl => {
+    if (decl.kind === ASTKind.StructDecl || isError(decl) || isError(decl.name)) return [];
+    return [`${decl.name.name}: ${showType(typing.types.get(decl)!)}`];
+  });
+
+  return {
+    signatures,
+    diagnostics: typing.allDiags.map(d => `${src.slice(diagnostics.offsetAt(d.range.start), diagnostics.offsetAt(d.range.end))}: ${d.message}`),
+  };
+}
+
+describe("type inference", () => {
+  it("infers function signatures", () => {
+    const src = `function square(x) { return x * x; } function twice(x) { return [x, x]; } function main() { return 2.square(); }`;
+    expect(typecheckSrc(src)).toEqual({
+      signatures: ["square: (number) => number", "twice: ('t5) => Array<'t5>", "main: () => number"],
+      diagnostics: [],
+    });
+  });
+
+  it("checks annotations", () => {
+    const src = `function f(x: number): string { return x; } function g() { const s: string = 1; let n = 1; n = "a"; }`;
+    expect(typecheckSrc(src).diagnostics).toEqual([
+      "x: type mismatch: expected `string`, found `number`",
+      "1: type mismatch: expected `string`, found `number`",
+      `"a": type mismatch: expected \`number\`, found \`string\``,
+    ]);
+  });
+
+  it("concatenates strings with +", () => {
+    const src = `
+function greet(name: string) { return "hello, " + name; }
+function count(n: number) { let s = "n = "; s += n; return s + "!"; }
+function add(a, b) { return a + b; }
+function bad(s: string) { return s + true; }
+`;
+    expect(typecheckSrc(src)).toEqual({
+      signatures: [
+        "greet: (string) => string",
+        "count: (number) => string",
+        "add: (number, number) => number",
+        "bad: (string) => string",
+      ],
+      diagnostics: ["true: type mismatch: expected `string | number`, found `boolean`"],
+    });
+  });
+
+  it("propagates through type variables", () => {
+    const src = `function id(x) { return x; } function f(): boolean { return 1.id(); }`;
+    expect(typecheckSrc(src).diagnostics).toEqual(["1.id(): type mismatch: expected `boolean`, found `number`"]);
+  });
+
+  it("checks calls", () => {
+    const src = `function f(a: number, b: number) { return a; } function g() { f(1); f("a", 2); 3(1); }`;
+    expect(typecheckSrc(src).diagnostics).toEqual([
+      "f(1): expected 2 arguments, found 1",
+      `"a": type mismatch: expected \`number\`, found \`string\``,
+      "3(1): type mismatch: expected `(number) => 't2`, found `number`",
+    ]);
+  });
+
+  it("types structs and field access", () => {
+    const src = `
+struct Point { x: number; y: number = 0; }
+function norm(p) { return p.x * p.x + p.y * p.y; }
+function main() { Point { x: 1 }.norm(); Point { y: 1 }; Point { x: "a" }; }
+function bad() { return 1.norm(); }
+`;
+    expect(typecheckSrc(src)).toMatchSnapshot();
+  });
+
+  it("types queries, commands and spawning", () => {
+    const src = `
+actor struct Counter {
+  read i: number;
+}
+
+query Counter.increment(): number {
+  this.i += 1;
+  return this.i;
+}
+
+command Counter.set(value: number) {
+  this.i = value;
+}
+
+function main() {
+  const counter = await Counter { i: 0 }.start();
+  counter.set("a");
+  const n: string = await counter.increment();
+  return counter.i;
+}
+`;
+    expect(typecheckSrc(src)).toMatchSnapshot();
+  });
+
+  it("makes functions that await return promises", () => {
+    const src = `
+actor struct Counter { }
+query Counter.get(): number { return 1; }
+function f(counter: handle Counter): number { return await counter.get(); }
+function g(counter: handle Counter) { return f(counter) + 1; }
+function h(counter: handle Counter) { return await f(counter) + 1; }
+`;
+    expect(typecheckSrc(src)).toEqual({
+      signatures: [
+        "get: () => number",
+        "f: (handle Counter) => Promise<number>",
+        "g: (handle Counter) => number",
+        "h: (handle Counter) => Promise<number>",
+      ],
+      diagnostics: ["f(counter): type mismatch: expected `number`, found `Promise<number>`"],
+    });
+  });
+
+  it("picks message handlers by receiver", () => {
+    const src = `
+actor struct A { }
+actor struct B { }
+query A.get(): number { return 1; }
+query B.get(): string { return "b"; }
+function main(a: handle A, b: handle B, c) {
+  const x: number = await a.get();
+  const y: string = await b.get();
+  c.get();
+}
+`;
+    expect(typecheckSrc(src).diagnostics).toEqual(["get: ambiguous call, could be any of A.get, B.get"]);
+  });
+
+  it("reports UFCS calls nothing handles", () => {
+    const src = `
+actor struct A { }
+struct S { f: (n: number) => number }
+function v(a: handle A) { return a.nope(); }
+function g() { return 5.square(); }
+function h(s: S) { return s.f(1) + s.missing(); }
+function native(x, s: string) { x.anything(); return (1.5).toFixed(1) + s.trim(); }
+`;
+    expect(typecheckSrc(src).diagnostics).toEqual([
+      "nope: actor `A` has no query or command `nope`",
+      "square: `number` has no method `square`, and no function of that name is in scope",
+      "missing: `S` has no field `missing`, and no function of that name is in scope",
+    ]);
+  });
+
+  it("checks handle types and unions", () => {
+    const src = `
+struct S { }
+actor struct A { }
+function f(s: handle S, x: number | string, a: handle A) { return x; }
+function main(a: handle A) { f(S {}, 1, a); f(S {}, true, a); }
+`;
+    expect(typecheckSrc(src)).toMatchSnapshot();
+  });
+
+  it("indexes maps by key", () => {
+    const src = `function f(m: Map<string, number>, xs: number[]) { m["a"] += xs[0]; m[1] = "b"; return m["c"]; }`;
+    expect(typecheckSrc(src)).toEqual({
+      signatures: ["f: (Map<string, number>, Array<number>) => number"],
+      diagnostics: ["1: type mismatch: expected `string`, found `number`", '"b": type mismatch: expected `number`, found `string`'],
+    });
+  });
+
+  it("records types per expression", () => {
+    const { typing } = typed(`function f() { const xs = [1, 2]; return xs[0]; }`);
+    const types = [...typing.types.entries()]
+      .filter(([node]) => "kind" in node && (node as { kind: ASTKind }).kind === ASTKind.Index)
+      .map(([, type]) => showType(type));
+    expect(types).toEqual(["number"]);
+  });
+
+  it("types ctx fields across calls", () => {
+    const src = `
+function show() ctx { value: number } { return ctx.value + 1; }
+function label() { return ctx.name; }
+function main() {
+  ctx.name = "a";
+  const s: string = label();
+  ctx { value = "two" } { show(); }
+  ctx.count = new Map();
+  ctx.count.set(1, true);
+  return ctx.count;
+}
+`;
+    expect(typecheckSrc(src)).toEqual({
+      signatures: ["show: () => number", "label: () => string", "main: () => Map<'t6, 't7>"],
+      diagnostics: ["show(): type mismatch: expected `number`, found `string`"],
+    });
+  });
+});